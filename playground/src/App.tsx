@@ -1,6 +1,6 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { ZSplat } from 'zsplat';
-import type { SplatData, SplatStats, SortMethod } from 'zsplat';
+import type { SplatData, SplatStats, SortMethod, LoadProgress, SplatRenderer, CropMode, CropVolume } from 'zsplat';
 import type { OpenDetail } from './types';
 import { FPS_SAMPLES_CAP, computeRunningStats } from './utils/stats';
 import { TopBar } from './components/TopBar';
@@ -10,6 +10,8 @@ import { WelcomeScreen } from './components/WelcomeScreen';
 import { LoadingOverlay } from './components/LoadingOverlay';
 import { ErrorOverlay } from './components/ErrorOverlay';
 import { DragOverlay } from './components/DragOverlay';
+import { CropGizmo } from './components/CropGizmo';
+import type { CropBox } from './components/CropGizmo';
 import { Button } from './components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './components/ui/dialog';
 
@@ -57,7 +59,7 @@ function getSavedState(): HmrSavedState | undefined {
 function isValidSplatUrl(url: string): boolean {
   try {
     const pathname = new URL(url).pathname.toLowerCase();
-    return pathname.endsWith('.ply') || pathname.endsWith('.spz');
+    return pathname.endsWith('.ply') || pathname.endsWith('.spz') || pathname.endsWith('.rad') || pathname.endsWith('.splat') || pathname.endsWith('.sog');
   } catch {
     return false;
   }
@@ -103,6 +105,7 @@ export function App() {
   );
   const [stats, setStats] = useState<SplatStats | null>(() => getSavedState()?.stats ?? null);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<LoadProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [dragging, setDragging] = useState(false);
   const [shEnabled, setShEnabled] = useState(() => getSavedState()?.shEnabled ?? true);
@@ -111,6 +114,10 @@ export function App() {
   const [cameraControlMode, setCameraControlMode] = useState<'orbit' | 'fly'>('orbit');
   const [sortMode, setSortMode] = useState<SortMethod>('gpu-subgroup');
   const [splatData, setSplatData] = useState<SplatData | null>(null);
+  const [renderer, setRenderer] = useState<SplatRenderer | null>(null);
+  const [cropEnabled, setCropEnabled] = useState(false);
+  const [cropMode, setCropMode] = useState<CropMode>('inside');
+  const [cropBox, setCropBox] = useState<CropBox | null>(null);
   const [openDetail, setOpenDetail] = useState<OpenDetail>(null);
   const [runningStats, setRunningStats] = useState<ReturnType<typeof computeRunningStats>>(null);
   const [urlInput, setUrlInput] = useState(getInitialUrlFromParams);
@@ -127,8 +134,10 @@ export function App() {
   const resetAndLoad = useCallback((newSrc: string | File) => {
     setError(null);
     setLoading(true);
+    setProgress(null);
     setStats(null);
     setSplatData(null);
+    setCropBox(null);
     setRunningStats(null);
     fpsSamplesRef.current = [];
     setSrc(newSrc);
@@ -146,7 +155,7 @@ export function App() {
     const url = urlInput.trim();
     if (!url) return;
     if (!isValidSplatUrl(url)) {
-      setError('Invalid URL: only .ply and .spz URLs are supported.');
+      setError('Invalid URL: only .ply, .spz, .rad, .splat and .sog URLs are supported.');
       return;
     }
     if (!canLoadModel) {
@@ -159,6 +168,14 @@ export function App() {
   const handleLoad = useCallback((info: { numSplats: number; splatData?: SplatData }) => {
     setLoading(false);
     setSplatData(info.splatData ?? null);
+    if (info.splatData) {
+      // Start the crop box at the scene bounds
+      const { min, max } = info.splatData.bounds;
+      setCropBox({
+        center: [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2],
+        halfExtents: [(max[0] - min[0]) / 2, (max[1] - min[1]) / 2, (max[2] - min[2]) / 2],
+      });
+    }
     setStats((prev) =>
       prev ? { ...prev, numSplats: info.numSplats } : { numSplats: info.numSplats, loadTimeMs: 0, fps: 0, gpuMemoryBytes: 0 },
     );
@@ -178,6 +195,11 @@ export function App() {
     }
   }, []);
 
+  const cropVolumes = useMemo<CropVolume[]>(
+    () => (cropEnabled && cropBox ? [{ type: 'box', ...cropBox, mode: cropMode }] : []),
+    [cropEnabled, cropBox, cropMode],
+  );
+
   const openFilePicker = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
@@ -196,7 +218,7 @@ export function App() {
     setDragging(false);
     const file = e.dataTransfer.files[0];
     const name = file?.name?.toLowerCase() ?? '';
-    if (file && (name.endsWith('.ply') || name.endsWith('.spz'))) {
+    if (file && (name.endsWith('.ply') || name.endsWith('.spz') || name.endsWith('.rad') || name.endsWith('.splat') || name.endsWith('.sog'))) {
       if (!canLoadModel) {
         setPendingSource(file);
         return;
@@ -214,7 +236,7 @@ export function App() {
         resetAndLoad(initial);
       }
     } else if (initial) {
-      setError('Invalid ?src= URL: only .ply and .spz URLs are supported.');
+      setError('Invalid ?src= URL: only .ply, .spz, .rad, .splat and .sog URLs are supported.');
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [canLoadModel]);
@@ -255,7 +277,7 @@ export function App() {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".ply,.spz"
+        accept=".ply,.spz,.rad,.splat,.sog"
         className="hidden"
         onChange={(e) => {
           const f = e.target.files?.[0];
@@ -274,6 +296,9 @@ export function App() {
             hoverEnabled={hoverEnabled}
             cameraControlMode={cameraControlMode}
             sortMethod={sortMode}
+            cropVolumes={cropVolumes}
+            onRendererReady={setRenderer}
+            onProgress={setProgress}
             onLoad={handleLoad}
             onError={handleError}
             onStats={handleStats}
@@ -281,6 +306,9 @@ export function App() {
         ) : (
           <WelcomeScreen onOpen={openFilePicker} />
         )}
+        {src && cropEnabled && cropBox && renderer && (
+          <CropGizmo renderer={renderer} box={cropBox} onChange={setCropBox} />
+        )}
       </div>
 
       <TopBar
@@ -294,6 +322,10 @@ export function App() {
         onHoverChange={setHoverEnabled}
         cameraControlMode={cameraControlMode}
         onCameraControlModeChange={setCameraControlMode}
+        cropEnabled={cropEnabled}
+        onCropChange={setCropEnabled}
+        cropMode={cropMode}
+        onCropModeChange={setCropMode}
         sortMode={sortMode}
         onSortModeChange={setSortMode}
         urlInput={urlInput}
@@ -320,7 +352,7 @@ export function App() {
         onCloseHover={() => setHoverEnabled(false)}
       />
 
-      {loading && <LoadingOverlay />}
+      {loading && <LoadingOverlay progress={progress} />}
       {error && <ErrorOverlay message={error} onBack={() => { setError(null); setSrc(null); }} />}
       {dragging && <DragOverlay />}
       <Dialog
@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from 'react';
+import type { SplatRenderer } from 'zsplat';
+
+export type CropBox = {
+  center: [number, number, number];
+  halfExtents: [number, number, number];
+};
+
+type Vec3 = [number, number, number];
+type ScreenPoint = [number, number] | null;
+
+// Box corners as signs along x, y, z, and the 12 edges between them
+const CORNERS: Vec3[] = [
+  [-1, -1, -1], [1, -1, -1], [1, 1, -1], [-1, 1, -1],
+  [-1, -1, 1], [1, -1, 1], [1, 1, 1], [-1, 1, 1],
+];
+const EDGES: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 0],
+  [4, 5], [5, 6], [6, 7], [7, 4],
+  [0, 4], [1, 5], [2, 6], [3, 7],
+];
+// One drag handle per face: axis and outward sign
+const FACES: { axis: number; sign: number }[] = [
+  { axis: 0, sign: -1 }, { axis: 0, sign: 1 },
+  { axis: 1, sign: -1 }, { axis: 1, sign: 1 },
+  { axis: 2, sign: -1 }, { axis: 2, sign: 1 },
+];
+const MIN_HALF_EXTENT = 1e-3;
+
+function project(m: Float32Array, p: Vec3, width: number, height: number): ScreenPoint {
+  const w = m[3] * p[0] + m[7] * p[1] + m[11] * p[2] + m[15];
+  if (w <= 0) return null; // behind the camera
+  const x = (m[0] * p[0] + m[4] * p[1] + m[8] * p[2] + m[12]) / w;
+  const y = (m[1] * p[0] + m[5] * p[1] + m[9] * p[2] + m[13]) / w;
+  return [(x * 0.5 + 0.5) * width, (0.5 - y * 0.5) * height];
+}
+
+function facePoint(box: CropBox, axis: number, sign: number, extra = 0): Vec3 {
+  const p: Vec3 = [...box.center];
+  p[axis] += sign * (box.halfExtents[axis] + extra);
+  return p;
+}
+
+/**
+ * Wireframe overlay for an axis-aligned crop box. Drag a face handle to move that face
+ * along its axis; the opposite face stays put.
+ */
+export function CropGizmo({
+  renderer,
+  box,
+  onChange,
+}: {
+  renderer: SplatRenderer;
+  box: CropBox;
+  onChange: (box: CropBox) => void;
+}) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [, setFrame] = useState(0);
+  const dragRef = useRef<{
+    axis: number;
+    sign: number;
+    start: CropBox;
+    pointer: [number, number];
+    /** Screen pixels per world unit along the face's outward axis. */
+    dir: [number, number];
+  } | null>(null);
+
+  // The camera moves every frame (turntable, controls): re-project continuously
+  useEffect(() => {
+    let id = 0;
+    const tick = () => {
+      setFrame((n) => n + 1);
+      id = requestAnimationFrame(tick);
+    };
+    id = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(id);
+  }, []);
+
+  const svg = svgRef.current;
+  const width = svg?.clientWidth ?? 0;
+  const height = svg?.clientHeight ?? 0;
+  const m = renderer.camera.viewProjMatrix;
+  const corners = CORNERS.map((c) =>
+    project(m, [0, 1, 2].map((i) => box.center[i] + c[i] * box.halfExtents[i]) as Vec3, width, height),
+  );
+
+  const onPointerDown = (e: React.PointerEvent, axis: number, sign: number) => {
+    const a = project(m, facePoint(box, axis, sign), width, height);
+    const b = project(m, facePoint(box, axis, sign, 1), width, height);
+    if (!a || !b) return;
+    e.preventDefault();
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    dragRef.current = { axis, sign, start: box, pointer: [e.clientX, e.clientY], dir: [b[0] - a[0], b[1] - a[1]] };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const [dx, dy] = drag.dir;
+    const len2 = dx * dx + dy * dy;
+    if (len2 < 1e-6) return;
+    // World distance the face moves outward
+    const t = ((e.clientX - drag.pointer[0]) * dx + (e.clientY - drag.pointer[1]) * dy) / len2;
+    const { axis, sign, start } = drag;
+    const half = Math.max(MIN_HALF_EXTENT, start.halfExtents[axis] + t / 2);
+    const center: Vec3 = [...start.center];
+    center[axis] += sign * (half - start.halfExtents[axis]);
+    const halfExtents: Vec3 = [...start.halfExtents];
+    halfExtents[axis] = half;
+    onChange({ center, halfExtents });
+  };
+
+  const onPointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <svg ref={svgRef} className="absolute inset-0 w-full h-full pointer-events-none z-[5]">
+      {EDGES.map(([i, j], k) => {
+        const a = corners[i];
+        const b = corners[j];
+        if (!a || !b) return null;
+        return <line key={k} x1={a[0]} y1={a[1]} x2={b[0]} y2={b[1]} stroke="rgb(250 204 21)" strokeWidth={1.5} strokeOpacity={0.8} />;
+      })}
+      {FACES.map(({ axis, sign }, k) => {
+        const p = project(m, facePoint(box, axis, sign), width, height);
+        if (!p) return null;
+        return (
+          <circle
+            key={k}
+            cx={p[0]}
+            cy={p[1]}
+            r={6}
+            className="pointer-events-auto cursor-grab fill-yellow-400 stroke-black/60"
+            onPointerDown={(e) => onPointerDown(e, axis, sign)}
+            onPointerMove={onPointerMove}
+            onPointerUp={onPointerUp}
+            onPointerCancel={onPointerUp}
+          />
+        );
+      })}
+    </svg>
+  );
+}
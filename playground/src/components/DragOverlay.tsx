@@ -1,7 +1,7 @@
 export function DragOverlay() {
   return (
     <div className="absolute inset-0 flex flex-col justify-center items-center bg-sky-500/10 border-[3px] border-dashed border-sky-400/50 z-30">
-      <div className="text-xl font-semibold tracking-tight leading-7">Drop .ply or .spz here</div>
+      <div className="text-xl font-semibold tracking-tight leading-7">Drop .ply, .spz, .rad, .splat or .sog here</div>
     </div>
   );
 }
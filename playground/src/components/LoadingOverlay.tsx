@@ -1,11 +1,47 @@
-export function LoadingOverlay() {
+import type { LoadProgress } from 'zsplat';
+import { fmt, fmtB } from '../utils/format';
+
+const PHASE_LABELS: Record<LoadProgress['phase'], string> = {
+  download: 'Downloading',
+  decode: 'Decoding',
+  upload: 'Uploading to GPU',
+};
+
+export function LoadingOverlay({ progress }: { progress?: LoadProgress | null }) {
+  const fraction = progress && progress.total > 0 ? Math.min(1, progress.loaded / progress.total) : null;
+  const amount = progress
+    ? progress.phase === 'download' ? fmtB(progress.loaded) : `${fmt(progress.loaded)} splats`
+    : null;
+
   return (
     <div className="absolute inset-0 flex flex-col justify-center items-center bg-black/60 backdrop-blur-md z-20">
       <div
         className="w-9 h-9 border-[3px] border-white/15 border-t-white rounded-full animate-zsplat-spin"
         aria-hidden
       />
-      <span className="mt-6 text-sm text-muted-foreground leading-7">Loading splats...</span>
+      {progress ? (
+        <>
+          <div
+            className="mt-6 w-64 h-1.5 rounded-full bg-white/15 overflow-hidden"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={fraction !== null ? Math.round(fraction * 100) : undefined}
+          >
+            {/* Unknown total: a full, dimmed bar instead of a percentage */}
+            <div
+              className={`h-full bg-white transition-[width] duration-150 ${fraction === null ? 'opacity-40' : ''}`}
+              style={{ width: `${(fraction ?? 1) * 100}%` }}
+            />
+          </div>
+          <span className="mt-3 text-sm text-muted-foreground leading-7 tabular-nums">
+            {PHASE_LABELS[progress.phase]}…{' '}
+            {fraction !== null ? `${Math.round(fraction * 100)}%` : amount}
+          </span>
+        </>
+      ) : (
+        <span className="mt-6 text-sm text-muted-foreground leading-7">Loading splats...</span>
+      )}
     </div>
   );
 }
@@ -29,6 +29,17 @@ export function StatsPanel({
     <div className={cn(baseClass, className)}>
       <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground/90">
         <span className={cn(statClass, 'w-[5.5rem]')}>{fmt(stats.numSplats)} splats</span>
+        {stats.visibleSplats != null && (
+          <span className={cn(statClass, 'w-[6rem]')}>{fmt(stats.visibleSplats)} visible</span>
+        )}
+        {stats.frustumCulledSplats != null && (
+          <span
+            className={cn(statClass, 'w-[6rem]')}
+            title={`${fmt(stats.culledChunks ?? 0)} chunks skipped whole`}
+          >
+            {fmt(stats.frustumCulledSplats)} culled
+          </span>
+        )}
         {stats.loadTimeMs > 0 && (
           <span className={cn(statClass, 'w-[5.9rem]')}>{Math.round(stats.loadTimeMs)} ms load</span>
         )}
@@ -1,5 +1,6 @@
 import { Icon } from '@mdi/react';
-import { mdiAirplane, mdiBookOpenPageVariant, mdiCursorDefaultClick, mdiFolderOpen, mdiGithub, mdiLink, mdiRotate360, mdiSphere } from '@mdi/js';
+import { mdiAirplane, mdiBookOpenPageVariant, mdiCrop, mdiCursorDefaultClick, mdiFolderOpen, mdiGithub, mdiLink, mdiRotate360, mdiSelectInverse, mdiSphere } from '@mdi/js';
+import type { CropMode } from 'zsplat';
 import { Button } from '@/components/ui/button';
 import { Toggle } from '@/components/ui/toggle';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
@@ -26,6 +27,10 @@ export function Toolbar({
   onHoverChange,
   cameraControlMode,
   onCameraControlModeChange,
+  cropEnabled,
+  onCropChange,
+  cropMode,
+  onCropModeChange,
   sortMode,
   onSortModeChange,
   urlInput,
@@ -42,6 +47,10 @@ export function Toolbar({
   onHoverChange: (v: boolean) => void;
   cameraControlMode: 'orbit' | 'fly';
   onCameraControlModeChange: (v: 'orbit' | 'fly') => void;
+  cropEnabled: boolean;
+  onCropChange: (v: boolean) => void;
+  cropMode: CropMode;
+  onCropModeChange: (v: CropMode) => void;
   sortMode: SortMode;
   onSortModeChange: (v: SortMode) => void;
   urlInput: string;
@@ -140,6 +149,30 @@ export function Toolbar({
           Fly
         </Toggle>
       )}
+      {hasScene && (
+        <Toggle
+          pressed={cropEnabled}
+          onPressedChange={onCropChange}
+          variant="outline"
+          size="sm"
+          title="Crop box (drag the handles to resize)"
+        >
+          <Icon path={mdiCrop} size={iconSize} />
+          Crop
+        </Toggle>
+      )}
+      {hasScene && cropEnabled && (
+        <Toggle
+          pressed={cropMode === 'outside'}
+          onPressedChange={(p) => onCropModeChange(p ? 'outside' : 'inside')}
+          variant="outline"
+          size="sm"
+          title={cropMode === 'outside' ? 'Cut away splats inside the box' : 'Keep splats inside the box'}
+        >
+          <Icon path={mdiSelectInverse} size={iconSize} />
+          Invert crop
+        </Toggle>
+      )}
       {hasScene && (
         <ToggleGroup
           type="single"
@@ -1,3 +1,4 @@
+import type { CropMode } from 'zsplat';
 import { Toolbar } from './Toolbar';
 
 export function TopBar({
@@ -11,6 +12,10 @@ export function TopBar({
   onHoverChange,
   cameraControlMode,
   onCameraControlModeChange,
+  cropEnabled,
+  onCropChange,
+  cropMode,
+  onCropModeChange,
   sortMode,
   onSortModeChange,
   urlInput,
@@ -27,6 +32,10 @@ export function TopBar({
   onHoverChange: (v: boolean) => void;
   cameraControlMode: 'orbit' | 'fly';
   onCameraControlModeChange: (v: 'orbit' | 'fly') => void;
+  cropEnabled: boolean;
+  onCropChange: (v: boolean) => void;
+  cropMode: CropMode;
+  onCropModeChange: (v: CropMode) => void;
   sortMode: 'cpu' | 'gpu' | 'gpu-subgroup' | 'gpu-unstable';
   onSortModeChange: (v: 'cpu' | 'gpu' | 'gpu-subgroup' | 'gpu-unstable') => void;
   urlInput: string;
@@ -46,6 +55,10 @@ export function TopBar({
         onHoverChange={onHoverChange}
         cameraControlMode={cameraControlMode}
         onCameraControlModeChange={onCameraControlModeChange}
+        cropEnabled={cropEnabled}
+        onCropChange={onCropChange}
+        cropMode={cropMode}
+        onCropModeChange={onCropModeChange}
         sortMode={sortMode}
         onSortModeChange={onSortModeChange}
         urlInput={urlInput}
@@ -0,0 +1,65 @@
+// Compare the standard PLY decoder's float32 fast path with the per-property reader
+// on a synthetic 3DGS PLY (all-float layout, SH degree 3).
+//
+//   pnpm bench:ply [splats=1000000] [runs=3]
+//
+// The library sources are loaded through Vite's SSR module loader, so no build is needed.
+import { createServer } from 'vite';
+
+const count = Number(process.argv[2] ?? 1_000_000);
+const runs = Number(process.argv[3] ?? 3);
+
+const server = await createServer({ configFile: false, logLevel: 'error', server: { middlewareMode: true } });
+try {
+  const { parsePlyHeader } = await server.ssrLoadModule('/src/loaders/ply-parser.ts');
+  const { createStandardPlyDecoder } = await server.ssrLoadModule('/src/loaders/standard-ply-loader.ts');
+  const { saveStandardPly } = await server.ssrLoadModule('/src/writers/standard-ply-writer.ts');
+
+  const buffer = saveStandardPly(syntheticSplats(count));
+  const ply = parsePlyHeader(buffer);
+  const view = new DataView(buffer);
+  console.log(`${count.toLocaleString()} splats, ${(buffer.byteLength / 2 ** 20).toFixed(0)} MB, best of ${runs}`);
+
+  const results = {};
+  for (const [label, fastPath] of [['generic', false], ['float32 fast path', true]]) {
+    let best = Infinity;
+    for (let r = 0; r < runs; r++) {
+      const decoder = createStandardPlyDecoder(ply, { fastPath });
+      const t0 = performance.now();
+      decoder.decode(view, ply.headerByteLength, 0, count);
+      best = Math.min(best, performance.now() - t0);
+      results[label] = decoder.data;
+    }
+    console.log(`${label.padEnd(18)} ${best.toFixed(0).padStart(7)} ms  ${((count / best) * 1e-3).toFixed(2)} M splats/s`);
+  }
+
+  const a = results['generic'];
+  const b = results['float32 fast path'];
+  for (const key of ['positions', 'rotations', 'scales', 'colors', 'shCoeffs']) {
+    if (!a[key].every((v, i) => Object.is(v, b[key][i]))) throw new Error(`fast path differs from generic in ${key}`);
+  }
+  console.log('outputs identical');
+} finally {
+  await server.close();
+}
+
+function syntheticSplats(n) {
+  const rand = (len, scale) => Float32Array.from({ length: len }, () => (Math.random() * 2 - 1) * scale);
+  const positions = rand(n * 3, 10);
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < n * 3; i++) {
+    min[i % 3] = Math.min(min[i % 3], positions[i]);
+    max[i % 3] = Math.max(max[i % 3], positions[i]);
+  }
+  return {
+    count: n,
+    positions,
+    rotations: rand(n * 4, 1),
+    scales: Float32Array.from({ length: n * 3 }, () => Math.exp(-6 * Math.random())),
+    colors: Float32Array.from({ length: n * 4 }, () => Math.random()),
+    shCoeffs: rand(n * 45, 0.3),
+    shDegree: 3,
+    bounds: { min, max },
+  };
+}
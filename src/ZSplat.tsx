@@ -1,13 +1,14 @@
 import { useEffect, useRef, useCallback } from 'react';
 import type { ZSplatProps, SplatData, SplatStats } from './types';
 import { SplatRenderer } from './core/SplatRenderer';
-import { Camera } from './core/Camera';
-import { parsePlyHeader, isCompressedPly } from './loaders/ply-parser';
-import { loadCompressedPly } from './loaders/compressed-ply-loader';
-import { loadStandardPly } from './loaders/standard-ply-loader';
-import { loadSog, isSogFile } from './loaders/sog-loader';
-import { loadSpz, isSpzFile } from './loaders/spz-loader';
-// import { loadRad, isRadFile } from './loaders/rad-loader';
+import { Camera, coordinateSystemUp } from './core/Camera';
+import { loadRadStream } from './loaders/rad-loader';
+import { loadPlyStream } from './loaders/ply-stream-loader';
+import { loadSplat, loadPackedCompressedPly } from './loaders/load-splat';
+import { probeStreamingSource } from './loaders/detect-format';
+import { splatShDegree } from './splat-data';
+import { splatLayoutStrides } from './core/SplatLayout';
+import type { SceneLayout } from './core/SplatLayout';
 
 /**
  * React component that renders 3D Gaussian Splats via WebGPU.
@@ -18,7 +19,7 @@ import { loadSpz, isSpzFile } from './loaders/spz-loader';
  */
 const TURNTABLE_SPEED = 0.004; // radians per frame (~full rotation in ~25s at 60fps)
 
-export function ZSplat({ src, style, className, camera, shEnabled = true, turntable = false, hoverEnabled = false, cameraControlMode = 'orbit', sortMethod = 'gpu-subgroup', onLoad, onError, onStats }: ZSplatProps) {
+export function ZSplat({ src, style, className, camera, shEnabled = true, turntable = false, hoverEnabled = false, cameraControlMode = 'orbit', sortMethod = 'gpu-subgroup', layout = 'float32', coordinateSystem = 'opencv', cropVolumes, loadInWorker = false, packCompressedPly = true, onRendererReady, onProgress, onLoad, onError, onStats }: ZSplatProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const rendererRef = useRef<SplatRenderer | null>(null);
   const roRef = useRef<ResizeObserver | null>(null);
@@ -53,6 +54,22 @@ export function ZSplat({ src, style, className, camera, shEnabled = true, turnta
     }
   }, [cameraControlMode]);
 
+  // Sync scene axes and world up (camera.up wins over the coordinate system's)
+  const [upX, upY, upZ] = camera?.up ?? coordinateSystemUp(coordinateSystem);
+  useEffect(() => {
+    if (rendererRef.current) {
+      rendererRef.current.setCoordinateSystem(coordinateSystem);
+      rendererRef.current.camera.setUp([upX, upY, upZ]);
+    }
+  }, [coordinateSystem, upX, upY, upZ]);
+
+  // Sync crop volumes
+  useEffect(() => {
+    if (rendererRef.current) {
+      rendererRef.current.setCropVolumes(cropVolumes ?? []);
+    }
+  }, [cropVolumes]);
+
   const handleError = useCallback(
     (err: unknown) => {
       const error = err instanceof Error ? err : new Error(String(err));
@@ -67,20 +84,24 @@ export function ZSplat({ src, style, className, camera, shEnabled = true, turnta
     if (!canvas) return;
 
     let destroyed = false;
+    const abortController = new AbortController();
 
     const init = async () => {
       try {
         const cam = new Camera({
           position: camera?.position,
           target: camera?.target,
+          up: [upX, upY, upZ],
           fov: camera?.fov,
           near: camera?.near,
           far: camera?.far,
         });
 
-        const renderer = new SplatRenderer({ camera: cam, sort: sortMethod });
+        const renderer = new SplatRenderer({ camera: cam, sort: sortMethod, layout, coordinateSystem });
+        cam.setUp([upX, upY, upZ]);
         renderer.turntableSpeed = turntable ? TURNTABLE_SPEED : 0;
         renderer.shEnabled = shEnabled;
+        renderer.setCropVolumes(cropVolumes ?? []);
         rendererRef.current = renderer;
 
         // Size the canvas to CSS layout dimensions
@@ -94,43 +115,90 @@ export function ZSplat({ src, style, className, camera, shEnabled = true, turnta
           renderer.dispose();
           return;
         }
+        onRendererReady?.(renderer);
 
-        // Load splat data (PLY or SOG)
+        // Start render loop with FPS tracking and pick readback stats (e.g. hoveredSplatIndex)
+        const startRenderLoop = () => {
+          renderer.startLoop(
+            () => {
+              const now = performance.now();
+              const times = frameTimesRef.current;
+              times.push(now);
+              while (times.length > 60) times.shift();
+              if (times.length >= 2) {
+                const elapsed = times[times.length - 1] - times[0];
+                statsRef.current.fps = Math.round(((times.length - 1) / elapsed) * 1000);
+              }
+              onStats?.({ ...statsRef.current });
+            },
+            (partial) => {
+              statsRef.current = { ...statsRef.current, ...partial };
+              onStats?.(statsRef.current);
+            },
+          );
+        };
+
+        // Load splat data (PLY, SPZ, RAD, glTF, .splat or SOG)
         const loadStart = performance.now();
-        const splatData = await loadSplatData(src);
-
+        let splatData: SplatData | undefined;
+        let scene: { count: number; shDegree: number; layout: SceneLayout };
+
+        // Chosen by content, not name: presigned and extensionless URLs stream too.
+        // The probe's response is handed on, so every format is fetched once.
+        const probe = loadInWorker ? null : await probeStreamingSource(src, abortController.signal);
+        const streamFormat = probe?.format ?? null;
+        const response = probe?.response ?? undefined;
         if (destroyed) {
+          response?.body?.cancel().catch(() => {});
           renderer.dispose();
           return;
         }
-
-        renderer.setScene(splatData);
+        if (streamFormat === 'compressed-ply' && packCompressedPly) {
+          // Compressed PLY: upload the packed words for the preprocess shader to decode
+          const packed = await loadPackedCompressedPly(src, { signal: abortController.signal, onProgress, response });
+          if (destroyed) {
+            renderer.dispose();
+            return;
+          }
+          await renderer.setPackedScene(packed, { signal: abortController.signal, onProgress });
+          startRenderLoop();
+          scene = { count: packed.count, shDegree: packed.shCoeffs ? packed.shDegree : 0, layout: 'compressed-ply' };
+        } else if (streamFormat) {
+          // RAD / PLY: stream batches straight into the renderer so the scene appears progressively
+          startRenderLoop();
+          const loadStream = streamFormat === 'rad' ? loadRadStream : loadPlyStream;
+          splatData = await loadStream(src, {
+            signal: abortController.signal,
+            onProgress,
+            response,
+            onHeader: ({ count, shDegree, shScale }) => renderer.beginScene(count, { shDegree, shScale }),
+            onBatch: (batch) => {
+              renderer.appendSplats(batch);
+              statsRef.current.numSplats = renderer.splatCount;
+            },
+            onShCoeffs: (shCoeffs, start) => renderer.writeShCoeffs(shCoeffs, start),
+          });
+          scene = { count: splatData.count, shDegree: splatShDegree(splatData), layout };
+        } else {
+          splatData = await loadSplat(src, { worker: loadInWorker, signal: abortController.signal, onProgress, response });
+
+          if (destroyed) {
+            renderer.dispose();
+            return;
+          }
+
+          await renderer.setScene(splatData, { signal: abortController.signal, onProgress });
+          startRenderLoop();
+          scene = { count: splatData.count, shDegree: splatShDegree(splatData), layout };
+        }
 
         const loadTime = performance.now() - loadStart;
-        statsRef.current.numSplats = splatData.count;
+        statsRef.current.numSplats = scene.count;
         statsRef.current.loadTimeMs = loadTime;
-        statsRef.current.gpuMemoryBytes = estimateGpuMemory(splatData.count);
+        statsRef.current.gpuMemoryBytes = estimateGpuMemory(scene.count, scene.shDegree, scene.layout);
 
-        onLoad?.({ numSplats: splatData.count, splatData });
+        onLoad?.({ numSplats: scene.count, splatData });
 
-        // Start render loop with FPS tracking and pick readback stats (e.g. hoveredSplatIndex)
-        renderer.startLoop(
-          () => {
-            const now = performance.now();
-            const times = frameTimesRef.current;
-            times.push(now);
-            while (times.length > 60) times.shift();
-            if (times.length >= 2) {
-              const elapsed = times[times.length - 1] - times[0];
-              statsRef.current.fps = Math.round(((times.length - 1) / elapsed) * 1000);
-            }
-            onStats?.({ ...statsRef.current });
-          },
-          (partial) => {
-            statsRef.current = { ...statsRef.current, ...partial };
-            onStats?.(statsRef.current);
-          },
-        );
         renderer.pickEnabled = hoverEnabled;
 
         // Set up resize observer
@@ -144,6 +212,7 @@ export function ZSplat({ src, style, className, camera, shEnabled = true, turnta
         ro.observe(canvas);
         roRef.current = ro;
       } catch (err) {
+        if (destroyed) return;
         handleError(err);
       }
     };
@@ -152,67 +221,22 @@ export function ZSplat({ src, style, className, camera, shEnabled = true, turnta
 
     return () => {
       destroyed = true;
+      abortController.abort();
       roRef.current?.disconnect();
       rendererRef.current?.dispose();
       rendererRef.current = null;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [src, sortMethod]);
+  }, [src, sortMethod, layout, loadInWorker, packCompressedPly]);
 
   return <canvas ref={canvasRef} className={className} style={style} />;
 }
 
 // ---- helpers ----
 
-async function loadSplatData(src: string | File): Promise<SplatData> {
-  // SOG format (meta.json URL)
-  if (typeof src === 'string' && isSogFile(src)) {
-    return loadSog(src);
-  }
-
-  let buffer: ArrayBuffer;
-  const fileLike =
-    src instanceof File ||
-    (typeof src === 'object' && src !== null && typeof (src as File).arrayBuffer === 'function');
-  if (fileLike) {
-    buffer = await (src as File).arrayBuffer();
-  } else {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10 * 60 * 1000); // 10 min for large files
-    try {
-      const resp = await fetch(src, { signal: controller.signal });
-      clearTimeout(timeoutId);
-      if (!resp.ok) throw new Error(`Failed to fetch ${src}: ${resp.status}`);
-      buffer = await resp.arrayBuffer();
-    } catch (e) {
-      clearTimeout(timeoutId);
-      const isBlob = typeof src === 'string' && src.startsWith('blob:');
-      const hint = isBlob
-        ? ' Pass the File object from the file picker instead of URL.createObjectURL(file).'
-        : ' For large files (e.g. >100MB), open via the file picker and pass the File directly.';
-      const msg =
-        e instanceof Error && e.name === 'AbortError'
-          ? `Request timed out loading ${src}.${hint}`
-          : e instanceof Error
-            ? `${e.message}.${hint}`
-            : 'Failed to load file.';
-      throw new Error(msg);
-    }
-  }
-
-  const name = fileLike ? (src as File).name : (src as string);
-  if (isSpzFile(name)) {
-    return loadSpz(buffer);
-  }
-  const ply = parsePlyHeader(buffer);
-  if (isCompressedPly(ply)) {
-    return loadCompressedPly(buffer, ply);
-  }
-  return loadStandardPly(buffer, ply);
-}
-
-function estimateGpuMemory(n: number): number {
-  // positions(N*3*4) + rotations(N*4*4) + scales(N*3*4) + colors(N*4*4)
-  // + splatOut(N*12*4) + sort buffers(N*4*4)
-  return n * (12 + 16 + 12 + 16 + 48 + 16);
+function estimateGpuMemory(n: number, shDegree: number, layout: SceneLayout): number {
+  // positions + rotations + scales + colors + shCoeffs (see splatLayoutStrides)
+  // + object ids(N*4) + edit states(N) + splatOut(N*12*4) + sort keys(N*4) + sort buffers(N*4*4)
+  const s = splatLayoutStrides(layout, shDegree);
+  return n * (s.position + s.rotation + s.scale + s.color + s.sh + 4 + 1 + 48 + 4 + 16);
 }
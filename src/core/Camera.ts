@@ -1,6 +1,23 @@
+import type { CoordinateSystem } from '../types';
+
+type Vec3 = [number, number, number];
+
+/** World up vector of each coordinate system (all right-handed). */
+const COORDINATE_SYSTEM_UP: Record<CoordinateSystem, Vec3> = {
+  opencv: [0, -1, 0], // COLMAP / 3DGS PLY: +Y down, +Z forward
+  opengl: [0, 1, 0],  // glTF, three.js
+  'z-up': [0, 0, 1],  // Blender, most scanners
+};
+
+/** World up vector for `system`. */
+export function coordinateSystemUp(system: CoordinateSystem): [number, number, number] {
+  return [...COORDINATE_SYSTEM_UP[system]];
+}
+
 /**
  * Orbit camera with mouse/touch/wheel interaction and smooth damping.
  * Produces view and projection matrices as Float32Array(16).
+ * Orbit, fly and pan work around a configurable world up vector (default: 'opencv', -Y).
  */
 export class Camera {
   // Spherical coordinates
@@ -9,6 +26,11 @@ export class Camera {
   private radius: number;  // distance from target
   private target: [number, number, number];
 
+  // Orbit frame: up, plus the directions theta = π/2 (side) and theta = 0 (forward) at phi = π/2
+  private up: Vec3 = [0, 1, 0];
+  private side: Vec3 = [0, 0, 0];
+  private forward: Vec3 = [0, 0, 0];
+
   // Velocity for smooth damping
   private vTheta = 0;
   private vPhi = 0;
@@ -58,6 +80,8 @@ export class Camera {
   constructor(options?: {
     position?: [number, number, number];
     target?: [number, number, number];
+    /** World up vector. Default: that of 'opencv' ([0, -1, 0]). */
+    up?: [number, number, number];
     fov?: number;
     near?: number;
     far?: number;
@@ -66,15 +90,11 @@ export class Camera {
     this.fov = options?.fov ?? 60;
     this.near = options?.near ?? 0.01;
     this.far = options?.far ?? 1000;
+    this.setFrame(options?.up ?? COORDINATE_SYSTEM_UP.opencv);
 
     // Compute spherical coords from position
-    const pos = options?.position ?? [0, 1, -5];
-    const dx = pos[0] - this.target[0];
-    const dy = pos[1] - this.target[1];
-    const dz = pos[2] - this.target[2];
-    this.radius = Math.sqrt(dx * dx + dy * dy + dz * dz) || 3;
-    this.phi = Math.acos(Math.max(-1, Math.min(1, dy / this.radius)));
-    this.theta = Math.atan2(dx, dz);
+    this.radius = this.theta = this.phi = 0;
+    this.setOrbitFromPosition(options?.position ?? [0, 1, -5]);
 
     this.initialTarget = [...this.target];
     this.initialTheta = this.theta;
@@ -144,8 +164,8 @@ export class Camera {
     const step = keySpeed * speedMul;
     if (this.keysDown.has('w')) { this.vPanForward += step; this.dirty = true; }
     if (this.keysDown.has('s')) { this.vPanForward -= step; this.dirty = true; }
-    if (this.keysDown.has('a')) { this.vPanX += step; this.dirty = true; }
-    if (this.keysDown.has('d')) { this.vPanX -= step; this.dirty = true; }
+    if (this.keysDown.has('a')) { this.vPanX -= step; this.dirty = true; }
+    if (this.keysDown.has('d')) { this.vPanX += step; this.dirty = true; }
     if (this.keysDown.has('q')) { this.vPanY -= step; this.dirty = true; }
     if (this.keysDown.has('e')) { this.vPanY += step; this.dirty = true; }
 
@@ -233,29 +253,43 @@ export class Camera {
     return this._viewProj;
   }
 
+  /** World up vector (unit length). */
+  get upVector(): [number, number, number] {
+    return [...this.up];
+  }
+
   /** Update camera from external camera state */
   setFromState(state: {
     position?: [number, number, number];
     target?: [number, number, number];
+    up?: [number, number, number];
     fov?: number;
     near?: number;
     far?: number;
   }): void {
+    // A new up vector re-derives the orbit angles of the current position
+    let position = state.position;
+    if (!position && state.up) {
+      const dir = this.orbitDir();
+      position = [0, 1, 2].map((k) => this.target[k] + this.radius * dir[k]) as Vec3;
+    }
+    if (state.up) this.setFrame(state.up);
     if (state.target) this.target = [...state.target];
     if (state.fov) this.fov = state.fov;
     if (state.near) this.near = state.near;
     if (state.far) this.far = state.far;
-    if (state.position) {
-      const dx = state.position[0] - this.target[0];
-      const dy = state.position[1] - this.target[1];
-      const dz = state.position[2] - this.target[2];
-      this.radius = Math.sqrt(dx * dx + dy * dy + dz * dz) || 3;
-      this.phi = Math.acos(Math.max(-1, Math.min(1, dy / this.radius)));
-      this.theta = Math.atan2(dx, dz);
-    }
+    if (position) this.setOrbitFromPosition(position);
     this.dirty = true;
   }
 
+  /**
+   * Change the world up vector, keeping the current position and target.
+   * Orbit and fly rotate around it, and it points up on screen.
+   */
+  setUp(up: [number, number, number]): void {
+    this.setFromState({ up });
+  }
+
   /** Reset camera to look at scene bounds */
   fitToBounds(min: [number, number, number], max: [number, number, number]): void {
     this.target = [
@@ -296,26 +330,48 @@ export class Camera {
   /** Set _flyPosition from current target/theta/phi/radius so fly mode matches. */
   private syncFlyPositionFromOrbit(): void {
     if (this.controlMode !== 'fly') return;
-    const sp = Math.sin(this.phi);
-    const cp = Math.cos(this.phi);
-    const st = Math.sin(this.theta);
-    const ct = Math.cos(this.theta);
+    const [dirX, dirY, dirZ] = this.orbitDir();
     if (!this._flyPosition) this._flyPosition = [0, 0, 0];
-    this._flyPosition[0] = this.target[0] + this.radius * sp * st;
-    this._flyPosition[1] = this.target[1] + this.radius * cp;
-    this._flyPosition[2] = this.target[2] + this.radius * sp * ct;
+    this._flyPosition[0] = this.target[0] + this.radius * dirX;
+    this._flyPosition[1] = this.target[1] + this.radius * dirY;
+    this._flyPosition[2] = this.target[2] + this.radius * dirZ;
   }
 
   // ---- private ----
 
-  private rebuildMatrices(): void {
+  /**
+   * Orbit frame for world up `up`. side = forward × up keeps the orbit and drag directions
+   * of the original (opencv) camera for every up vector.
+   */
+  private setFrame(up: [number, number, number]): void {
+    const len = Math.hypot(up[0], up[1], up[2]);
+    this.up = len > 0 ? [up[0] / len, up[1] / len, up[2] / len] : [0, -1, 0];
+    // Forward reference: +Z, or -Y when up is (nearly) along Z
+    const ref: Vec3 = Math.abs(this.up[2]) > 0.9 ? [0, -1, 0] : [0, 0, 1];
+    const d = dot(ref, this.up);
+    this.forward = normalize([ref[0] - d * this.up[0], ref[1] - d * this.up[1], ref[2] - d * this.up[2]]);
+    this.side = cross(this.forward, this.up);
+  }
+
+  /** Unit vector from target to camera for the current theta / phi. */
+  private orbitDir(): Vec3 {
     const sp = Math.sin(this.phi);
     const cp = Math.cos(this.phi);
     const st = Math.sin(this.theta);
     const ct = Math.cos(this.theta);
-    const dirX = sp * st;
-    const dirY = cp;
-    const dirZ = sp * ct;
+    return [0, 1, 2].map((k) => sp * st * this.side[k] + cp * this.up[k] + sp * ct * this.forward[k]) as Vec3;
+  }
+
+  /** Spherical coordinates of `position` around the target. */
+  private setOrbitFromPosition(position: [number, number, number]): void {
+    const offset: Vec3 = [position[0] - this.target[0], position[1] - this.target[1], position[2] - this.target[2]];
+    this.radius = Math.hypot(offset[0], offset[1], offset[2]) || 3;
+    this.phi = Math.acos(Math.max(-1, Math.min(1, dot(offset, this.up) / this.radius)));
+    this.theta = Math.atan2(dot(offset, this.side), dot(offset, this.forward));
+  }
+
+  private rebuildMatrices(): void {
+    const [dirX, dirY, dirZ] = this.orbitDir();
 
     if (this.controlMode === 'fly' && this._flyPosition) {
       this._position[0] = this._flyPosition[0];
@@ -330,7 +386,7 @@ export class Camera {
       this._position[2] = this.target[2] + this.radius * dirZ;
     }
 
-    lookAt(this._view, this._position, this.target, [0, 1, 0]);
+    lookAt(this._view, this._position, this.target, this.up);
 
     // Projection matrix
     const fovRad = (this.fov * Math.PI) / 180;
@@ -398,14 +454,14 @@ export class Camera {
     if (e.buttons & 2 || e.buttons & 4 || (e.buttons & 1 && e.shiftKey)) {
       // Right-click or middle-click or shift+left: pan
       const panScale = this.radius * 0.001;
-      // Invert drag pan direction for right/middle/shift pan interactions.
-      this.vPanX += dx * panScale;
-      this.vPanY -= dy * panScale;
+      // Move the target against the drag so the scene follows the pointer
+      this.vPanX -= dx * panScale;
+      this.vPanY += dy * panScale;
       this.dirty = true;
     } else if (e.buttons & 1) {
-      // Left-click: orbit
+      // Left-click: orbit (dragging down raises the camera)
       this.vTheta += dx * sens;
-      this.vPhi += dy * sens;
+      this.vPhi -= dy * sens;
       this.dirty = true;
     }
   }
@@ -437,7 +493,20 @@ export class Camera {
   }
 }
 
-// ---- inline mat4 helpers ----
+// ---- inline vec3 / mat4 helpers ----
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+function normalize(v: Vec3): Vec3 {
+  const len = Math.hypot(v[0], v[1], v[2]) || 1;
+  return [v[0] / len, v[1] / len, v[2] / len];
+}
 
 function lookAt(
   out: Float32Array,
@@ -478,10 +547,10 @@ function perspective(
   far: number,
 ): void {
   const f = 1.0 / Math.tan(fovy / 2);
-  out[0] = -f / aspect; // negate x — match PLY data convention
+  out[0] = f / aspect;
   out[1] = 0; out[2] = 0; out[3] = 0;
   out[4] = 0;
-  out[5] = -f; // negate y — WebGPU framebuffer y is top-down
+  out[5] = f;
   out[6] = 0; out[7] = 0;
   out[8] = 0; out[9] = 0;
   out[10] = far / (near - far);
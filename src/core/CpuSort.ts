@@ -57,6 +57,7 @@ export class CpuSort implements Sorter {
   /**
    * Sort on CPU and upload sorted indices.
    * The encoder param is unused (sort is synchronous) but kept for interface compat.
+   * A GPU `count` cannot be read here: all numElements splats are sorted (and drawn).
    */
   sort(_encoder: GPUCommandEncoder, numElements: number): GPUBuffer {
     const pos = this.positions;
@@ -1,4 +1,4 @@
-import type { Sorter } from './Sorter';
+import type { Sorter, SortCount } from './Sorter';
 import radixSortWGSL from '../shaders/radixSort.wgsl?raw';
 
 const WG_SIZE = 256;
@@ -102,15 +102,18 @@ export class RadixSort implements Sorter {
   /**
    * Encode sort commands into the given command encoder.
    * Returns the buffer containing sorted values (splat indices).
+   * With `count`, sorts that many elements (read on the GPU) of the input key/value pairs.
    */
-  sort(encoder: GPUCommandEncoder, numElements: number): GPUBuffer {
+  sort(encoder: GPUCommandEncoder, numElements: number, count?: SortCount): GPUBuffer {
     const numWGs = Math.ceil(numElements / TILE_SIZE);
 
     // Write ALL per-pass uniforms up front — each to its OWN buffer
     // so later writeBuffer calls don't overwrite earlier ones.
     for (let pass = 0; pass < NUM_PASSES; pass++) {
-      const data = new Uint32Array([numElements, pass * 4, numWGs, pass === 0 ? 1 : 0]);
+      const data = new Uint32Array([numElements, pass * 4, numWGs, pass === 0 && !count ? 1 : 0]);
       this.device.queue.writeBuffer(this.passUniformBufs[pass], 0, data);
+      // Replace numElements with the GPU-side count (ordered after the writes above)
+      if (count) encoder.copyBufferToBuffer(count.buffer, count.offset, this.passUniformBufs[pass], 0, 4);
     }
 
     let readKeys = this.keysA;
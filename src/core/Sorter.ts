@@ -8,10 +8,21 @@
  *      to write sort keys (uint32) and values (uint32 splat indices).
  *   3. sort() encodes sort work into the command encoder and returns
  *      the GPU buffer containing sorted splat indices.
+ *   4. With `count`, numElements is only an upper bound (it sizes the
+ *      dispatches): the element count is read from the GPU, and values
+ *      come from the input values buffer. Without it, values are the
+ *      element indices.
  */
 export interface Sorter {
   ensureCapacity(n: number): void;
   getInputBuffers(): { keys: GPUBuffer; values: GPUBuffer };
-  sort(encoder: GPUCommandEncoder, numElements: number): GPUBuffer;
+  sort(encoder: GPUCommandEncoder, numElements: number, count?: SortCount): GPUBuffer;
   destroy(): void;
 }
+
+/** A u32 element count written on the GPU (e.g. by stream compaction). */
+export interface SortCount {
+  buffer: GPUBuffer;
+  /** Byte offset of the count, a multiple of 4. */
+  offset: number;
+}
@@ -0,0 +1,349 @@
+import type { SplatSelectionShape, SelectionMode } from '../types';
+
+/** Per-splat edit state bits, as read by preprocess.wgsl (one byte per splat). */
+export const SPLAT_SELECTED = 1;
+export const SPLAT_HIDDEN = 2;
+export const SPLAT_DELETED = 4;
+
+// History kept for undo: at most this many edits, and this many bytes of records
+const MAX_HISTORY = 64;
+const MAX_HISTORY_BYTES = 256 * 1024 * 1024;
+
+/** What the editor needs from the renderer owning the scene. */
+export interface SplatEditorHost {
+  splatCount(): number;
+  /** World-space positions (splatCount * 3 used). */
+  positions(): Float32Array | null;
+  viewProjMatrix(): Float32Array;
+  /**
+   * 1 for each splat the scene draws as far as objects and crop volumes go (in a visible
+   * object, center inside every crop volume), or null when that is all of them.
+   */
+  shownSplats(): Uint8Array | null;
+  /** Canvas size in CSS pixels. */
+  canvasSize(): [number, number];
+  /** Upload the state bytes (a whole number of words) to the GPU. */
+  uploadStates(states: Uint8Array<ArrayBuffer>): void;
+  /** Index of the splat drawn at canvas point (x, y) in CSS pixels, or null if none. */
+  pickSplat(x: number, y: number): Promise<number | null>;
+}
+
+/**
+ * One edit as the XOR of the state bytes before and after it, so the same record undoes
+ * and redoes. Sparse edits list the changed splats; dense ones (selectAll, invert on
+ * a large scene) keep one byte per splat from index 0 instead.
+ */
+interface EditRecord {
+  /** Changed splats, or null for a dense record. */
+  indices: Uint32Array | null;
+  mask: Uint8Array;
+}
+
+/**
+ * Selection, hiding and deletion of a SplatRenderer's splats, with undo / redo.
+ * State lives in one byte per splat on the CPU and is mirrored to a GPU buffer:
+ * selected splats are tinted, hidden and deleted ones are not drawn. Deleting is
+ * reversible until the scene changes; SplatRenderer.exportSplatData drops deleted splats.
+ * Available as `renderer.editor`.
+ */
+export class SplatEditor {
+  /** Called after every change of the edit state (including undo / redo). */
+  onChange?: () => void;
+
+  private host: SplatEditorHost;
+  private states: Uint8Array<ArrayBuffer> = new Uint8Array(0);
+  private undoStack: EditRecord[] = [];
+  private redoStack: EditRecord[] = [];
+
+  constructor(host: SplatEditorHost) {
+    this.host = host;
+  }
+
+  /**
+   * Select the splat drawn at canvas point (x, y) in CSS pixels, e.g. on click. Returns
+   * its index, or null over the background ('set' then clears the selection).
+   */
+  async selectAt(x: number, y: number, mode: SelectionMode = 'set'): Promise<number | null> {
+    const index = await this.host.pickSplat(x, y);
+    this.select({ type: 'indices', indices: index === null ? [] : [index] }, mode);
+    return index;
+  }
+
+  /**
+   * Select the splats matching `shape`. Only drawn splats are selected, as with selectAll and
+   * invertSelection: never hidden or deleted ones, those of hidden objects or those cropped
+   * away (see SplatRenderer.setCropVolumes); 'set' deselects the latter two.
+   */
+  select(shape: SplatSelectionShape, mode: SelectionMode = 'set'): void {
+    const count = this.host.splatCount();
+    const hit = this.matchShape(shape, count);
+    const shown = this.host.shownSplats();
+    this.edit((next) => {
+      for (let i = 0; i < count; i++) {
+        if (next[i] & (SPLAT_HIDDEN | SPLAT_DELETED)) continue;
+        if (hit[i] && (!shown || shown[i])) {
+          if (mode === 'remove') next[i] &= ~SPLAT_SELECTED;
+          else next[i] |= SPLAT_SELECTED;
+        } else if (mode === 'set') {
+          next[i] &= ~SPLAT_SELECTED;
+        }
+      }
+    });
+  }
+
+  selectAll(): void {
+    const shown = this.host.shownSplats();
+    this.edit((next) => {
+      for (let i = 0; i < next.length; i++) {
+        if (!(next[i] & (SPLAT_HIDDEN | SPLAT_DELETED)) && (!shown || shown[i])) next[i] |= SPLAT_SELECTED;
+      }
+    });
+  }
+
+  clearSelection(): void {
+    this.edit((next) => {
+      for (let i = 0; i < next.length; i++) next[i] &= ~SPLAT_SELECTED;
+    });
+  }
+
+  /** Toggle the selection of drawn splats; splats not drawn are deselected. */
+  invertSelection(): void {
+    const shown = this.host.shownSplats();
+    this.edit((next) => {
+      for (let i = 0; i < next.length; i++) {
+        if (next[i] & (SPLAT_HIDDEN | SPLAT_DELETED)) continue;
+        if (!shown || shown[i]) next[i] ^= SPLAT_SELECTED;
+        else next[i] &= ~SPLAT_SELECTED;
+      }
+    });
+  }
+
+  /** Delete the selected splats (not drawn, not exported). */
+  deleteSelected(): void {
+    this.edit((next) => {
+      for (let i = 0; i < next.length; i++) {
+        if (next[i] & SPLAT_SELECTED) next[i] = SPLAT_DELETED;
+      }
+    });
+  }
+
+  /** Hide the selected splats (not drawn, still exported). */
+  hideSelected(): void {
+    this.edit((next) => {
+      for (let i = 0; i < next.length; i++) {
+        if (next[i] & SPLAT_SELECTED) next[i] = SPLAT_HIDDEN;
+      }
+    });
+  }
+
+  /** Show every hidden and deleted splat again. */
+  restore(): void {
+    this.edit((next) => {
+      for (let i = 0; i < next.length; i++) next[i] &= ~(SPLAT_HIDDEN | SPLAT_DELETED);
+    });
+  }
+
+  undo(): void {
+    const record = this.undoStack.pop();
+    if (!record) return;
+    this.apply(record);
+    this.redoStack.push(record);
+  }
+
+  redo(): void {
+    const record = this.redoStack.pop();
+    if (!record) return;
+    this.apply(record);
+    this.undoStack.push(record);
+  }
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  get selectedCount(): number {
+    return this.countState(SPLAT_SELECTED);
+  }
+
+  get hiddenCount(): number {
+    return this.countState(SPLAT_HIDDEN);
+  }
+
+  get deletedCount(): number {
+    return this.countState(SPLAT_DELETED);
+  }
+
+  /** State bits (SPLAT_SELECTED / _HIDDEN / _DELETED) of splat `index`. */
+  stateOf(index: number): number {
+    return index < this.host.splatCount() ? this.states[index] : 0;
+  }
+
+  // ---- called by SplatRenderer ----
+
+  /** Clear all state and history for a new scene of `capacity` splats. */
+  reset(capacity: number): void {
+    this.states = new Uint8Array(Math.ceil(capacity / 4) * 4);
+    this.undoStack = [];
+    this.redoStack = [];
+    this.host.uploadStates(this.states);
+    this.onChange?.();
+  }
+
+  /** Keep the state of existing splats when the scene grows to `capacity`. */
+  grow(capacity: number): void {
+    const states = new Uint8Array(Math.ceil(capacity / 4) * 4);
+    states.set(this.states.subarray(0, Math.min(this.states.length, states.length)));
+    this.states = states;
+    this.host.uploadStates(this.states);
+  }
+
+  /**
+   * Drop the state of splats [start, start + count), which the scene removed.
+   * History refers to splat indices, so it is cleared.
+   */
+  removeRange(start: number, count: number, used: number): void {
+    this.states.copyWithin(start, start + count, used);
+    this.states.fill(0, used - count, used);
+    this.undoStack = [];
+    this.redoStack = [];
+    this.host.uploadStates(this.states);
+    this.onChange?.();
+  }
+
+  /** The state bytes (at least splatCount long). */
+  get stateBytes(): Uint8Array {
+    return this.states;
+  }
+
+  // ---- private ----
+
+  /** Apply `change` to a copy of the used states and record the difference for undo. */
+  private edit(change: (next: Uint8Array) => void): void {
+    const count = this.host.splatCount();
+    const next = this.states.slice(0, count);
+    change(next);
+
+    let changed = 0;
+    for (let i = 0; i < count; i++) if (next[i] !== this.states[i]) changed++;
+    if (changed === 0) return;
+    let record: EditRecord;
+    // A sparse entry costs 5 bytes, a dense one 1 byte per splat
+    if (changed * 5 < count) {
+      record = { indices: new Uint32Array(changed), mask: new Uint8Array(changed) };
+      for (let i = 0, k = 0; i < count; i++) {
+        if (next[i] === this.states[i]) continue;
+        record.indices![k] = i;
+        record.mask[k] = next[i] ^ this.states[i];
+        k++;
+      }
+    } else {
+      for (let i = 0; i < count; i++) next[i] ^= this.states[i];
+      record = { indices: null, mask: next };
+    }
+
+    this.undoStack.push(record);
+    let bytes = 0;
+    for (const r of this.undoStack) bytes += recordBytes(r);
+    while (this.undoStack.length > 1 && (this.undoStack.length > MAX_HISTORY || bytes > MAX_HISTORY_BYTES)) {
+      bytes -= recordBytes(this.undoStack.shift()!);
+    }
+    this.redoStack = [];
+    this.apply(record);
+  }
+
+  /** Toggle the bits `record` changed: applies it, or reverts it once applied. */
+  private apply(record: EditRecord): void {
+    const { indices, mask } = record;
+    if (indices) {
+      for (let k = 0; k < indices.length; k++) this.states[indices[k]] ^= mask[k];
+    } else {
+      for (let i = 0; i < mask.length; i++) this.states[i] ^= mask[i];
+    }
+    this.host.uploadStates(this.states);
+    this.onChange?.();
+  }
+
+  private countState(bit: number): number {
+    let n = 0;
+    const count = this.host.splatCount();
+    for (let i = 0; i < count; i++) if (this.states[i] & bit) n++;
+    return n;
+  }
+
+  /** 1 for every splat (of `count`) inside `shape`. */
+  private matchShape(shape: SplatSelectionShape, count: number): Uint8Array {
+    const hit = new Uint8Array(count);
+    const positions = this.host.positions();
+    if (shape.type === 'indices') {
+      for (let k = 0; k < shape.indices.length; k++) {
+        const i = shape.indices[k];
+        if (i >= 0 && i < count) hit[i] = 1;
+      }
+      return hit;
+    }
+    if (!positions) return hit;
+
+    if (shape.type === 'sphere') {
+      const [cx, cy, cz] = shape.center;
+      const r2 = shape.radius * shape.radius;
+      for (let i = 0; i < count; i++) {
+        const dx = positions[i * 3] - cx, dy = positions[i * 3 + 1] - cy, dz = positions[i * 3 + 2] - cz;
+        if (dx * dx + dy * dy + dz * dz <= r2) hit[i] = 1;
+      }
+      return hit;
+    }
+    if (shape.type === 'box') {
+      const { min, max } = shape;
+      for (let i = 0; i < count; i++) {
+        const x = positions[i * 3], y = positions[i * 3 + 1], z = positions[i * 3 + 2];
+        if (x >= min[0] && x <= max[0] && y >= min[1] && y <= max[1] && z >= min[2] && z <= max[2]) hit[i] = 1;
+      }
+      return hit;
+    }
+
+    // Screen shapes: project splat centers to canvas CSS pixels
+    const polygon = shape.type === 'lasso' ? shape.points : null;
+    let [x0, y0] = shape.type === 'rect' ? shape.min : [Infinity, Infinity];
+    let [x1, y1] = shape.type === 'rect' ? shape.max : [-Infinity, -Infinity];
+    if (polygon) {
+      if (polygon.length < 3) return hit;
+      for (const [px, py] of polygon) {
+        x0 = Math.min(x0, px); y0 = Math.min(y0, py);
+        x1 = Math.max(x1, px); y1 = Math.max(y1, py);
+      }
+    }
+    const m = this.host.viewProjMatrix();
+    const [width, height] = this.host.canvasSize();
+    for (let i = 0; i < count; i++) {
+      const x = positions[i * 3], y = positions[i * 3 + 1], z = positions[i * 3 + 2];
+      const w = m[3] * x + m[7] * y + m[11] * z + m[15];
+      if (w <= 0) continue; // behind the camera
+      const sx = ((m[0] * x + m[4] * y + m[8] * z + m[12]) / w * 0.5 + 0.5) * width;
+      const sy = (0.5 - (m[1] * x + m[5] * y + m[9] * z + m[13]) / w * 0.5) * height;
+      if (sx < x0 || sx > x1 || sy < y0 || sy > y1) continue;
+      if (!polygon || insidePolygon(polygon, sx, sy)) hit[i] = 1;
+    }
+    return hit;
+  }
+}
+
+// ---- internal helpers ----
+
+function recordBytes(record: EditRecord): number {
+  return (record.indices?.byteLength ?? 0) + record.mask.byteLength;
+}
+
+/** Even-odd rule point-in-polygon test. */
+function insidePolygon(points: [number, number][], x: number, y: number): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, yi] = points[i];
+    const [xj, yj] = points[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
@@ -0,0 +1,350 @@
+import type { SplatLayout } from '../types';
+import { shDimForDegree } from '../splat-data';
+
+/**
+ * CPU-side encoding (and decoding, for export) of splat attributes for the GPU storage layouts.
+ *
+ *   attribute  'float32'        'compact' / 'compact-sh8'
+ *   position   3 × f32          3 × f32 (sort depth and CpuSort need full precision)
+ *   rotation   4 × f32          4 × snorm16
+ *   scale      3 × f32          3 × f16 of ln(scale), padded to 4
+ *   color      4 × f32          4 × f16
+ *   SH         3·shDim × f32    3·shDim × f16, or × snorm8 of v / shScale for 'compact-sh8'
+ *
+ * Scenes from SplatRenderer.setPackedScene use 'compressed-ply': the packed_position /
+ * _rotation / _scale / _color words of a compressed PLY (one u32 each), SH as its raw
+ * uchar values, and the per-chunk bounds in a separate chunk table (CHUNK_FLOATS per chunk).
+ *
+ * Every buffer is read as array<u32> by preprocess.wgsl; `layoutIndex` is its `u.attrLayout`.
+ */
+
+/** Layout of the scene buffers: a user-selectable SplatLayout, or packed compressed PLY. */
+export type SceneLayout = SplatLayout | 'compressed-ply';
+
+/**
+ * Floats per chunk in the compressed-ply chunk table: min xyz, max xyz, min / max log-scale,
+ * min / max rgb (0 / 1 when the file has no color bounds).
+ */
+export const CHUNK_FLOATS = 18;
+
+/**
+ * 'compact-sh8' SH scale when the scene gives none (streamed without a header estimate):
+ * the ±4 range compressed PLY quantizes SH to.
+ */
+export const SH_DEFAULT_SCALE = 4;
+
+// shQuantizationScale keeps this fraction of coefficient magnitudes unclamped
+const SH_SCALE_QUANTILE = 0.999;
+const SH_SCALE_BINS = 4096;
+
+/** Bytes per splat of each attribute buffer. */
+export interface SplatLayoutStrides {
+  position: number;
+  rotation: number;
+  scale: number;
+  color: number;
+  sh: number;
+}
+
+/** Value of the preprocess shader's `attrLayout` uniform. */
+export function layoutIndex(layout: SceneLayout): number {
+  return layout === 'float32' ? 0 : layout === 'compact' ? 1 : layout === 'compact-sh8' ? 2 : 3;
+}
+
+export function splatLayoutStrides(layout: SceneLayout, shDegree: number): SplatLayoutStrides {
+  const coeffs = 3 * shDimForDegree(shDegree);
+  if (layout === 'float32') {
+    return { position: 12, rotation: 16, scale: 12, color: 16, sh: coeffs * 4 };
+  }
+  if (layout === 'compressed-ply') {
+    return { position: 4, rotation: 4, scale: 4, color: 4, sh: Math.ceil(coeffs / 4) * 4 };
+  }
+  const sh = layout === 'compact' ? Math.ceil(coeffs / 2) * 4 : Math.ceil(coeffs / 4) * 4;
+  return { position: 12, rotation: 8, scale: 8, color: 8, sh };
+}
+
+export function encodeRotations(layout: SplatLayout, rotations: Float32Array, count: number): Float32Array | Uint32Array {
+  if (layout === 'float32') return rotations;
+  const out = new Uint32Array(count * 2);
+  for (let i = 0; i < count * 2; i++) {
+    out[i] = packSnorm16(rotations[i * 2]) | (packSnorm16(rotations[i * 2 + 1]) << 16);
+  }
+  return out;
+}
+
+export function encodeScales(layout: SplatLayout, scales: Float32Array, count: number): Float32Array | Uint32Array {
+  if (layout === 'float32') return scales;
+  const out = new Uint32Array(count * 2);
+  for (let i = 0; i < count; i++) {
+    // Log scale keeps the same relative precision for tiny and huge splats
+    out[i * 2] = floatToHalf(Math.log(scales[i * 3])) | (floatToHalf(Math.log(scales[i * 3 + 1])) << 16);
+    out[i * 2 + 1] = floatToHalf(Math.log(scales[i * 3 + 2]));
+  }
+  return out;
+}
+
+export function encodeColors(layout: SplatLayout, colors: Float32Array, count: number): Float32Array | Uint32Array {
+  if (layout === 'float32') return colors;
+  const out = new Uint32Array(count * 2);
+  for (let i = 0; i < count * 2; i++) {
+    out[i] = floatToHalf(colors[i * 2]) | (floatToHalf(colors[i * 2 + 1]) << 16);
+  }
+  return out;
+}
+
+/**
+ * `shCoeffs` must already use the scene's degree (see SplatData.shCoeffs). 'compact-sh8'
+ * quantizes v / shScale, clamped to [-1, 1] (see countShClamped).
+ */
+export function encodeShCoeffs(
+  layout: SceneLayout,
+  shCoeffs: Float32Array,
+  count: number,
+  shDegree: number,
+  shScale = 1,
+): Float32Array | Uint32Array {
+  if (layout === 'float32') return shCoeffs;
+  if (layout === 'compressed-ply') {
+    // Same quantization as the compressed PLY sh element: [-4, 4] → 0..255
+    const bytes = new Uint8Array(shCoeffs.length);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.max(0, Math.min(255, Math.round((shCoeffs[i] + 4) * (255 / 8))));
+    }
+    return packShBytes(bytes, count, shDegree);
+  }
+  const coeffs = 3 * shDimForDegree(shDegree);
+  const words = splatLayoutStrides(layout, shDegree).sh / 4;
+  const out = new Uint32Array(count * words);
+  for (let i = 0; i < count; i++) {
+    const src = i * coeffs;
+    const dst = i * words;
+    if (layout === 'compact') {
+      for (let j = 0; j < coeffs; j++) {
+        out[dst + (j >> 1)] |= floatToHalf(shCoeffs[src + j]) << ((j & 1) * 16);
+      }
+    } else {
+      for (let j = 0; j < coeffs; j++) {
+        out[dst + (j >> 2)] |= packSnorm8(shCoeffs[src + j] / shScale) << ((j & 3) * 8);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * 'compact-sh8' scale for `shCoeffs`: the 99.9th percentile of their magnitudes, so a few
+ * outliers are clamped instead of coarsening every coefficient (1 if all are zero).
+ */
+export function shQuantizationScale(shCoeffs: Float32Array): number {
+  let max = 0;
+  for (let i = 0; i < shCoeffs.length; i++) max = Math.max(max, Math.abs(shCoeffs[i]));
+  if (max === 0) return 1;
+  // Histogram of magnitudes; the percentile is rounded up to the end of its bin
+  const toBin = (SH_SCALE_BINS - 1) / max;
+  const bins = new Uint32Array(SH_SCALE_BINS);
+  for (let i = 0; i < shCoeffs.length; i++) bins[Math.min(SH_SCALE_BINS - 1, Math.floor(Math.abs(shCoeffs[i]) * toBin))]++;
+  const keep = Math.ceil(shCoeffs.length * SH_SCALE_QUANTILE);
+  let seen = 0;
+  for (let b = 0; b < SH_SCALE_BINS; b++) {
+    seen += bins[b];
+    if (seen >= keep) return Math.min(max, (b + 1) / toBin);
+  }
+  return max;
+}
+
+/** Coefficients that 'compact-sh8' clamps at `shScale`. */
+export function countShClamped(shCoeffs: Float32Array, shScale: number): number {
+  let clamped = 0;
+  for (let i = 0; i < shCoeffs.length; i++) if (Math.abs(shCoeffs[i]) > shScale) clamped++;
+  return clamped;
+}
+
+/**
+ * Compressed PLY SH bytes (SplatData SH layout for `shDegree`, one uchar per coefficient)
+ * as 'compressed-ply' words, each splat padded to whole words.
+ */
+export function packShBytes(bytes: Uint8Array, count: number, shDegree: number): Uint32Array {
+  const coeffs = 3 * shDimForDegree(shDegree);
+  const words = Math.ceil(coeffs / 4);
+  if (coeffs === words * 4 && bytes.byteOffset % 4 === 0) {
+    return new Uint32Array(bytes.buffer, bytes.byteOffset, count * words);
+  }
+  const out = new Uint8Array(count * words * 4);
+  for (let i = 0; i < count; i++) {
+    out.set(bytes.subarray(i * coeffs, (i + 1) * coeffs), i * words * 4);
+  }
+  return new Uint32Array(out.buffer);
+}
+
+/** Raw contents of the scene buffers for `count` splats, as read back from the GPU. */
+export interface SceneBufferContents {
+  position: ArrayBuffer;
+  rotation: ArrayBuffer;
+  scale: ArrayBuffer;
+  color: ArrayBuffer;
+  /** Absent for scenes without SH. */
+  sh?: ArrayBuffer;
+  /** 'compressed-ply' chunk table. */
+  chunks?: Float32Array;
+}
+
+/**
+ * Inverse of the encoders: SplatData attribute arrays (object space) from scene buffer
+ * contents. Compact layouts return their quantized values.
+ */
+export function decodeSceneBuffers(
+  layout: SceneLayout,
+  contents: SceneBufferContents,
+  count: number,
+  shDegree: number,
+  shScale = 1,
+): {
+  positions: Float32Array;
+  rotations: Float32Array;
+  scales: Float32Array;
+  colors: Float32Array;
+  shCoeffs?: Float32Array;
+} {
+  const coeffs = 3 * shDimForDegree(shDegree);
+  const shWords = splatLayoutStrides(layout, shDegree).sh / 4;
+  const shCoeffs = contents.sh && coeffs > 0 ? new Float32Array(count * coeffs) : undefined;
+
+  if (layout === 'float32') {
+    if (shCoeffs) shCoeffs.set(new Float32Array(contents.sh!, 0, count * coeffs));
+    return {
+      positions: new Float32Array(contents.position, 0, count * 3).slice(),
+      rotations: new Float32Array(contents.rotation, 0, count * 4).slice(),
+      scales: new Float32Array(contents.scale, 0, count * 3).slice(),
+      colors: new Float32Array(contents.color, 0, count * 4).slice(),
+      shCoeffs,
+    };
+  }
+
+  const positions = new Float32Array(count * 3);
+  const rotations = new Float32Array(count * 4);
+  const scales = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 4);
+  const rot = new Uint32Array(contents.rotation);
+  const scale = new Uint32Array(contents.scale);
+  const color = new Uint32Array(contents.color);
+  const sh = contents.sh ? new Uint32Array(contents.sh) : undefined;
+
+  if (layout === 'compressed-ply') {
+    const pos = new Uint32Array(contents.position);
+    const chunks = contents.chunks!;
+    const numChunks = Math.max(1, chunks.length / CHUNK_FLOATS);
+    for (let i = 0; i < count; i++) {
+      const c = Math.min(i >> 8, numChunks - 1) * CHUNK_FLOATS;
+      const lerp = (v: number, k: number, minOffset: number, maxOffset: number) =>
+        chunks[c + minOffset + k] + (chunks[c + maxOffset + k] - chunks[c + minOffset + k]) * v;
+      const p = unpack111011(pos[i]);
+      const sc = unpack111011(scale[i]);
+      for (let k = 0; k < 3; k++) {
+        positions[i * 3 + k] = lerp(p[k], k, 0, 3);
+        scales[i * 3 + k] = Math.exp(lerp(sc[k], k, 6, 9));
+      }
+
+      // Smallest three: 2-bit index of the largest component, then 3 × 10 bits
+      const r = rot[i];
+      const abc = [(r >>> 20) & 0x3ff, (r >>> 10) & 0x3ff, r & 0x3ff].map((v) => (v / 1023 - 0.5) * Math.SQRT2);
+      const largest = Math.sqrt(Math.max(0, 1 - abc[0] * abc[0] - abc[1] * abc[1] - abc[2] * abc[2]));
+      abc.splice(r >>> 30, 0, largest);
+      rotations.set(abc, i * 4);
+
+      const rgba = color[i];
+      for (let k = 0; k < 3; k++) colors[i * 4 + k] = lerp(((rgba >>> (24 - 8 * k)) & 0xff) / 255, k, 12, 15);
+      colors[i * 4 + 3] = (rgba & 0xff) / 255;
+
+      if (shCoeffs && sh) {
+        const bytes = new Uint8Array(sh.buffer, i * shWords * 4, coeffs);
+        for (let j = 0; j < coeffs; j++) shCoeffs[i * coeffs + j] = bytes[j] * (8 / 255) - 4;
+      }
+    }
+    return { positions, rotations, scales, colors, shCoeffs };
+  }
+
+  positions.set(new Float32Array(contents.position, 0, count * 3));
+  for (let i = 0; i < count; i++) {
+    for (let k = 0; k < 4; k++) {
+      rotations[i * 4 + k] = unpackSnorm16(rot[i * 2 + (k >> 1)] >>> ((k & 1) * 16));
+      colors[i * 4 + k] = halfToFloat(color[i * 2 + (k >> 1)] >>> ((k & 1) * 16));
+    }
+    for (let k = 0; k < 3; k++) {
+      scales[i * 3 + k] = Math.exp(halfToFloat(scale[i * 2 + (k >> 1)] >>> ((k & 1) * 16)));
+    }
+    if (shCoeffs && sh) {
+      const base = i * shWords;
+      for (let j = 0; j < coeffs; j++) {
+        shCoeffs[i * coeffs + j] = layout === 'compact'
+          ? halfToFloat(sh[base + (j >> 1)] >>> ((j & 1) * 16))
+          : unpackSnorm8(sh[base + (j >> 2)] >>> ((j & 3) * 8)) * shScale;
+      }
+    }
+  }
+  return { positions, rotations, scales, colors, shCoeffs };
+}
+
+// ---- internal helpers ----
+
+const f32Scratch = new Float32Array(1);
+const u32Scratch = new Uint32Array(f32Scratch.buffer);
+
+/** IEEE 754 binary16 bits of `v`, rounded to nearest even (as unpack2x16float reads them). */
+function floatToHalf(v: number): number {
+  f32Scratch[0] = v;
+  const x = u32Scratch[0];
+  const sign = (x >>> 16) & 0x8000;
+  const exp = (x >>> 23) & 0xff;
+  let mant = x & 0x7fffff;
+  if (exp === 0xff) return sign | 0x7c00 | (mant ? 0x200 : 0); // inf / NaN
+  const e = exp - 127 + 15;
+  if (e >= 0x1f) return sign | 0x7c00; // overflow → inf
+  let half: number;
+  let shift: number;
+  if (e <= 0) {
+    // Subnormal half (or zero)
+    if (e < -10) return sign;
+    mant |= 0x800000;
+    shift = 14 - e;
+    half = mant >> shift;
+  } else {
+    shift = 13;
+    half = (e << 10) | (mant >> 13);
+  }
+  const rest = mant & ((1 << shift) - 1);
+  const mid = 1 << (shift - 1);
+  // A carry out of the mantissa correctly bumps the exponent
+  if (rest > mid || (rest === mid && (half & 1))) half++;
+  return sign | half;
+}
+
+function packSnorm16(v: number): number {
+  return Math.round(Math.max(-1, Math.min(1, v)) * 32767) & 0xffff;
+}
+
+function packSnorm8(v: number): number {
+  return Math.round(Math.max(-1, Math.min(1, v)) * 127) & 0xff;
+}
+
+/** Value of the low 16 bits of `bits` as binary16. */
+function halfToFloat(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exp = (bits >>> 10) & 0x1f;
+  const mant = bits & 0x3ff;
+  if (exp === 0) return sign * mant * 2 ** -24;
+  if (exp === 0x1f) return mant ? NaN : sign * Infinity;
+  return sign * (1 + mant / 1024) * 2 ** (exp - 15);
+}
+
+function unpackSnorm16(bits: number): number {
+  return Math.max(-1, ((bits << 16) >> 16) / 32767);
+}
+
+function unpackSnorm8(bits: number): number {
+  return Math.max(-1, ((bits << 24) >> 24) / 127);
+}
+
+/** 11/10/11-bit unorm, x in the high bits (as the preprocess shader reads it). */
+function unpack111011(v: number): [number, number, number] {
+  return [(v >>> 21) / 2047, ((v >>> 11) & 0x3ff) / 1023, (v & 0x7ff) / 2047];
+}
@@ -1,20 +1,61 @@
-import type { SplatData, SplatStats } from '../types';
+import type {
+  SplatData, PackedSplatData, SplatStats, LoadOptions, RendererOptions, SplatLayout,
+  SplatObjectTransform, SplatObjectHandle, CoordinateSystem, CropVolume,
+} from '../types';
 import type { Sorter } from './Sorter';
 import { WebGPUContext } from './WebGPUContext';
 import { RadixSort } from './RadixSort';
 import { StableRadixSort } from './StableRadixSort';
 import { CpuSort } from './CpuSort';
-import { Camera } from './Camera';
+import { StreamCompaction, COUNTERS_BYTES } from './StreamCompaction';
+import { Camera, coordinateSystemUp } from './Camera';
+import { SplatEditor, SPLAT_DELETED } from './SplatEditor';
+import { yieldToEventLoop } from '../loaders/progress';
+import {
+  computeBounds, convertShDegree, shDimForDegree, shStrideForDegree, sliceSplatData, splatShDegree,
+} from '../splat-data';
+import { coordinateSystemMatrix, transformSplatData } from '../splat-transform';
+import type { SplatLayoutStrides, SceneLayout } from './SplatLayout';
+import {
+  splatLayoutStrides, layoutIndex, encodeRotations, encodeScales, encodeColors, encodeShCoeffs, packShBytes,
+  shQuantizationScale, countShClamped, decodeSceneBuffers, CHUNK_FLOATS, SH_DEFAULT_SCALE,
+} from './SplatLayout';
 import preprocessWGSL from '../shaders/preprocess.wgsl?raw';
 import renderWGSL from '../shaders/render.wgsl?raw';
 
+// One workgroup per 256-splat chunk: the preprocess pass culls whole chunks by their bounds
 const PREPROCESS_WG_SIZE = 256;
 const SPLAT_FLOATS = 12;
 const PICK_READBACK_BYTES_PER_ROW = 256; // WebGPU requires bytesPerRow multiple of 256
 const PICK_NO_HIT = 0xffffffff;
+// Splats per writeBuffer batch in setScene; keeps 'upload' progress responsive
+const UPLOAD_SLICE = 1 << 18;
+// Per object slot: model matrix (16) + visible flag, padded to the WGSL struct size
+const OBJECT_FLOATS = 20;
+/** Crop volumes evaluated by the preprocess pass (size of its uniform array). */
+export const MAX_CROP_VOLUMES = 8;
+// Per crop volume: world → volume matrix (16) + kind + keep-inside flag, padded to the WGSL struct size
+const CROP_FLOATS = 20;
+const CROP_KIND = { box: 0, sphere: 1, plane: 2 } as const;
+// Splats are culled once their 3-sigma extent is this far outside NDC [-1, 1] (GUARD_BAND in preprocess.wgsl)
+const FRUSTUM_GUARD_BAND = 1.2;
+// Splats closer to the camera than this are culled (matches the preprocess shader)
+const NEAR_CULL = 0.1;
 
 export type SortMethod = 'cpu' | 'gpu' | 'gpu-unstable' | 'gpu-subgroup';
 
+/** A splat object's range of scene splats and its placement. */
+interface SplatObjectEntry {
+  slot: number;
+  start: number;
+  count: number;
+  transform: Required<SplatObjectTransform>;
+  /** Object-space positions, kept to recompute world positions for CpuSort. */
+  positions: Float32Array;
+  /** Object-space largest scale per splat, kept to recompute world chunk bounds. */
+  maxScales: Float32Array;
+}
+
 /**
  * Main Gaussian Splat renderer.
  * Pipeline: GPU preprocess → sort (CPU or GPU) → GPU render.
@@ -27,7 +68,10 @@ export class SplatRenderer {
   private renderPipeline!: GPURenderPipeline;
   private pickPipeline!: GPURenderPipeline;
   private sorter!: Sorter;
+  /** Packs visible splats for the sorter; its counters hold the visible count and cull statistics. */
+  private compaction!: StreamCompaction;
   private sortMethod: SortMethod;
+  private layout: SplatLayout;
 
   private positionBuf!: GPUBuffer;
   private rotationBuf!: GPUBuffer;
@@ -38,15 +82,50 @@ export class SplatRenderer {
   shEnabled = true;
   /** Radians per frame for turntable auto-rotate. 0 = off. */
   turntableSpeed = 0;
-  private hasSH = false;
+  /** SH degree of the scene's shCoeffsBuf layout; 0 = no SH (dummy buffer). */
+  private shDegree = 0;
+  /** 'compact-sh8' SH scale (see encodeShCoeffs), set by beginScene. */
+  private shScale = SH_DEFAULT_SCALE;
+  private _shClampedCount = 0;
+  private _coordinateSystem: CoordinateSystem = 'opencv';
+  /** Layout of the current scene buffers: `layout`, or 'compressed-ply' after setPackedScene. */
+  private sceneLayout: SceneLayout = 'float32';
+  /**
+   * Chunk table: as loaded for a 'compressed-ply' scene, otherwise world-space position bounds
+   * and the largest log-scale per 256-splat chunk, for culling (see flushChunkBounds).
+   */
+  private chunkBuf!: GPUBuffer;
+  /** Splat range whose chunk bounds are stale. */
+  private chunkDirtyStart = 0;
+  private chunkDirtyEnd = 0;
+  /** Object slot of each splat (u32); slot 0 holds splats from setScene / appendSplats. */
+  private objectIdBuf!: GPUBuffer;
+  /** OBJECT_FLOATS per object slot, mirrored in objectRecords. */
+  private objectBuf!: GPUBuffer;
+  private objectRecords = new Float32Array(0);
+  /** Objects by slot; slot 0 (identity transform) is never an object. */
+  private objects: (SplatObjectEntry | null)[] = [null];
+  /** One byte of edit state per splat (see SplatEditor). */
+  private stateBuf!: GPUBuffer;
+
+  /** Selection, hiding and deletion of the current scene's splats. */
+  readonly editor: SplatEditor;
 
   private splatOutBuf!: GPUBuffer;
   private preprocessUniformBuf!: GPUBuffer;
+  /** Crop volume count + MAX_CROP_VOLUMES records; kept across scenes. */
+  private cropBuf!: GPUBuffer;
+  private crops: CropVolume[] = [];
 
-  // Kept for CpuSort
+  // World-space positions, for CpuSort and editor selections
   private cpuPositions: Float32Array | null = null;
+  /** World-space largest scale per splat, for chunk bounds. */
+  private cpuMaxScales: Float32Array | null = null;
 
   private numSplats = 0;
+  /** Splats the scene buffers can hold before growScene() is needed. */
+  private capacity = 0;
+  private cameraFitted = false;
   private frameId = 0;
   private running = false;
   private onFrame?: () => void;
@@ -60,6 +139,13 @@ export class SplatRenderer {
   private readbackPending = false;
   private pickX = -1;
   private pickY = -1;
+  private hoveredIndex: number | null = null;
+  /** Sorted splat order drawn in the last frame (null until the scene is drawn again). */
+  private lastSortedValues: GPUBuffer | null = null;
+  private countersReadbackBuf!: GPUBuffer;
+  private countersReadbackPending = false;
+  /** Set by dispose(): pending readbacks are dropped and no more frames are rendered. */
+  private disposed = false;
   private onPointerMoveBound = this.handlePointerMove.bind(this);
 
   private _pickEnabled = false;
@@ -76,9 +162,59 @@ export class SplatRenderer {
     }
   }
 
-  constructor(options?: { camera?: Camera; sort?: SortMethod }) {
+  constructor(options?: {
+    camera?: Camera;
+    sort?: SortMethod;
+    layout?: RendererOptions['layout'];
+    coordinateSystem?: RendererOptions['coordinateSystem'];
+  }) {
     this.camera = options?.camera ?? new Camera();
     this.sortMethod = options?.sort ?? 'cpu';
+    this.layout = options?.layout ?? 'float32';
+    if (options?.coordinateSystem) this.setCoordinateSystem(options.coordinateSystem);
+    this.editor = new SplatEditor({
+      splatCount: () => this.numSplats,
+      positions: () => this.cpuPositions,
+      viewProjMatrix: () => this.camera.viewProjMatrix,
+      shownSplats: () => this.shownSplats(),
+      canvasSize: () => [this.gpu.canvas.clientWidth, this.gpu.canvas.clientHeight],
+      uploadStates: (states) => this.gpu.device.queue.writeBuffer(this.stateBuf, 0, states),
+      pickSplat: (x, y) => this.pickSplatAt(x, y),
+    });
+  }
+
+  /** Axes of the scene (see setCoordinateSystem). */
+  get coordinateSystem(): CoordinateSystem {
+    return this._coordinateSystem;
+  }
+
+  /**
+   * Use `system`'s axes for the scene: the camera's world up points along its up axis (orbit,
+   * fly and pan follow it), and objects added in another convention are rotated into it.
+   */
+  setCoordinateSystem(system: CoordinateSystem): void {
+    this._coordinateSystem = system;
+    this.camera.setUp(coordinateSystemUp(system));
+    if (!this.positionBuf) return;
+    for (const entry of this.objects) if (entry) this.updateObject(entry);
+  }
+
+  /** Current crop volumes (see setCropVolumes). */
+  get cropVolumes(): readonly CropVolume[] {
+    return this.crops;
+  }
+
+  /**
+   * Hide splats outside the crop volumes at view time: a splat is drawn only if its
+   * world-space center passes every volume (up to MAX_CROP_VOLUMES). Scene data is not
+   * modified, so exportSplatData still returns cropped splats. Pass [] to clear.
+   */
+  setCropVolumes(volumes: CropVolume[]): void {
+    if (volumes.length > MAX_CROP_VOLUMES) {
+      throw new Error(`setCropVolumes: at most ${MAX_CROP_VOLUMES} crop volumes, got ${volumes.length}`);
+    }
+    this.crops = volumes.slice();
+    this.writeCropRecords();
   }
 
   setCameraControlMode(mode: 'orbit' | 'fly'): void {
@@ -131,14 +267,23 @@ export class SplatRenderer {
       size: PICK_READBACK_BYTES_PER_ROW,
       usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
     });
+    this.countersReadbackBuf = device.createBuffer({
+      size: COUNTERS_BYTES,
+      usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST,
+    });
 
     this.gpu.canvas.addEventListener('pointermove', this.onPointerMoveBound);
 
-    // Uniform: 2*mat4(128) + vec2(8) + u32(4) + u32(4) + vec4(16) = 160 bytes
+    // Uniform: 2*mat4(128) + vec2(8) + u32(4) + u32(4) + vec3(12) + u32(4) + 5*vec4(80) + f32(4) = 256 bytes (padded)
     this.preprocessUniformBuf = device.createBuffer({
-      size: 160,
+      size: 256,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    this.cropBuf = device.createBuffer({
+      size: 16 + MAX_CROP_VOLUMES * CROP_FLOATS * 4,
       usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
     });
+    this.writeCropRecords();
 
     switch (this.sortMethod) {
       case 'gpu':           this.sorter = new StableRadixSort(device, 'portable'); break;
@@ -146,44 +291,550 @@ export class SplatRenderer {
       case 'gpu-unstable':  this.sorter = new RadixSort(device); break;
       default:              this.sorter = new CpuSort(device); break;
     }
+    this.compaction = new StreamCompaction(device);
   }
 
-  setScene(data: SplatData): void {
-    const device = this.gpu.device;
-    this.numSplats = data.count;
+  /**
+   * Replace the scene (including any splat objects) with `data` and fit the camera to its bounds.
+   * Uploads in slices, reporting 'upload' progress; an aborted `signal` rejects between slices.
+   */
+  async setScene(data: SplatData, options?: LoadOptions): Promise<void> {
+    const shScale = this.layout === 'compact-sh8' && data.shCoeffs ? shQuantizationScale(data.shCoeffs) : undefined;
+    this.beginScene(data.count, { shDegree: splatShDegree(data), shScale });
+    this.camera.fitToBounds(data.bounds.min, data.bounds.max);
+    this.cameraFitted = true;
 
-    this.positionBuf?.destroy();
-    this.rotationBuf?.destroy();
-    this.scaleBuf?.destroy();
-    this.colorBuf?.destroy();
-    this.shCoeffsBuf?.destroy();
-    this.splatOutBuf?.destroy();
+    for (let start = 0; start < data.count; start += UPLOAD_SLICE) {
+      options?.signal?.throwIfAborted();
+      const end = Math.min(data.count, start + UPLOAD_SLICE);
+      this.appendSplats(sliceSplatData(data, start, end, data.bounds));
+      options?.onProgress?.({ phase: 'upload', loaded: end, total: data.count });
+      if (end < data.count) await yieldToEventLoop();
+    }
+  }
 
-    this.positionBuf = this.createStorageBuffer(new Float32Array(data.positions));
-    this.rotationBuf = this.createStorageBuffer(new Float32Array(data.rotations));
-    this.scaleBuf = this.createStorageBuffer(new Float32Array(data.scales));
-    this.colorBuf = this.createStorageBuffer(new Float32Array(data.colors));
+  /**
+   * Replace the scene with a compressed PLY kept packed (see loadCompressedPlyPacked).
+   * Its 16-byte vertices, chunk table and 8-bit SH are uploaded as-is and decoded by the
+   * preprocess shader, whatever `layout` the renderer uses. The scene cannot be appended to.
+   */
+  async setPackedScene(data: PackedSplatData, options?: LoadOptions): Promise<void> {
+    this.createScene(data.count, data.shCoeffs ? data.shDegree : 0, 'compressed-ply');
+    const queue = this.gpu.device.queue;
+    this.chunkBuf.destroy();
+    this.chunkBuf = this.createSceneBuffer(Math.max(4, data.chunks.byteLength));
+    queue.writeBuffer(this.chunkBuf, 0, data.chunks.buffer, data.chunks.byteOffset, data.chunks.byteLength);
+    this.camera.fitToBounds(data.bounds.min, data.bounds.max);
+    this.cameraFitted = true;
 
-    // SH coefficients (bands 1-3), or a dummy 1-element buffer if absent
-    this.hasSH = !!data.shCoeffs;
-    this.shCoeffsBuf = this.createStorageBuffer(
-      data.shCoeffs ?? new Float32Array(45),
-    );
+    const strides = this.strides();
+    const shBytesPerSplat = 3 * shDimForDegree(this.shDegree);
+    const buffers = [this.positionBuf, this.rotationBuf, this.scaleBuf, this.colorBuf];
+    for (let start = 0; start < data.count; start += UPLOAD_SLICE) {
+      options?.signal?.throwIfAborted();
+      const end = Math.min(data.count, start + UPLOAD_SLICE);
+      const n = end - start;
+      // Vertices are interleaved; each packed word goes to its own attribute buffer
+      for (let k = 0; k < 4; k++) {
+        const words = new Uint32Array(n);
+        for (let i = 0; i < n; i++) words[i] = data.vertices[(start + i) * 4 + k];
+        queue.writeBuffer(buffers[k], start * 4, words);
+      }
+      if (data.shCoeffs) {
+        const bytes = data.shCoeffs.subarray(start * shBytesPerSplat, end * shBytesPerSplat);
+        const sh = packShBytes(bytes, n, this.shDegree);
+        queue.writeBuffer(this.shCoeffsBuf, start * strides.sh, sh.buffer, sh.byteOffset, n * strides.sh);
+      }
+      this.cpuPositions!.set(data.positions.subarray(start * 3, end * 3), start * 3);
+      this.numSplats = end;
+      options?.onProgress?.({ phase: 'upload', loaded: end, total: data.count });
+      if (end < data.count) await yieldToEventLoop();
+    }
+  }
 
-    this.splatOutBuf = device.createBuffer({
-      size: data.count * SPLAT_FLOATS * 4,
-      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
-    });
+  /**
+   * Start an empty scene with room for `capacity` splats (grown on demand).
+   * Follow with appendSplats() as batches arrive; the camera is fitted to the first batch.
+   * `shDegree` sets the SH bands stored per splat (0 until a batch with SH arrives).
+   * With the 'compact-sh8' layout, SH is quantized against `shScale`, the coefficient
+   * magnitude expected (setScene uses shQuantizationScale; streamed scenes pass the loader's
+   * onHeader estimate; default SH_DEFAULT_SCALE). Larger ones are clamped and counted in
+   * shClampedCount.
+   */
+  beginScene(capacity: number, options?: { shDegree?: number; shScale?: number }): void {
+    this.createScene(capacity, options?.shDegree ?? 0, this.layout);
+    this.shScale = options?.shScale || SH_DEFAULT_SCALE;
+  }
+
+  private createScene(capacity: number, shDegree: number, layout: SceneLayout): void {
+    this.destroySceneBuffers();
+    this.lastSortedValues = null;
+    this.numSplats = 0;
+    this.capacity = Math.max(1, capacity);
+    this.cameraFitted = false;
+    this.shDegree = Math.min(3, shDegree);
+    this.shScale = SH_DEFAULT_SCALE;
+    this._shClampedCount = 0;
+    this.sceneLayout = layout;
+
+    const strides = this.strides();
+    this.positionBuf = this.createSceneBuffer(this.capacity * strides.position);
+    this.rotationBuf = this.createSceneBuffer(this.capacity * strides.rotation);
+    this.scaleBuf = this.createSceneBuffer(this.capacity * strides.scale);
+    this.colorBuf = this.createSceneBuffer(this.capacity * strides.color);
+    // SH coefficients (bands 1..shDegree), or a dummy 1-word buffer if absent
+    this.shCoeffsBuf = this.createSceneBuffer(this.shDegree ? this.capacity * strides.sh : 4);
+    this.chunkBuf = this.createSceneBuffer(layout === 'compressed-ply' ? 4 : chunkTableBytes(this.capacity));
+    this.chunkDirtyStart = this.chunkDirtyEnd = 0;
+    this.objectIdBuf = this.createSceneBuffer(this.capacity * 4);
+    this.objects = [null];
+    this.objectRecords = new Float32Array(OBJECT_FLOATS * 4);
+    this.objectBuf = this.createSceneBuffer(this.objectRecords.byteLength);
+    this.writeObjectRecord(0, IDENTITY_TRANSFORM);
+    this.stateBuf = this.createSceneBuffer(stateBytes(this.capacity));
+    this.splatOutBuf = this.createSplatOutBuffer(this.capacity);
 
-    this.sorter.ensureCapacity(data.count);
+    this.sorter.ensureCapacity(this.capacity);
+    this.compaction.ensureCapacity(this.capacity);
 
     // CpuSort needs CPU-side positions + view matrix each frame
-    this.cpuPositions = new Float32Array(data.positions);
+    this.cpuPositions = new Float32Array(this.capacity * 3);
     if (this.sorter instanceof CpuSort) {
       this.sorter.positions = this.cpuPositions;
     }
+    this.cpuMaxScales = new Float32Array(this.capacity);
+    this.editor.reset(this.capacity);
+  }
 
-    this.camera.fitToBounds(data.bounds.min, data.bounds.max);
+  /**
+   * Append splats to the current scene without rebuilding it.
+   * GPU buffers and sorter capacity grow (existing data is copied on the GPU) when needed.
+   * SH of a different degree than the scene's is converted (higher bands are dropped).
+   */
+  appendSplats(data: SplatData): void {
+    if (data.count === 0) return;
+    this.uploadSplats(data, 'appendSplats');
+    if (!this.cameraFitted) {
+      this.camera.fitToBounds(data.bounds.min, data.bounds.max);
+      this.cameraFitted = true;
+    }
+  }
+
+  /**
+   * Add `data` to the scene as an object placed by `transform`, sorted together with every
+   * other splat. Starts a scene if there is none; the camera is fitted to the first content.
+   * The object's positions are kept (not copied) for CPU sorting.
+   */
+  addSplatObject(data: SplatData, transform?: SplatObjectTransform): SplatObjectHandle {
+    this.uploadSplats(data, 'addSplatObject');
+    let slot = this.objects.indexOf(null, 1);
+    if (slot < 0) slot = this.objects.length;
+    const entry: SplatObjectEntry = {
+      slot,
+      start: this.numSplats - data.count,
+      count: data.count,
+      transform: mergeTransform({ ...IDENTITY_TRANSFORM, coordinateSystem: this._coordinateSystem }, transform),
+      positions: data.positions,
+      maxScales: this.cpuMaxScales!.slice(this.numSplats - data.count, this.numSplats),
+    };
+    this.objects[slot] = entry;
+
+    const ids = new Uint32Array(data.count).fill(slot);
+    this.gpu.device.queue.writeBuffer(this.objectIdBuf, entry.start * 4, ids);
+    this.updateObject(entry);
+
+    if (!this.cameraFitted && data.count > 0) {
+      const bounds = transformBounds(data.bounds, this.objectModel(entry.transform));
+      this.camera.fitToBounds(bounds.min, bounds.max);
+      this.cameraFitted = true;
+    }
+
+    return {
+      get count() { return entry.count; },
+      get start() { return entry.start; },
+      get transform() { return { ...entry.transform }; },
+      setTransform: (next) => {
+        if (this.objects[entry.slot] !== entry) return;
+        entry.transform = mergeTransform(entry.transform, next);
+        this.updateObject(entry);
+      },
+      remove: () => {
+        if (this.objects[entry.slot] !== entry) return;
+        this.removeObject(entry);
+      },
+    };
+  }
+
+  /** Write `data` after the current splats, creating or growing the scene as needed. */
+  private uploadSplats(data: SplatData, caller: string): void {
+    if (!this.positionBuf) this.beginScene(data.count, { shDegree: splatShDegree(data) });
+    if (this.sceneLayout === 'compressed-ply') {
+      throw new Error(`${caller}: the scene was set with setPackedScene; call beginScene first`);
+    }
+    if (data.count === 0) return;
+
+    const start = this.numSplats;
+    const end = start + data.count;
+    if (end > this.capacity) this.growScene(Math.max(end, Math.ceil(this.capacity * 1.5)));
+    const shCoeffs = this.sceneShCoeffs(data.shCoeffs, data.count, splatShDegree(data));
+
+    const queue = this.gpu.device.queue;
+    const strides = this.strides();
+    const write = (buf: GPUBuffer, src: Float32Array | Uint32Array, bytesPerSplat: number) => {
+      queue.writeBuffer(buf, start * bytesPerSplat, src.buffer, src.byteOffset, data.count * bytesPerSplat);
+    };
+    const n = data.count;
+    write(this.positionBuf, data.positions, strides.position);
+    write(this.rotationBuf, encodeRotations(this.layout, data.rotations, n), strides.rotation);
+    write(this.scaleBuf, encodeScales(this.layout, data.scales, n), strides.scale);
+    write(this.colorBuf, encodeColors(this.layout, data.colors, n), strides.color);
+    if (shCoeffs) write(this.shCoeffsBuf, encodeShCoeffs(this.sceneLayout, shCoeffs, n, this.shDegree, this.shScale), strides.sh);
+
+    this.cpuPositions!.set(data.positions.subarray(0, data.count * 3), start * 3);
+    const maxScales = this.cpuMaxScales!;
+    for (let i = 0; i < n; i++) {
+      maxScales[start + i] = Math.max(data.scales[i * 3], data.scales[i * 3 + 1], data.scales[i * 3 + 2]);
+    }
+    this.numSplats = end;
+    this.markChunksDirty(start, end);
+  }
+
+  /** Upload an object's transform record and update its world-space CPU positions and scales. */
+  private updateObject(entry: SplatObjectEntry): void {
+    const model = this.objectModel(entry.transform);
+    this.writeObjectRecord(entry.slot, entry.transform, model);
+    transformPositions(entry.positions, entry.count, model, this.cpuPositions!, entry.start * 3);
+    const scale = maxAxisScale(entry.transform);
+    for (let i = 0; i < entry.count; i++) this.cpuMaxScales![entry.start + i] = entry.maxScales[i] * scale;
+    this.markChunksDirty(entry.start, entry.start + entry.count);
+  }
+
+  /** An object's model matrix: its axes rotated onto the scene's, then its transform. */
+  private objectModel(transform: Required<SplatObjectTransform>): Float32Array {
+    const model = objectMatrix(transform);
+    if (transform.coordinateSystem === this._coordinateSystem) return model;
+    return mat4Multiply(model, coordinateSystemMatrix(transform.coordinateSystem, this._coordinateSystem));
+  }
+
+  private markChunksDirty(start: number, end: number): void {
+    if (this.chunkDirtyEnd <= this.chunkDirtyStart) {
+      this.chunkDirtyStart = start;
+      this.chunkDirtyEnd = end;
+    } else {
+      this.chunkDirtyStart = Math.min(this.chunkDirtyStart, start);
+      this.chunkDirtyEnd = Math.max(this.chunkDirtyEnd, end);
+    }
+  }
+
+  /**
+   * Upload the bounds of chunks with stale splats: min / max world position and, in the
+   * max log-scale slots, the largest scale. compressed-ply scenes keep their own table.
+   */
+  private flushChunkBounds(): void {
+    if (this.sceneLayout === 'compressed-ply') return;
+    const end = Math.min(this.chunkDirtyEnd, this.numSplats);
+    if (end <= this.chunkDirtyStart) return;
+    const firstChunk = Math.floor(this.chunkDirtyStart / PREPROCESS_WG_SIZE);
+    const lastChunk = Math.ceil(end / PREPROCESS_WG_SIZE);
+    const records = new Float32Array((lastChunk - firstChunk) * CHUNK_FLOATS);
+    const positions = this.cpuPositions!;
+    const maxScales = this.cpuMaxScales!;
+    for (let chunk = firstChunk; chunk < lastChunk; chunk++) {
+      const o = (chunk - firstChunk) * CHUNK_FLOATS;
+      const min = [Infinity, Infinity, Infinity];
+      const max = [-Infinity, -Infinity, -Infinity];
+      let maxScale = 0;
+      const chunkEnd = Math.min(this.numSplats, (chunk + 1) * PREPROCESS_WG_SIZE);
+      for (let i = chunk * PREPROCESS_WG_SIZE; i < chunkEnd; i++) {
+        for (let k = 0; k < 3; k++) {
+          const v = positions[i * 3 + k];
+          if (v < min[k]) min[k] = v;
+          if (v > max[k]) max[k] = v;
+        }
+        if (maxScales[i] > maxScale) maxScale = maxScales[i];
+      }
+      records.set(min, o);
+      records.set(max, o + 3);
+      records.fill(Math.log(Math.max(maxScale, 1e-30)), o + 9, o + 12);
+    }
+    this.gpu.device.queue.writeBuffer(this.chunkBuf, firstChunk * CHUNK_FLOATS * 4, records);
+    this.chunkDirtyStart = this.chunkDirtyEnd = 0;
+  }
+
+  private writeObjectRecord(slot: number, transform: Required<SplatObjectTransform>, model = objectMatrix(transform)): void {
+    const offset = slot * OBJECT_FLOATS;
+    if (offset + OBJECT_FLOATS > this.objectRecords.length) {
+      const records = new Float32Array(Math.max(offset + OBJECT_FLOATS, this.objectRecords.length * 2));
+      records.set(this.objectRecords);
+      this.objectRecords = records;
+      this.objectBuf.destroy();
+      this.objectBuf = this.createSceneBuffer(records.byteLength);
+      this.gpu.device.queue.writeBuffer(this.objectBuf, 0, records);
+    }
+    this.objectRecords.set(model, offset);
+    new Uint32Array(this.objectRecords.buffer)[offset + 16] = transform.visible ? 1 : 0;
+    this.gpu.device.queue.writeBuffer(this.objectBuf, offset * 4, this.objectRecords, offset, OBJECT_FLOATS);
+  }
+
+  /** Upload the crop volume count and records (no-op before init). */
+  private writeCropRecords(): void {
+    if (!this.cropBuf) return;
+    const data = new Float32Array(4 + MAX_CROP_VOLUMES * CROP_FLOATS);
+    const u32 = new Uint32Array(data.buffer);
+    u32[0] = this.crops.length;
+    this.crops.forEach((volume, i) => {
+      const offset = 4 + i * CROP_FLOATS;
+      data.set(cropMatrix(volume), offset);
+      u32[offset + 16] = CROP_KIND[volume.type];
+      u32[offset + 17] = (volume.mode ?? 'inside') === 'inside' ? 1 : 0;
+    });
+    this.gpu.device.queue.writeBuffer(this.cropBuf, 0, data);
+  }
+
+  /**
+   * 1 for splats the preprocess pass keeps as far as objects and crop volumes go (edit state
+   * aside), or null when that is every splat; for editor selections.
+   */
+  private shownSplats(): Uint8Array | null {
+    const hidden = this.objects.filter((o): o is SplatObjectEntry => !!o && !o.transform.visible);
+    const positions = this.cpuPositions;
+    if (!positions || (hidden.length === 0 && this.crops.length === 0)) return null;
+    const shown = new Uint8Array(this.numSplats).fill(1);
+    for (const entry of hidden) shown.fill(0, entry.start, entry.start + entry.count);
+    const volumes = this.crops.map((volume) => ({
+      matrix: cropMatrix(volume),
+      kind: CROP_KIND[volume.type],
+      keepInside: (volume.mode ?? 'inside') === 'inside',
+    }));
+    for (let i = 0; i < this.numSplats; i++) {
+      if (!shown[i]) continue;
+      const x = positions[i * 3], y = positions[i * 3 + 1], z = positions[i * 3 + 2];
+      for (const { matrix: m, kind, keepInside } of volumes) {
+        // As isCropped in preprocess.wgsl: the center in the volume's local frame
+        const px = m[0] * x + m[4] * y + m[8] * z + m[12];
+        const py = m[1] * x + m[5] * y + m[9] * z + m[13];
+        const pz = m[2] * x + m[6] * y + m[10] * z + m[14];
+        const inside = kind === CROP_KIND.box
+          ? Math.abs(px) <= 1 && Math.abs(py) <= 1 && Math.abs(pz) <= 1
+          : kind === CROP_KIND.sphere ? px * px + py * py + pz * pz <= 1 : pz >= 0;
+        if (inside !== keepInside) {
+          shown[i] = 0;
+          break;
+        }
+      }
+    }
+    return shown;
+  }
+
+  /** Drop an object's splats, moving later splats down on the GPU, and free its slot. */
+  private removeObject(entry: SplatObjectEntry): void {
+    this.objects[entry.slot] = null;
+    const end = entry.start + entry.count;
+    this.reallocateScene(this.capacity, { start: entry.start, count: entry.count });
+    this.cpuPositions!.copyWithin(entry.start * 3, end * 3, this.numSplats * 3);
+    this.cpuMaxScales!.copyWithin(entry.start, end, this.numSplats);
+    this.editor.removeRange(entry.start, entry.count, this.numSplats);
+    this.markChunksDirty(entry.start, this.numSplats);
+    this.numSplats -= entry.count;
+    for (const other of this.objects) {
+      if (other && other.start >= end) other.start -= entry.count;
+    }
+  }
+
+  /**
+   * Overwrite SH coefficients of already-appended splats, starting at splat index `start`.
+   * `shCoeffs` uses the SplatData layout for `shDegree` (default: the scene's degree).
+   * Used when SH arrives after the splats themselves.
+   */
+  writeShCoeffs(shCoeffs: Float32Array, start: number, shDegree = this.shDegree): void {
+    if (!this.positionBuf || shDegree === 0) return;
+    const count = Math.min(shCoeffs.length / shStrideForDegree(shDegree), this.numSplats - start);
+    if (count <= 0) return;
+    const sh = encodeShCoeffs(this.sceneLayout, this.sceneShCoeffs(shCoeffs, count, shDegree)!, count, this.shDegree, this.shScale);
+    const stride = this.strides().sh;
+    this.gpu.device.queue.writeBuffer(this.shCoeffsBuf, start * stride, sh.buffer, sh.byteOffset, count * stride);
+  }
+
+  /**
+   * `shCoeffs` of degree `shDegree` in the scene's SH layout. The first SH to arrive
+   * sets the scene degree (splats appended before it keep zero coefficients); for
+   * 'compact-sh8', coefficients beyond the scene's scale are counted.
+   */
+  private sceneShCoeffs(shCoeffs: Float32Array | undefined, count: number, shDegree: number): Float32Array | undefined {
+    if (!shCoeffs || shDegree === 0) return undefined;
+    if (this.shDegree === 0) {
+      this.shDegree = Math.min(3, shDegree);
+      this.shCoeffsBuf.destroy();
+      this.shCoeffsBuf = this.createSceneBuffer(this.capacity * this.strides().sh);
+    }
+    const sh = shDegree === this.shDegree ? shCoeffs : convertShDegree(shCoeffs, count, shDegree, this.shDegree);
+    if (this.sceneLayout === 'compact-sh8') {
+      const used = sh.subarray(0, count * shStrideForDegree(this.shDegree));
+      this._shClampedCount += countShClamped(used, this.shScale);
+    }
+    return sh;
+  }
+
+  /** Splat index under the cursor from the last pick readback (see pickEnabled). */
+  get hoveredSplatIndex(): number | null {
+    return this._pickEnabled ? this.hoveredIndex : null;
+  }
+
+  /**
+   * Read the scene back from the GPU, without deleted splats (see editor), as world-space
+   * SplatData for saving. Compact layouts return their quantized values; extras are not kept.
+   */
+  async exportSplatData(): Promise<SplatData> {
+    if (!this.positionBuf) throw new Error('exportSplatData: no scene');
+    const count = this.numSplats;
+    const shDegree = this.shDegree;
+    const layout = this.sceneLayout;
+    const states = this.editor.stateBytes.slice(0, count);
+    const objects = this.objects.flatMap((o) => (o ? [{ start: o.start, count: o.count, model: this.objectModel(o.transform) }] : []));
+
+    const strides = this.strides();
+    const [position, rotation, scale, color, sh, chunks] = await this.readBuffers([
+      [this.positionBuf, count * strides.position],
+      [this.rotationBuf, count * strides.rotation],
+      [this.scaleBuf, count * strides.scale],
+      [this.colorBuf, count * strides.color],
+      shDegree ? [this.shCoeffsBuf, count * strides.sh] : null,
+      layout === 'compressed-ply' ? [this.chunkBuf, this.chunkBuf.size] : null,
+    ]);
+    const decoded = decodeSceneBuffers(layout, {
+      position: position!, rotation: rotation!, scale: scale!, color: color!, sh: sh ?? undefined,
+      chunks: chunks ? new Float32Array(chunks) : undefined,
+    }, count, shDegree, this.shScale);
+    const scene: SplatData = {
+      count, ...decoded, shDegree: decoded.shCoeffs ? shDegree : 0, bounds: { min: [0, 0, 0], max: [0, 0, 0] },
+    };
+    const shStride = shStrideForDegree(scene.shDegree);
+
+    // Object splats are stored in object space
+    for (const object of objects) {
+      const world = transformSplatData(sliceSplatData(scene, object.start, object.start + object.count), object.model);
+      scene.positions.set(world.positions, object.start * 3);
+      scene.rotations.set(world.rotations, object.start * 4);
+      scene.scales.set(world.scales, object.start * 3);
+      if (world.shCoeffs) scene.shCoeffs!.set(world.shCoeffs, object.start * shStride);
+    }
+
+    let kept = 0;
+    for (let i = 0; i < count; i++) if (!(states[i] & SPLAT_DELETED)) kept++;
+    const out: SplatData = {
+      count: kept,
+      positions: new Float32Array(kept * 3),
+      rotations: new Float32Array(kept * 4),
+      scales: new Float32Array(kept * 3),
+      colors: new Float32Array(kept * 4),
+      shCoeffs: scene.shCoeffs ? new Float32Array(kept * shStride) : undefined,
+      shDegree: scene.shDegree,
+      bounds: scene.bounds,
+    };
+    for (let i = 0, o = 0; i < count; i++) {
+      if (states[i] & SPLAT_DELETED) continue;
+      out.positions.set(scene.positions.subarray(i * 3, i * 3 + 3), o * 3);
+      out.rotations.set(scene.rotations.subarray(i * 4, i * 4 + 4), o * 4);
+      out.scales.set(scene.scales.subarray(i * 3, i * 3 + 3), o * 3);
+      out.colors.set(scene.colors.subarray(i * 4, i * 4 + 4), o * 4);
+      out.shCoeffs?.set(scene.shCoeffs!.subarray(i * shStride, (i + 1) * shStride), o * shStride);
+      o++;
+    }
+    out.bounds = computeBounds(out.positions);
+    return out;
+  }
+
+  /** Copy each [buffer, bytes] to the CPU (null entries stay null), in one submission. */
+  private async readBuffers(sources: ([GPUBuffer, number] | null)[]): Promise<(ArrayBuffer | null)[]> {
+    const device = this.gpu.device;
+    const encoder = device.createCommandEncoder();
+    const staging = sources.map((source) => {
+      if (!source) return null;
+      const [buf, bytes] = source;
+      const dst = device.createBuffer({ size: Math.max(4, bytes), usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST });
+      if (bytes > 0) encoder.copyBufferToBuffer(buf, 0, dst, 0, bytes);
+      return dst;
+    });
+    device.queue.submit([encoder.finish()]);
+    return Promise.all(staging.map(async (dst) => {
+      if (!dst) return null;
+      await dst.mapAsync(GPUMapMode.READ);
+      const data = dst.getMappedRange().slice(0);
+      dst.destroy();
+      return data;
+    }));
+  }
+
+  /** Number of splats currently uploaded. */
+  get splatCount(): number {
+    return this.numSplats;
+  }
+
+  /** SH coefficients the 'compact-sh8' layout clamped to its scale in the current scene (see beginScene). */
+  get shClampedCount(): number {
+    return this._shClampedCount;
+  }
+
+  private growScene(capacity: number): void {
+    this.reallocateScene(capacity);
+    this.sorter.ensureCapacity(capacity);
+    this.compaction.ensureCapacity(capacity);
+    const cpuPositions = new Float32Array(capacity * 3);
+    cpuPositions.set(this.cpuPositions!.subarray(0, this.numSplats * 3));
+    this.cpuPositions = cpuPositions;
+    if (this.sorter instanceof CpuSort) {
+      this.sorter.positions = this.cpuPositions;
+    }
+    const cpuMaxScales = new Float32Array(capacity);
+    cpuMaxScales.set(this.cpuMaxScales!.subarray(0, this.numSplats));
+    this.cpuMaxScales = cpuMaxScales;
+    this.capacity = capacity;
+    // Chunk bounds are derived from the CPU copies: rebuild them all
+    this.chunkBuf.destroy();
+    this.chunkBuf = this.createSceneBuffer(chunkTableBytes(capacity));
+    this.markChunksDirty(0, this.numSplats);
+    // Edit state is authoritative on the CPU: a new buffer is simply re-uploaded
+    this.stateBuf.destroy();
+    this.stateBuf = this.createSceneBuffer(stateBytes(capacity));
+    this.editor.grow(capacity);
+  }
+
+  /**
+   * Move the per-splat GPU buffers into new ones of `capacity` splats, copying the
+   * used splats except `cut` (later splats move down to close the gap).
+   */
+  private reallocateScene(capacity: number, cut = { start: this.numSplats, count: 0 }): void {
+    const device = this.gpu.device;
+    const encoder = device.createCommandEncoder();
+    const used = this.numSplats;
+    const cutEnd = cut.start + cut.count;
+    const strides = this.strides();
+    const move = (buf: GPUBuffer, bytesPerSplat: number): GPUBuffer => {
+      const next = this.createSceneBuffer(capacity * bytesPerSplat);
+      if (cut.start > 0) encoder.copyBufferToBuffer(buf, 0, next, 0, cut.start * bytesPerSplat);
+      if (used > cutEnd) {
+        encoder.copyBufferToBuffer(buf, cutEnd * bytesPerSplat, next, cut.start * bytesPerSplat, (used - cutEnd) * bytesPerSplat);
+      }
+      return next;
+    };
+    // The sorter's buffers and splatOut are replaced: nothing to pick until the next frame
+    this.lastSortedValues = null;
+    const old = [
+      this.positionBuf, this.rotationBuf, this.scaleBuf, this.colorBuf, this.shCoeffsBuf, this.objectIdBuf, this.splatOutBuf,
+    ];
+
+    this.positionBuf = move(this.positionBuf, strides.position);
+    this.rotationBuf = move(this.rotationBuf, strides.rotation);
+    this.scaleBuf = move(this.scaleBuf, strides.scale);
+    this.colorBuf = move(this.colorBuf, strides.color);
+    if (this.shDegree) this.shCoeffsBuf = move(this.shCoeffsBuf, strides.sh);
+    this.objectIdBuf = move(this.objectIdBuf, 4);
+    this.splatOutBuf = this.createSplatOutBuffer(capacity);
+    device.queue.submit([encoder.finish()]);
+    // destroy() waits for the queued copies to finish
+    for (const buf of old) {
+      if (buf !== this.shCoeffsBuf) buf.destroy();
+    }
   }
 
   resize(width: number, height: number): void {
@@ -210,7 +861,7 @@ export class SplatRenderer {
   }
 
   renderFrame(): void {
-    if (this.numSplats === 0) return;
+    if (this.disposed || this.numSplats === 0) return;
 
     const device = this.gpu.device;
     this.camera.turntableSpeed = this.turntableSpeed;
@@ -221,8 +872,10 @@ export class SplatRenderer {
       this.sorter.viewMatrix = this.camera.viewMatrix;
     }
 
-    // Update preprocess uniforms (160 bytes)
-    const uniformData = new ArrayBuffer(160);
+    this.flushChunkBounds();
+
+    // Update preprocess uniforms (256 bytes)
+    const uniformData = new ArrayBuffer(256);
     const f32 = new Float32Array(uniformData);
     const u32 = new Uint32Array(uniformData);
     f32.set(this.camera.viewMatrix, 0);       // offset 0:   view (64 bytes)
@@ -230,12 +883,14 @@ export class SplatRenderer {
     f32[32] = this.gpu.canvas.width;          // offset 128: viewport.x
     f32[33] = this.gpu.canvas.height;         // offset 132: viewport.y
     u32[34] = this.numSplats;                 // offset 136: numSplats
-    u32[35] = (this.hasSH && this.shEnabled) ? 1 : 0; // offset 140: hasSH
+    u32[35] = this.shEnabled ? shDimForDegree(this.shDegree) : 0; // offset 140: shDim
     const camPos = this.camera.position;
     f32[36] = camPos[0];                      // offset 144: cameraPos.x
     f32[37] = camPos[1];                      // offset 148: cameraPos.y
     f32[38] = camPos[2];                      // offset 152: cameraPos.z
-    f32[39] = 0;                              // offset 156: padding
+    u32[39] = layoutIndex(this.sceneLayout);  // offset 156: attrLayout
+    f32.set(frustumPlanes(this.camera.viewMatrix, this.camera.viewProjMatrix), 40); // offset 160: frustum (80 bytes)
+    f32[60] = this.shScale;                   // offset 240: shScale
     device.queue.writeBuffer(this.preprocessUniformBuf, 0, uniformData);
 
     const encoder = device.createCommandEncoder();
@@ -252,8 +907,12 @@ export class SplatRenderer {
         { binding: 4, resource: { buffer: this.colorBuf } },
         { binding: 5, resource: { buffer: this.shCoeffsBuf } },
         { binding: 6, resource: { buffer: this.splatOutBuf } },
-        { binding: 7, resource: { buffer: sortInputs.keys } },
-        { binding: 8, resource: { buffer: sortInputs.values } },
+        { binding: 7, resource: { buffer: this.compaction.keys } },
+        { binding: 9, resource: { buffer: this.chunkBuf } },
+        { binding: 10, resource: { buffer: this.objectBuf } },
+        { binding: 11, resource: { buffer: this.objectIdBuf } },
+        { binding: 12, resource: { buffer: this.stateBuf } },
+        { binding: 13, resource: { buffer: this.cropBuf } },
       ],
     });
 
@@ -264,8 +923,9 @@ export class SplatRenderer {
     cp.dispatchWorkgroups(numWGs);
     cp.end();
 
-    // ---- 2. Sort (GPU or CPU — same interface) ----
-    const sortedValuesBuf = this.sorter.sort(encoder, this.numSplats);
+    // ---- 2. Compact visible splats, then sort them (GPU or CPU — same interface) ----
+    this.compaction.compact(encoder, this.numSplats, sortInputs);
+    const sortedValuesBuf = this.sorter.sort(encoder, this.numSplats, this.compaction.count);
 
     // ---- 3. Render ----
     const renderBG = device.createBindGroup({
@@ -273,6 +933,7 @@ export class SplatRenderer {
       entries: [
         { binding: 0, resource: { buffer: this.splatOutBuf } },
         { binding: 1, resource: { buffer: sortedValuesBuf } },
+        { binding: 2, resource: { buffer: this.stateBuf } },
       ],
     });
 
@@ -286,74 +947,143 @@ export class SplatRenderer {
     });
     rp.setPipeline(this.renderPipeline);
     rp.setBindGroup(0, renderBG);
-    rp.draw(6, this.numSplats, 0, 0);
+    this.drawSplats(rp);
     rp.end();
 
+    this.lastSortedValues = sortedValuesBuf;
+
     // ---- 4. Pick pass (splat index into R32Uint texture) ----
     let didCopy = false;
     if (this._pickEnabled) this.ensurePickTexture();
     if (this.pickTexture && this.pickX >= 0 && !this.readbackPending) {
-      const pickBG = device.createBindGroup({
-        layout: this.pickPipeline.getBindGroupLayout(0),
-        entries: [
-          { binding: 0, resource: { buffer: this.splatOutBuf } },
-          { binding: 1, resource: { buffer: sortedValuesBuf } },
-        ],
-      });
-      const pickRp = encoder.beginRenderPass({
-        colorAttachments: [{
-          view: this.pickTexture.createView(),
-          clearValue: { r: PICK_NO_HIT, g: 0, b: 0, a: 0 },
-          loadOp: 'clear',
-          storeOp: 'store',
-        }],
-      });
-      pickRp.setPipeline(this.pickPipeline);
-      pickRp.setBindGroup(0, pickBG);
-      pickRp.draw(6, this.numSplats, 0, 0);
-      pickRp.end();
-
-      encoder.copyTextureToBuffer(
-        { texture: this.pickTexture, origin: [this.pickX, this.pickY, 0] },
-        {
-          buffer: this.readbackBuf,
-          bytesPerRow: PICK_READBACK_BYTES_PER_ROW,
-          rowsPerImage: 1,
-        },
-        { width: 1, height: 1, depthOrArrayLayers: 1 },
-      );
+      this.encodePick(encoder, sortedValuesBuf, this.pickX, this.pickY, this.readbackBuf);
       this.readbackPending = true;
       didCopy = true;
     }
 
+    let didCopyCounters = false;
+    if (!this.countersReadbackPending) {
+      encoder.copyBufferToBuffer(this.compaction.counters, 0, this.countersReadbackBuf, 0, COUNTERS_BYTES);
+      this.countersReadbackPending = true;
+      didCopyCounters = true;
+    }
+
     device.queue.submit([encoder.finish()]);
 
+    if (didCopyCounters) {
+      this.countersReadbackBuf.mapAsync(GPUMapMode.READ).then(() => {
+        if (this.disposed) return;
+        const counters = new Uint32Array(this.countersReadbackBuf.getMappedRange(0, COUNTERS_BYTES));
+        const stats = { visibleSplats: counters[1], frustumCulledSplats: counters[4], culledChunks: counters[5] };
+        this.countersReadbackBuf.unmap();
+        this.countersReadbackPending = false;
+        this.onStatsPartial?.(stats);
+      }).catch(() => {
+        // Buffer destroyed or device lost while mapping
+        this.countersReadbackPending = false;
+      });
+    }
     if (didCopy) {
       this.readbackBuf.mapAsync(GPUMapMode.READ).then(() => {
+        if (this.disposed) return;
         const idx = new Uint32Array(this.readbackBuf.getMappedRange(0, 4))[0];
         this.readbackBuf.unmap();
         this.readbackPending = false;
         const hoveredSplatIndex = idx === PICK_NO_HIT ? null : idx;
+        this.hoveredIndex = hoveredSplatIndex;
         this.onStatsPartial?.({ hoveredSplatIndex });
+      }).catch(() => {
+        this.readbackPending = false;
       });
     }
   }
 
+  /** Draw the splats' indices into the pick texture and copy pixel (x, y) to `dst`. */
+  private encodePick(encoder: GPUCommandEncoder, sortedValuesBuf: GPUBuffer, x: number, y: number, dst: GPUBuffer): void {
+    const pickBG = this.gpu.device.createBindGroup({
+      layout: this.pickPipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.splatOutBuf } },
+        { binding: 1, resource: { buffer: sortedValuesBuf } },
+        { binding: 2, resource: { buffer: this.stateBuf } },
+      ],
+    });
+    const pickRp = encoder.beginRenderPass({
+      colorAttachments: [{
+        view: this.pickTexture!.createView(),
+        clearValue: { r: PICK_NO_HIT, g: 0, b: 0, a: 0 },
+        loadOp: 'clear',
+        storeOp: 'store',
+      }],
+    });
+    pickRp.setPipeline(this.pickPipeline);
+    pickRp.setBindGroup(0, pickBG);
+    this.drawSplats(pickRp);
+    pickRp.end();
+
+    encoder.copyTextureToBuffer(
+      { texture: this.pickTexture!, origin: [x, y, 0] },
+      {
+        buffer: dst,
+        bytesPerRow: PICK_READBACK_BYTES_PER_ROW,
+        rowsPerImage: 1,
+      },
+      { width: 1, height: 1, depthOrArrayLayers: 1 },
+    );
+  }
+
+  /**
+   * Splat drawn at canvas point (x, y), in CSS pixels, as of the last frame; null over the
+   * background or before the first frame. Runs its own pick pass, so pickEnabled is not needed.
+   */
+  private async pickSplatAt(x: number, y: number): Promise<number | null> {
+    const canvas = this.gpu.canvas;
+    const sortedValuesBuf = this.lastSortedValues;
+    if (this.disposed || !sortedValuesBuf || canvas.clientWidth <= 0 || canvas.clientHeight <= 0) return null;
+    const px = Math.floor((x * canvas.width) / canvas.clientWidth);
+    const py = Math.floor((y * canvas.height) / canvas.clientHeight);
+    if (px < 0 || px >= canvas.width || py < 0 || py >= canvas.height) return null;
+
+    const device = this.gpu.device;
+    this.ensurePickTexture();
+    const dst = device.createBuffer({ size: PICK_READBACK_BYTES_PER_ROW, usage: GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST });
+    const encoder = device.createCommandEncoder();
+    this.encodePick(encoder, sortedValuesBuf, px, py, dst);
+    device.queue.submit([encoder.finish()]);
+    try {
+      await dst.mapAsync(GPUMapMode.READ);
+      const idx = new Uint32Array(dst.getMappedRange(0, 4))[0];
+      return idx === PICK_NO_HIT || idx >= this.numSplats ? null : idx;
+    } catch {
+      return null; // disposed or device lost while mapping
+    } finally {
+      dst.destroy();
+    }
+  }
+
+  /** One quad per visible splat; CpuSort orders every splat, so it draws them all. */
+  private drawSplats(pass: GPURenderPassEncoder): void {
+    if (this.sorter instanceof CpuSort) {
+      pass.draw(6, this.numSplats, 0, 0);
+    } else {
+      pass.drawIndirect(this.compaction.counters, 0);
+    }
+  }
+
   dispose(): void {
+    this.disposed = true;
     this.stopLoop();
     this.gpu.canvas.removeEventListener('pointermove', this.onPointerMoveBound);
     this.camera.detach();
     this.pickTexture?.destroy();
     this.pickTexture = null;
     this.readbackBuf?.destroy();
-    this.positionBuf?.destroy();
-    this.rotationBuf?.destroy();
-    this.scaleBuf?.destroy();
-    this.colorBuf?.destroy();
-    this.shCoeffsBuf?.destroy();
-    this.splatOutBuf?.destroy();
+    this.countersReadbackBuf?.destroy();
+    this.destroySceneBuffers();
     this.preprocessUniformBuf?.destroy();
+    this.cropBuf?.destroy();
     this.sorter?.destroy();
+    this.compaction?.destroy();
     this.gpu.dispose();
   }
 
@@ -401,13 +1131,186 @@ export class SplatRenderer {
     this.frameId = requestAnimationFrame(this.tick);
   };
 
-  private createStorageBuffer(data: Float32Array): GPUBuffer {
-    const device = this.gpu.device;
-    const buffer = device.createBuffer({
-      size: data.byteLength,
-      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST,
+  /** Bytes per splat of each scene buffer for the current layout and SH degree. */
+  private strides(): SplatLayoutStrides {
+    return splatLayoutStrides(this.sceneLayout, this.shDegree);
+  }
+
+  private createSceneBuffer(size: number): GPUBuffer {
+    return this.gpu.device.createBuffer({
+      size,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST | GPUBufferUsage.COPY_SRC,
     });
-    device.queue.writeBuffer(buffer, 0, data.buffer, data.byteOffset, data.byteLength);
-    return buffer;
   }
+
+  private createSplatOutBuffer(capacity: number): GPUBuffer {
+    return this.gpu.device.createBuffer({
+      size: capacity * SPLAT_FLOATS * 4,
+      usage: GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC,
+    });
+  }
+
+  private destroySceneBuffers(): void {
+    this.positionBuf?.destroy();
+    this.rotationBuf?.destroy();
+    this.scaleBuf?.destroy();
+    this.colorBuf?.destroy();
+    this.shCoeffsBuf?.destroy();
+    this.chunkBuf?.destroy();
+    this.objectIdBuf?.destroy();
+    this.objectBuf?.destroy();
+    this.stateBuf?.destroy();
+    this.splatOutBuf?.destroy();
+  }
+}
+
+// ---- internal helpers ----
+
+const IDENTITY_TRANSFORM: Required<SplatObjectTransform> = {
+  position: [0, 0, 0],
+  rotation: [1, 0, 0, 0],
+  scale: 1,
+  visible: true,
+  coordinateSystem: 'opencv',
+};
+
+/** Size of a culling chunk table for `capacity` splats. */
+function chunkTableBytes(capacity: number): number {
+  return Math.ceil(capacity / PREPROCESS_WG_SIZE) * CHUNK_FLOATS * 4;
+}
+
+/** Largest per-axis scale of an object transform. */
+function maxAxisScale(t: Required<SplatObjectTransform>): number {
+  return typeof t.scale === 'number' ? Math.abs(t.scale) : Math.max(...t.scale.map(Math.abs));
+}
+
+/**
+ * World-space culling planes (xyz normal, w offset; inside >= 0) from column-major view and
+ * view-projection matrices: left, right, bottom, top widened to the guard band, then near.
+ */
+function frustumPlanes(view: Float32Array, viewProj: Float32Array): Float32Array {
+  const row = (m: Float32Array, i: number) => [m[i], m[4 + i], m[8 + i], m[12 + i]];
+  const [r0, r1, , r3] = [0, 1, 2, 3].map((i) => row(viewProj, i));
+  const planes = new Float32Array(20);
+  const sides = [[r0, 1], [r0, -1], [r1, 1], [r1, -1]] as const;
+  sides.forEach(([r, sign], p) => {
+    // FRUSTUM_GUARD_BAND * w ± x >= 0, normalized so distances are in world units
+    const plane = r3.map((w, k) => FRUSTUM_GUARD_BAND * w + sign * r[k]);
+    const len = Math.hypot(plane[0], plane[1], plane[2]) || 1;
+    planes.set(plane.map((v) => v / len), p * 4);
+  });
+  // View-space z <= -NEAR_CULL; the view matrix is rigid, so the normal is unit length
+  const z = row(view, 2);
+  planes.set([-z[0], -z[1], -z[2], -z[3] - NEAR_CULL], 16);
+  return planes;
+}
+
+/** Size of the edit state buffer: one byte per splat, whole words. */
+function stateBytes(capacity: number): number {
+  return Math.ceil(capacity / 4) * 4;
+}
+
+/** `base` with the fields `next` defines replaced. */
+function mergeTransform(base: Required<SplatObjectTransform>, next?: SplatObjectTransform): Required<SplatObjectTransform> {
+  return {
+    position: next?.position ?? base.position,
+    rotation: next?.rotation ?? base.rotation,
+    scale: next?.scale ?? base.scale,
+    visible: next?.visible ?? base.visible,
+    coordinateSystem: next?.coordinateSystem ?? base.coordinateSystem,
+  };
+}
+
+/** Column-major model matrix: translate · rotate · scale. */
+function objectMatrix(t: Required<SplatObjectTransform>): Float32Array {
+  let [w, x, y, z] = t.rotation;
+  const len = Math.hypot(w, x, y, z) || 1;
+  w /= len; x /= len; y /= len; z /= len;
+  const [sx, sy, sz] = typeof t.scale === 'number' ? [t.scale, t.scale, t.scale] : t.scale;
+  const m = new Float32Array(16);
+  m[0] = (1 - 2 * (y * y + z * z)) * sx;
+  m[1] = 2 * (x * y + w * z) * sx;
+  m[2] = 2 * (x * z - w * y) * sx;
+  m[4] = 2 * (x * y - w * z) * sy;
+  m[5] = (1 - 2 * (x * x + z * z)) * sy;
+  m[6] = 2 * (y * z + w * x) * sy;
+  m[8] = 2 * (x * z + w * y) * sz;
+  m[9] = 2 * (y * z - w * x) * sz;
+  m[10] = (1 - 2 * (x * x + y * y)) * sz;
+  m[12] = t.position[0];
+  m[13] = t.position[1];
+  m[14] = t.position[2];
+  m[15] = 1;
+  return m;
+}
+
+/** Column-major a · b. */
+function mat4Multiply(a: Float32Array, b: Float32Array): Float32Array {
+  const out = new Float32Array(16);
+  for (let c = 0; c < 4; c++) {
+    for (let r = 0; r < 4; r++) {
+      out[c * 4 + r] = a[r] * b[c * 4] + a[4 + r] * b[c * 4 + 1] + a[8 + r] * b[c * 4 + 2] + a[12 + r] * b[c * 4 + 3];
+    }
+  }
+  return out;
+}
+
+/**
+ * Column-major world → volume matrix: boxes map to [-1, 1]³, spheres to the unit sphere;
+ * for planes, row 2 is the plane equation (z >= 0 inside) and the other rows are unused.
+ */
+function cropMatrix(volume: CropVolume): Float32Array {
+  const m = new Float32Array(16);
+  m[15] = 1;
+  if (volume.type === 'plane') {
+    const [nx, ny, nz] = volume.normal;
+    const len = Math.hypot(nx, ny, nz) || 1;
+    const [px, py, pz] = volume.point;
+    m[0] = 1; m[5] = 1;
+    m[2] = nx / len; m[6] = ny / len; m[10] = nz / len;
+    m[14] = -(m[2] * px + m[6] * py + m[10] * pz);
+    return m;
+  }
+  const [cx, cy, cz] = volume.center;
+  if (volume.type === 'sphere') {
+    const inv = 1 / volume.radius;
+    m[0] = m[5] = m[10] = inv;
+    m[12] = -cx * inv; m[13] = -cy * inv; m[14] = -cz * inv;
+    return m;
+  }
+  // Inverse of translate · rotate · scale: scale⁻¹ · rotateᵀ · translate⁻¹
+  const r = objectMatrix({ ...IDENTITY_TRANSFORM, rotation: volume.rotation ?? [1, 0, 0, 0] });
+  for (let i = 0; i < 3; i++) {
+    const inv = 1 / volume.halfExtents[i];
+    for (let j = 0; j < 3; j++) m[j * 4 + i] = r[i * 4 + j] * inv;
+    m[12 + i] = -(m[i] * cx + m[4 + i] * cy + m[8 + i] * cz);
+  }
+  return m;
+}
+
+function transformPositions(src: Float32Array, count: number, m: Float32Array, out: Float32Array, offset: number): void {
+  for (let i = 0; i < count; i++) {
+    const x = src[i * 3], y = src[i * 3 + 1], z = src[i * 3 + 2];
+    out[offset + i * 3] = m[0] * x + m[4] * y + m[8] * z + m[12];
+    out[offset + i * 3 + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+    out[offset + i * 3 + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+  }
+}
+
+/** Axis-aligned bounds of the transformed box corners. */
+function transformBounds(bounds: SplatData['bounds'], m: Float32Array): SplatData['bounds'] {
+  const corners = new Float32Array(24);
+  for (let i = 0; i < 8; i++) {
+    corners[i * 3] = i & 1 ? bounds.max[0] : bounds.min[0];
+    corners[i * 3 + 1] = i & 2 ? bounds.max[1] : bounds.min[1];
+    corners[i * 3 + 2] = i & 4 ? bounds.max[2] : bounds.min[2];
+  }
+  transformPositions(corners, 8, m, corners, 0);
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < 24; i++) {
+    min[i % 3] = Math.min(min[i % 3], corners[i]);
+    max[i % 3] = Math.max(max[i % 3], corners[i]);
+  }
+  return { min, max };
 }
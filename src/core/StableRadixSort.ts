@@ -1,4 +1,4 @@
-import type { Sorter } from './Sorter';
+import type { Sorter, SortCount } from './Sorter';
 import radixSortWGSL from '../shaders/radixSort.wgsl?raw';
 import radixSortSubgroupWGSL from '../shaders/radixSortSubgroup.wgsl?raw';
 
@@ -169,13 +169,15 @@ export class StableRadixSort implements Sorter {
     return { keys: this.keysA, values: this.valsA };
   }
 
-  sort(encoder: GPUCommandEncoder, numElements: number): GPUBuffer {
+  sort(encoder: GPUCommandEncoder, numElements: number, count?: SortCount): GPUBuffer {
     const numWGs = Math.ceil(numElements / TILE_SIZE);
     const numElementWGs = Math.ceil(numElements / WG_SIZE);
 
     for (let pass = 0; pass < this.numPasses; pass++) {
-      const data = new Uint32Array([numElements, pass * this.bitsPerPass, numWGs, pass === 0 ? 1 : 0]);
+      const data = new Uint32Array([numElements, pass * this.bitsPerPass, numWGs, pass === 0 && !count ? 1 : 0]);
       this.device.queue.writeBuffer(this.passUniformBufs[pass], 0, data);
+      // Replace numElements with the GPU-side count (ordered after the writes above)
+      if (count) encoder.copyBufferToBuffer(count.buffer, count.offset, this.passUniformBufs[pass], 0, 4);
     }
 
     let readKeys = this.keysA;
@@ -0,0 +1,143 @@
+import type { SortCount } from './Sorter';
+import compactWGSL from '../shaders/compact.wgsl?raw';
+
+const WG_SIZE = 256;
+/** Size of StreamCompaction.counters. */
+export const COUNTERS_BYTES = 32;
+
+/**
+ * Packs the splats the preprocess pass left visible (sort key below the cull codes) into
+ * the sorter's input, in splat index order, so only they are sorted and drawn.
+ *
+ * Per frame: preprocess writes one key per splat to `keys`, compact() fills the sorter's
+ * key/value buffers and writes the visible count into `counters` (drawIndirect arguments
+ * first), which the sorter reads through `count`.
+ */
+export class StreamCompaction {
+  private device: GPUDevice;
+  private countPipeline!: GPUComputePipeline;
+  private scanPipeline!: GPUComputePipeline;
+  private scatterPipeline!: GPUComputePipeline;
+
+  private keysBuf!: GPUBuffer;
+  private blockSumBuf!: GPUBuffer;
+  private uniformBuf: GPUBuffer;
+  /**
+   * u32 words: drawIndirect arguments — vertexCount (6), instanceCount (visible splats), 0, 0 —
+   * then frustum-culled splats and culled chunks.
+   */
+  readonly counters: GPUBuffer;
+
+  private capacity = 0;
+
+  constructor(device: GPUDevice) {
+    this.device = device;
+    this.createPipelines();
+    this.uniformBuf = device.createBuffer({
+      size: 16,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+    this.counters = device.createBuffer({
+      size: COUNTERS_BYTES,
+      usage: GPUBufferUsage.INDIRECT | GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC | GPUBufferUsage.COPY_DST,
+    });
+    device.queue.writeBuffer(this.counters, 0, new Uint32Array([6, 0, 0, 0]));
+  }
+
+  private createPipelines() {
+    const module = this.device.createShaderModule({ code: compactWGSL });
+    this.countPipeline = this.device.createComputePipeline({
+      layout: 'auto',
+      compute: { module, entryPoint: 'countVisible' },
+    });
+    this.scanPipeline = this.device.createComputePipeline({
+      layout: 'auto',
+      compute: { module, entryPoint: 'scanBlocks' },
+    });
+    this.scatterPipeline = this.device.createComputePipeline({
+      layout: 'auto',
+      compute: { module, entryPoint: 'scatterVisible' },
+    });
+  }
+
+  ensureCapacity(n: number): void {
+    if (n <= this.capacity) return;
+
+    this.keysBuf?.destroy();
+    this.blockSumBuf?.destroy();
+
+    this.capacity = n;
+    this.keysBuf = this.device.createBuffer({
+      size: n * 4,
+      usage: GPUBufferUsage.STORAGE,
+    });
+    this.blockSumBuf = this.device.createBuffer({
+      size: Math.ceil(n / WG_SIZE) * 4,
+      usage: GPUBufferUsage.STORAGE,
+    });
+  }
+
+  /** Per-splat sort keys, written by the preprocess pass. */
+  get keys(): GPUBuffer {
+    return this.keysBuf;
+  }
+
+  /** The visible count, as a sorter input. */
+  get count(): SortCount {
+    return { buffer: this.counters, offset: 4 };
+  }
+
+  /** Encode the compaction of `numElements` keys into `out` (the sorter's input buffers). */
+  compact(encoder: GPUCommandEncoder, numElements: number, out: { keys: GPUBuffer; values: GPUBuffer }): void {
+    const numBlocks = Math.ceil(numElements / WG_SIZE);
+    this.device.queue.writeBuffer(this.uniformBuf, 0, new Uint32Array([numElements, numBlocks, 0, 0]));
+    this.device.queue.writeBuffer(this.counters, 16, new Uint32Array(4));
+
+    const countBG = this.device.createBindGroup({
+      layout: this.countPipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuf } },
+        { binding: 1, resource: { buffer: this.keysBuf } },
+        { binding: 2, resource: { buffer: this.blockSumBuf } },
+        { binding: 5, resource: { buffer: this.counters } },
+      ],
+    });
+    const scanBG = this.device.createBindGroup({
+      layout: this.scanPipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuf } },
+        { binding: 2, resource: { buffer: this.blockSumBuf } },
+        { binding: 5, resource: { buffer: this.counters } },
+      ],
+    });
+    const scatterBG = this.device.createBindGroup({
+      layout: this.scatterPipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: { buffer: this.uniformBuf } },
+        { binding: 1, resource: { buffer: this.keysBuf } },
+        { binding: 2, resource: { buffer: this.blockSumBuf } },
+        { binding: 3, resource: { buffer: out.keys } },
+        { binding: 4, resource: { buffer: out.values } },
+      ],
+    });
+
+    const pass = encoder.beginComputePass();
+    pass.setPipeline(this.countPipeline);
+    pass.setBindGroup(0, countBG);
+    pass.dispatchWorkgroups(numBlocks);
+    pass.setPipeline(this.scanPipeline);
+    pass.setBindGroup(0, scanBG);
+    pass.dispatchWorkgroups(1);
+    pass.setPipeline(this.scatterPipeline);
+    pass.setBindGroup(0, scatterBG);
+    pass.dispatchWorkgroups(numBlocks);
+    pass.end();
+  }
+
+  destroy(): void {
+    this.keysBuf?.destroy();
+    this.blockSumBuf?.destroy();
+    this.uniformBuf.destroy();
+    this.counters.destroy();
+  }
+}
@@ -1,92 +1,60 @@
 // Public API
 export { ZSplat } from './ZSplat';
-export { SplatRenderer } from './core/SplatRenderer';
+export { SplatRenderer, MAX_CROP_VOLUMES } from './core/SplatRenderer';
 export type { SortMethod } from './core/SplatRenderer';
-export { Camera } from './core/Camera';
-export { parsePlyHeader, isCompressedPly } from './loaders/ply-parser';
-export { loadCompressedPly } from './loaders/compressed-ply-loader';
+export { Camera, coordinateSystemUp } from './core/Camera';
+export { SplatEditor, SPLAT_SELECTED, SPLAT_HIDDEN, SPLAT_DELETED } from './core/SplatEditor';
+export { parsePlyHeader, isCompressedPly, isPlyFile } from './loaders/ply-parser';
+export { loadPlyStream } from './loaders/ply-stream-loader';
+export { loadCompressedPly, loadCompressedPlyPacked } from './loaders/compressed-ply-loader';
 export { loadStandardPly } from './loaders/standard-ply-loader';
-export { loadSog, loadSogFromFiles, isSogFile } from './loaders/sog-loader';
+export { loadSog, loadSogFromFiles, loadSogBundle, isSogFile } from './loaders/sog-loader';
 export { loadSpz, isSpzFile } from './loaders/spz-loader';
-// export { loadRad, isRadFile } from './loaders/rad-loader';
+export { loadRad, loadRadStream, isRadFile, isRadData } from './loaders/rad-loader';
+export { loadDotSplat, isDotSplatFile, isDotSplatData } from './loaders/dot-splat-loader';
+export { loadGltfSplats, isGltfFile, isGltfData } from './loaders/gltf-loader';
+export { saveStandardPly } from './writers/standard-ply-writer';
+export { saveCompressedPly } from './writers/compressed-ply-writer';
+export { saveSpz, spzFractionalBitsForBounds } from './writers/spz-writer';
+export { saveSog } from './writers/sog-writer';
+export { saveDotSplat } from './writers/dot-splat-writer';
+export { transformSplatData, rotateShCoeffs, coordinateSystemMatrix } from './splat-transform';
 
 export type {
   SplatData,
+  SplatAttributeArray,
+  PackedSplatData,
   CameraState,
+  CoordinateSystem,
   RendererOptions,
+  SplatLayout,
+  SplatObjectTransform,
+  SplatObjectHandle,
+  SplatSelectionShape,
+  SelectionMode,
+  CropVolume,
+  CropMode,
   ZSplatProps,
   SplatStats,
+  SplatStreamOptions,
+  LoadSplatOptions,
+  LoadOptions,
+  LoadProgress,
   PlyFile,
   PlyElement,
   PlyProperty,
 } from './types';
 
 export type { SogMeta } from './loaders/sog-loader';
+export type { GltfLoadOptions } from './loaders/gltf-loader';
+export type { SpzWriteOptions, SpzWriteResult } from './writers/spz-writer';
+export type { SogWriteOptions, SogWriteResult } from './writers/sog-writer';
 
-// Local imports for the convenience loader
-import { parsePlyHeader, isCompressedPly } from './loaders/ply-parser';
-import { loadCompressedPly } from './loaders/compressed-ply-loader';
-import { loadStandardPly } from './loaders/standard-ply-loader';
-import { loadSog, isSogFile } from './loaders/sog-loader';
-import { loadSpz, isSpzFile } from './loaders/spz-loader';
-// import { loadRad, isRadFile } from './loaders/rad-loader';
-import type { SplatData } from './types';
-
-/**
- * Convenience loader that auto-detects format:
- * - SOG (meta.json URL) → fetches webp textures and decompresses
- * - SPZ (.spz URL or File) → gzip decompress and parse Niantic format
- * - Compressed PLY → decompresses packed data
- * - Standard PLY → reads float properties
- *
- * .ksplat (GaussianSplats3D) is not supported; format is not publicly specified.
- */
-export async function loadSplat(source: string | File): Promise<SplatData> {
-  // SOG: URL pointing to meta.json
-  if (typeof source === 'string' && isSogFile(source)) {
-    return loadSog(source);
-  }
-
-  let buffer: ArrayBuffer;
-  const fileLike =
-    source instanceof File ||
-    (typeof source === 'object' && source !== null && typeof (source as File).arrayBuffer === 'function');
-  if (fileLike) {
-    buffer = await (source as File).arrayBuffer();
-  } else {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10 * 60 * 1000); // 10 min for large files
-    try {
-      const resp = await fetch(source, { signal: controller.signal });
-      clearTimeout(timeoutId);
-      if (!resp.ok) throw new Error(`Failed to fetch ${source}: ${resp.status}`);
-      buffer = await resp.arrayBuffer();
-    } catch (e) {
-      clearTimeout(timeoutId);
-      const isBlob = typeof source === 'string' && source.startsWith('blob:');
-      const hint = isBlob
-        ? ' Pass the File object from the file picker instead of URL.createObjectURL(file).'
-        : ' For large files (e.g. >100MB), open via the file picker and pass the File directly.';
-      const msg =
-        e instanceof Error && e.name === 'AbortError'
-          ? `Request timed out loading ${source}.${hint}`
-          : e instanceof Error
-            ? `${e.message}.${hint}`
-            : 'Failed to load file.';
-      throw new Error(msg);
-    }
-  }
-
-  const name = fileLike ? (source as File).name : (source as string);
-  if (isSpzFile(name)) {
-    return loadSpz(buffer);
-  }
-  const ply = parsePlyHeader(buffer);
-  if (isCompressedPly(ply)) {
-    return loadCompressedPly(buffer, ply);
-  }
-  return loadStandardPly(buffer, ply);
-}
+// Convenience loader
+import { loadSplat, loadPackedCompressedPly } from './loaders/load-splat';
+export { loadSplat, loadPackedCompressedPly };
+export { detectSplatFormat, detectStreamingFormat, probeStreamingSource } from './loaders/detect-format';
+export type { SplatFormat, StreamingFormat } from './loaders/detect-format';
 
 /** @deprecated Use loadSplat instead */
 export const loadPly = loadSplat;
@@ -1,5 +1,33 @@
-import type { PlyFile, PlyElement, SplatData } from '../types';
-import { readTypedValue } from './ply-parser';
+import type { PlyFile, PlyElement, SplatData, SplatAttributeArray, PackedSplatData } from '../types';
+import { readTypedValue, elementOffset, normalizePly, createPlyTypedArray } from './ply-parser';
+import { shDegreeForDim, shDimForDegree } from '../splat-data';
+
+/** SH rest coefficients are stored as bytes over [-COMPRESSED_PLY_SH_RANGE, COMPRESSED_PLY_SH_RANGE]. */
+export const COMPRESSED_PLY_SH_RANGE = 4;
+
+const PACKED_PROPERTIES = ['packed_position', 'packed_rotation', 'packed_scale', 'packed_color'];
+// Chunk table row of PackedSplatData.chunks
+const CHUNK_TABLE_PROPS = [
+  'min_x', 'min_y', 'min_z', 'max_x', 'max_y', 'max_z',
+  'min_scale_x', 'min_scale_y', 'min_scale_z', 'max_scale_x', 'max_scale_y', 'max_scale_z',
+  'min_r', 'min_g', 'min_b', 'max_r', 'max_g', 'max_b',
+] as const;
+
+/**
+ * Incremental decoder for a SuperSplat compressed PLY.
+ * Vertices can only be decoded once the chunk element (their quantization
+ * bounds) has been read; SH comes from a separate element after the vertices.
+ */
+export interface CompressedPlyDecoder {
+  /** Full-size output; bounds grow as vertices are decoded. */
+  data: SplatData;
+  /** Read the whole chunk element at `offset`. Returns the byte offset past it. */
+  readChunks(view: DataView, offset: number): number;
+  /** Decode vertices [start, end); `offset` is the byte offset of vertex `start`. */
+  decodeVertices(view: DataView, offset: number, start: number, end: number): number;
+  /** Dequantize SH for splats [start, end); `offset` is the byte offset of sh row `start`. */
+  decodeSh(view: DataView, offset: number, start: number, end: number): number;
+}
 
 /**
  * Load a SuperSplat-style compressed PLY file into SplatData.
@@ -7,112 +35,233 @@ import { readTypedValue } from './ply-parser';
  * so the GPU receives a uniform float layout.
  */
 export function loadCompressedPly(buffer: ArrayBuffer, ply: PlyFile): SplatData {
+  ({ buffer, ply } = normalizePly(buffer, ply));
+  const decoder = createCompressedPlyDecoder(ply);
+  const view = new DataView(buffer);
+  const count = decoder.data.count;
+
+  decoder.readChunks(view, elementOffset(ply, 'chunk'));
+  decoder.decodeVertices(view, elementOffset(ply, 'vertex'), 0, count);
+  if (decoder.data.shCoeffs) {
+    decoder.decodeSh(view, elementOffset(ply, 'sh'), 0, count);
+  }
+  return decoder.data;
+}
+
+/**
+ * Load a compressed PLY without decompressing it: the packed vertex words, chunk
+ * bounds and quantized SH are returned as-is for SplatRenderer.setPackedScene to
+ * decode on the GPU. Only positions are decoded on the CPU (bounds, CPU sorting).
+ * Extra vertex properties are not kept.
+ */
+export function loadCompressedPlyPacked(buffer: ArrayBuffer, ply: PlyFile): PackedSplatData {
+  ({ buffer, ply } = normalizePly(buffer, ply));
+  const view = new DataView(buffer);
   const chunkEl = ply.elements.find((e) => e.name === 'chunk')!;
   const vertexEl = ply.elements.find((e) => e.name === 'vertex')!;
   const shEl = ply.elements.find((e) => e.name === 'sh');
   const count = vertexEl.count;
   const numChunks = chunkEl.count;
 
-  // ---- read chunk data ----
-  const chunkArrays = readChunkData(buffer, ply, chunkEl);
+  // ---- chunk table; missing color bounds become 0..1 so the lerp is the identity ----
+  const chunkArrays = readChunkData(view, elementOffset(ply, 'chunk'), chunkEl).arrays;
+  const chunks = new Float32Array(numChunks * CHUNK_TABLE_PROPS.length);
+  CHUNK_TABLE_PROPS.forEach((name, k) => {
+    const values = chunkArrays[name];
+    for (let c = 0; c < numChunks; c++) {
+      chunks[c * CHUNK_TABLE_PROPS.length + k] = values ? values[c] : name.startsWith('max_') ? 1 : 0;
+    }
+  });
+
+  // ---- vertex words, in the order position, rotation, scale, color ----
+  const vertexOffset = elementOffset(ply, 'vertex');
+  let vertices: Uint32Array;
+  const isPackedOnly = vertexEl.properties.length === 4 &&
+    vertexEl.properties.every((p, k) => p.name === PACKED_PROPERTIES[k] && p.byteSize === 4);
+  if (isPackedOnly) {
+    // The usual file layout: copy the rows straight out (slice also realigns them)
+    vertices = new Uint32Array(buffer.slice(vertexOffset, vertexOffset + count * 16));
+  } else {
+    vertices = new Uint32Array(count * 4);
+    let offset = vertexOffset;
+    for (let i = 0; i < count; i++) {
+      for (const prop of vertexEl.properties) {
+        const r = readTypedValue(view, offset, prop.type);
+        offset = r.next;
+        const k = PACKED_PROPERTIES.indexOf(prop.name);
+        if (k >= 0) vertices[i * 4 + k] = r.value >>> 0;
+      }
+    }
+  }
 
-  // ---- read vertex packed data ----
-  const vertexArrays = readVertexData(buffer, ply, vertexEl);
+  // ---- positions and bounds ----
+  const positions = new Float32Array(count * 3);
+  const boundsMin: [number, number, number] = [Infinity, Infinity, Infinity];
+  const boundsMax: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < count; i++) {
+    const c = Math.min(i >> 8, numChunks - 1) * CHUNK_TABLE_PROPS.length;
+    const pp = unpack111011(vertices[i * 4]);
+    for (let a = 0; a < 3; a++) {
+      const v = lerp(chunks[c + a], chunks[c + 3 + a], pp[a]);
+      positions[i * 3 + a] = v;
+      boundsMin[a] = Math.min(boundsMin[a], v);
+      boundsMax[a] = Math.max(boundsMax[a], v);
+    }
+  }
 
-  // ---- read SH data (optional) ----
-  const shRaw = shEl ? readShData(buffer, ply, shEl) : null;
+  // ---- SH bytes, re-laid out to bands 1..shDegree ----
+  const srcCoeffs = shEl ? Math.floor(shEl.properties.length / 3) : 0;
+  const shDegree = shDegreeForDim(srcCoeffs);
+  const shDim = shDimForDegree(shDegree);
+  let shCoeffs: Uint8Array | undefined;
+  if (shEl && shDegree > 0) {
+    const numProps = shEl.properties.length;
+    const rows = new Uint8Array(buffer, elementOffset(ply, 'sh'), count * numProps);
+    shCoeffs = new Uint8Array(count * 3 * shDim);
+    for (let i = 0; i < count; i++) {
+      for (let ch = 0; ch < 3; ch++) {
+        const src = i * numProps + ch * srcCoeffs;
+        shCoeffs.set(rows.subarray(src, src + shDim), (i * 3 + ch) * shDim);
+      }
+    }
+  }
+
+  return { count, vertices, chunks, shCoeffs, shDegree, positions, bounds: { min: boundsMin, max: boundsMax } };
+}
+
+/**
+ * Allocate output arrays for a compressed PLY; decoding happens through the returned methods.
+ * They read binary little-endian rows; see normalizePly for other formats.
+ */
+export function createCompressedPlyDecoder(ply: PlyFile): CompressedPlyDecoder {
+  const chunkEl = ply.elements.find((e) => e.name === 'chunk')!;
+  const vertexEl = ply.elements.find((e) => e.name === 'vertex')!;
+  const shEl = ply.elements.find((e) => e.name === 'sh');
+  const count = vertexEl.count;
+  const numChunks = chunkEl.count;
 
-  // ---- decompress ----
   const positions = new Float32Array(count * 3);
   const rotations = new Float32Array(count * 4);
   const scales = new Float32Array(count * 3);
   const colors = new Float32Array(count * 4);
+  // sh element: f_rest_* uchars, channel-major like standard PLY
+  const srcCoeffs = shEl ? Math.floor(shEl.properties.length / 3) : 0; // per channel (3, 8, or 15)
+  const shDegree = shDegreeForDim(srcCoeffs);
+  const shDim = shDimForDegree(shDegree);
+  const shCoeffs = shDegree > 0 ? new Float32Array(count * 3 * shDim) : undefined;
+
+  // Vertex properties besides the packed ones are carried through as extras
+  const extras: Record<string, SplatAttributeArray> = {};
+  const extraArrays = vertexEl.properties.map((p) =>
+    PACKED_PROPERTIES.includes(p.name) ? null : (extras[p.name] = createPlyTypedArray(p.type, count)),
+  );
 
   const boundsMin: [number, number, number] = [Infinity, Infinity, Infinity];
   const boundsMax: [number, number, number] = [-Infinity, -Infinity, -Infinity];
 
-  const hasColorBounds = chunkArrays.min_r !== undefined;
+  const data: SplatData = {
+    count, positions, rotations, scales, colors, shCoeffs, shDegree, extras, bounds: { min: boundsMin, max: boundsMax },
+  };
+
+  let chunkArrays: ChunkArrays | null = null;
+
+  const readChunks = (view: DataView, offset: number): number => {
+    const r = readChunkData(view, offset, chunkEl);
+    chunkArrays = r.arrays;
+    return r.next;
+  };
+
+  const decodeVertices = (view: DataView, offset: number, start: number, end: number): number => {
+    if (!chunkArrays) throw new Error('Compressed PLY: chunk element must be read before vertices');
+    const chunks: ChunkArrays = chunkArrays;
+    const hasColorBounds = chunks.min_r !== undefined;
+    const packed: Record<string, number> = { packed_position: 0, packed_rotation: 0, packed_scale: 0, packed_color: 0 };
+
+    for (let i = start; i < end; i++) {
+      for (let j = 0; j < vertexEl.properties.length; j++) {
+        const prop = vertexEl.properties[j];
+        const r = readTypedValue(view, offset, prop.type);
+        offset = r.next;
+        if (prop.name in packed) {
+          packed[prop.name] = r.value >>> 0;
+        } else {
+          const extra = extraArrays[j];
+          if (extra) extra[i] = r.value;
+        }
+      }
 
-  for (let i = 0; i < count; i++) {
-    const ci = Math.min(i >> 8, numChunks - 1); // chunk index
-
-    // Position: unpack111011 then lerp with chunk bounds
-    const pp = unpack111011(vertexArrays.packed_position[i]);
-    const px = lerp(chunkArrays.min_x[ci], chunkArrays.max_x[ci], pp[0]);
-    const py = lerp(chunkArrays.min_y[ci], chunkArrays.max_y[ci], pp[1]);
-    const pz = lerp(chunkArrays.min_z[ci], chunkArrays.max_z[ci], pp[2]);
-    positions[i * 3] = px;
-    positions[i * 3 + 1] = py;
-    positions[i * 3 + 2] = pz;
-
-    // Rotation: smallest-three quaternion
-    const q = unpackRotation(vertexArrays.packed_rotation[i]);
-    rotations[i * 4] = q[0];     // w
-    rotations[i * 4 + 1] = q[1]; // x
-    rotations[i * 4 + 2] = q[2]; // y
-    rotations[i * 4 + 3] = q[3]; // z
-
-    // Scale: unpack111011 then lerp with chunk bounds, then exp
-    const ss = unpack111011(vertexArrays.packed_scale[i]);
-    const sx = Math.exp(lerp(chunkArrays.min_scale_x[ci], chunkArrays.max_scale_x[ci], ss[0]));
-    const sy = Math.exp(lerp(chunkArrays.min_scale_y[ci], chunkArrays.max_scale_y[ci], ss[1]));
-    const sz = Math.exp(lerp(chunkArrays.min_scale_z[ci], chunkArrays.max_scale_z[ci], ss[2]));
-    scales[i * 3] = sx;
-    scales[i * 3 + 1] = sy;
-    scales[i * 3 + 2] = sz;
-
-    // Color: unpack8888
-    const cc = unpack8888(vertexArrays.packed_color[i]);
-    if (hasColorBounds) {
-      // SuperSplat 2.9+ with per-chunk color quantization
-      colors[i * 4] = lerp(chunkArrays.min_r![ci], chunkArrays.max_r![ci], cc[0]);
-      colors[i * 4 + 1] = lerp(chunkArrays.min_g![ci], chunkArrays.max_g![ci], cc[1]);
-      colors[i * 4 + 2] = lerp(chunkArrays.min_b![ci], chunkArrays.max_b![ci], cc[2]);
-    } else {
-      // Original format: unpack8888 gives [0,1] values that ARE the color directly
-      colors[i * 4] = cc[0];
-      colors[i * 4 + 1] = cc[1];
-      colors[i * 4 + 2] = cc[2];
+      const ci = Math.min(i >> 8, numChunks - 1); // chunk index
+
+      // Position: unpack111011 then lerp with chunk bounds
+      const pp = unpack111011(packed.packed_position);
+      const px = lerp(chunks.min_x[ci], chunks.max_x[ci], pp[0]);
+      const py = lerp(chunks.min_y[ci], chunks.max_y[ci], pp[1]);
+      const pz = lerp(chunks.min_z[ci], chunks.max_z[ci], pp[2]);
+      positions[i * 3] = px;
+      positions[i * 3 + 1] = py;
+      positions[i * 3 + 2] = pz;
+
+      // Rotation: smallest-three quaternion
+      const q = unpackRotation(packed.packed_rotation);
+      rotations[i * 4] = q[0];     // w
+      rotations[i * 4 + 1] = q[1]; // x
+      rotations[i * 4 + 2] = q[2]; // y
+      rotations[i * 4 + 3] = q[3]; // z
+
+      // Scale: unpack111011 then lerp with chunk bounds, then exp
+      const ss = unpack111011(packed.packed_scale);
+      scales[i * 3] = Math.exp(lerp(chunks.min_scale_x[ci], chunks.max_scale_x[ci], ss[0]));
+      scales[i * 3 + 1] = Math.exp(lerp(chunks.min_scale_y[ci], chunks.max_scale_y[ci], ss[1]));
+      scales[i * 3 + 2] = Math.exp(lerp(chunks.min_scale_z[ci], chunks.max_scale_z[ci], ss[2]));
+
+      // Color: unpack8888
+      const cc = unpack8888(packed.packed_color);
+      if (hasColorBounds) {
+        // SuperSplat 2.9+ with per-chunk color quantization
+        colors[i * 4] = lerp(chunks.min_r![ci], chunks.max_r![ci], cc[0]);
+        colors[i * 4 + 1] = lerp(chunks.min_g![ci], chunks.max_g![ci], cc[1]);
+        colors[i * 4 + 2] = lerp(chunks.min_b![ci], chunks.max_b![ci], cc[2]);
+      } else {
+        // Original format: unpack8888 gives [0,1] values that ARE the color directly
+        colors[i * 4] = cc[0];
+        colors[i * 4 + 1] = cc[1];
+        colors[i * 4 + 2] = cc[2];
+      }
+      // Alpha: direct [0,1] from unpack8888
+      colors[i * 4 + 3] = cc[3];
+
+      // Update bounds
+      boundsMin[0] = Math.min(boundsMin[0], px);
+      boundsMin[1] = Math.min(boundsMin[1], py);
+      boundsMin[2] = Math.min(boundsMin[2], pz);
+      boundsMax[0] = Math.max(boundsMax[0], px);
+      boundsMax[1] = Math.max(boundsMax[1], py);
+      boundsMax[2] = Math.max(boundsMax[2], pz);
     }
-    // Alpha: direct [0,1] from unpack8888
-    colors[i * 4 + 3] = cc[3];
-
-    // Update bounds
-    boundsMin[0] = Math.min(boundsMin[0], px);
-    boundsMin[1] = Math.min(boundsMin[1], py);
-    boundsMin[2] = Math.min(boundsMin[2], pz);
-    boundsMax[0] = Math.max(boundsMax[0], px);
-    boundsMax[1] = Math.max(boundsMax[1], py);
-    boundsMax[2] = Math.max(boundsMax[2], pz);
-  }
+    return offset;
+  };
 
-  // ---- Dequantize SH rest coefficients (bands 1-3) ----
-  let shCoeffs: Float32Array | undefined;
-  if (shRaw) {
-    const numProps = shEl!.properties.length;
-    const srcCoeffs = Math.floor(numProps / 3); // coefficients per channel (3, 8, or 15)
-    shCoeffs = new Float32Array(count * 45);
+  // ---- Dequantize SH rest coefficients (bands 1..shDegree) ----
+  const decodeSh = (view: DataView, offset: number, start: number, end: number): number => {
+    if (!shEl) return offset;
+    const numProps = shEl.properties.length;
+    if (!shCoeffs) return offset + (end - start) * numProps;
 
-    for (let i = 0; i < count; i++) {
+    for (let i = start; i < end; i++) {
       for (let ch = 0; ch < 3; ch++) {
-        for (let k = 0; k < 15; k++) {
-          if (k < srcCoeffs) {
-            // File layout: interleaved [ch0_k0, ch1_k0, ch2_k0, ch0_k1, ...]
-            // = per splat: srcCoeffs * 3 bytes, ordered as [R0,R1..R(n-1), G0,G1..G(n-1), B0,B1..B(n-1)]
-            // Actually from the PLY: f_rest_0..f_rest_44 are ordered as all 45 sequential bytes
-            // The PlayCanvas parser reads them as: tmpBuf[(j * 3 + ch) * srcCoeffs + k]
-            // This means the file order is: [R_coeff0, R_coeff1, ..., R_coeff(n-1), G_coeff0, ..., B_coeff(n-1)]
-            const srcIdx = i * numProps + ch * srcCoeffs + k;
-            const val = shRaw[srcIdx];
-            shCoeffs[i * 45 + ch * 15 + k] = val * (8 / 255) - 4;
-          }
-          // else: remains 0 (already zeroed by Float32Array)
+        for (let k = 0; k < shDim; k++) {
+          // The PlayCanvas parser reads them as: tmpBuf[(j * 3 + ch) * srcCoeffs + k]
+          // This means the file order is: [R_coeff0, R_coeff1, ..., R_coeff(n-1), G_coeff0, ..., B_coeff(n-1)]
+          const val = view.getUint8(offset + ch * srcCoeffs + k);
+          shCoeffs[(i * 3 + ch) * shDim + k] = val * (2 * COMPRESSED_PLY_SH_RANGE / 255) - COMPRESSED_PLY_SH_RANGE;
         }
       }
+      offset += numProps;
     }
-  }
+    return offset;
+  };
 
-  return { count, positions, rotations, scales, colors, shCoeffs, bounds: { min: boundsMin, max: boundsMax } };
+  return { data, readChunks, decodeVertices, decodeSh };
 }
 
 // ---- chunk data reader ----
@@ -126,18 +275,11 @@ interface ChunkArrays {
   max_r?: Float32Array; max_g?: Float32Array; max_b?: Float32Array;
 }
 
-function readChunkData(buffer: ArrayBuffer, ply: PlyFile, chunkEl: typeof ply.elements[0]): ChunkArrays {
-  const view = new DataView(buffer);
-  let offset = ply.headerByteLength;
-
-  // Skip elements before chunk
-  for (const el of ply.elements) {
-    if (el.name === 'chunk') break;
-    let stride = 0;
-    for (const p of el.properties) stride += p.byteSize;
-    offset += stride * el.count;
-  }
-
+function readChunkData(
+  view: DataView,
+  offset: number,
+  chunkEl: PlyElement,
+): { arrays: ChunkArrays; next: number } {
   const n = chunkEl.count;
   const propNames = new Set(chunkEl.properties.map(p => p.name));
   const result: Record<string, Float32Array> = {};
@@ -168,82 +310,7 @@ function readChunkData(buffer: ArrayBuffer, ply: PlyFile, chunkEl: typeof ply.el
     if (!result[name]) throw new Error(`Missing required chunk property: ${name}`);
   }
 
-  return result as unknown as ChunkArrays;
-}
-
-// ---- vertex data reader ----
-
-interface VertexArrays {
-  packed_position: Uint32Array;
-  packed_rotation: Uint32Array;
-  packed_scale: Uint32Array;
-  packed_color: Uint32Array;
-}
-
-function readVertexData(buffer: ArrayBuffer, ply: PlyFile, vertexEl: typeof ply.elements[0]): VertexArrays {
-  const view = new DataView(buffer);
-  let offset = ply.headerByteLength;
-
-  // Skip elements before vertex
-  for (const el of ply.elements) {
-    if (el.name === 'vertex') break;
-    let stride = 0;
-    for (const p of el.properties) stride += p.byteSize;
-    offset += stride * el.count;
-  }
-
-  const n = vertexEl.count;
-  const packed_position = new Uint32Array(n);
-  const packed_rotation = new Uint32Array(n);
-  const packed_scale = new Uint32Array(n);
-  const packed_color = new Uint32Array(n);
-  const propSet = new Set(['packed_position', 'packed_rotation', 'packed_scale', 'packed_color']);
-
-  for (let i = 0; i < n; i++) {
-    for (const prop of vertexEl.properties) {
-      const r = readTypedValue(view, offset, prop.type);
-      offset = r.next;
-      if (propSet.has(prop.name)) {
-        const val = r.value >>> 0;
-        switch (prop.name) {
-          case 'packed_position': packed_position[i] = val; break;
-          case 'packed_rotation': packed_rotation[i] = val; break;
-          case 'packed_scale': packed_scale[i] = val; break;
-          case 'packed_color': packed_color[i] = val; break;
-        }
-      }
-    }
-  }
-
-  return { packed_position, packed_rotation, packed_scale, packed_color };
-}
-
-// ---- SH data reader ----
-
-function readShData(buffer: ArrayBuffer, ply: PlyFile, shEl: PlyElement): Uint8Array {
-  const view = new DataView(buffer);
-  let offset = ply.headerByteLength;
-
-  // Skip elements before sh
-  for (const el of ply.elements) {
-    if (el.name === 'sh') break;
-    let stride = 0;
-    for (const p of el.properties) stride += p.byteSize;
-    offset += stride * el.count;
-  }
-
-  const n = shEl.count;
-  const numProps = shEl.properties.length;
-  const result = new Uint8Array(n * numProps);
-
-  for (let i = 0; i < n; i++) {
-    for (let j = 0; j < numProps; j++) {
-      result[i * numProps + j] = view.getUint8(offset);
-      offset += 1;
-    }
-  }
-
-  return result;
+  return { arrays: result as unknown as ChunkArrays, next: offset };
 }
 
 // ---- bit unpacking ----
@@ -0,0 +1,113 @@
+import type { SplatData, LoadOptions } from '../types';
+import { detectSplatFormat } from './detect-format';
+import { parsePlyHeader, isCompressedPly, elementOffset, elementStride, normalizePly } from './ply-parser';
+import { createCompressedPlyDecoder } from './compressed-ply-loader';
+import { createStandardPlyDecoder } from './standard-ply-loader';
+import { loadSog, loadSogBundle } from './sog-loader';
+import { loadSpz } from './spz-loader';
+import { loadRad } from './rad-loader';
+import { createDotSplatDecoder } from './dot-splat-loader';
+import { loadGltfSplats } from './gltf-loader';
+import { decodeInSlices, readStreamToBuffer } from './progress';
+
+/**
+ * Fetch / read `source`, detect its format and decode it on the calling thread.
+ * Backs loadSplat, both directly and inside the loader worker.
+ */
+export async function decodeSplat(source: string | File, options?: LoadOptions): Promise<SplatData> {
+  const fileLike = isFileLike(source);
+  const buffer = await readSource(source, options);
+  const name = fileLike ? (source as File).name : (source as string);
+
+  switch (await detectSplatFormat(buffer, name)) {
+    case 'sog-meta':
+      if (fileLike) {
+        throw new Error('SOG: a meta.json File cannot reach its textures; use loadSogFromFiles with all files');
+      }
+      return loadSog(source as string, options);
+    case 'sog':
+      return loadSogBundle(buffer, options);
+    case 'spz':
+      return loadSpz(buffer, options);
+    case 'rad':
+      return loadRad(buffer, options);
+    case 'gltf':
+      return loadGltfSplats(buffer, { ...options, baseUrl: fileLike ? undefined : (source as string) });
+    case 'splat': {
+      const decoder = createDotSplatDecoder(buffer);
+      await decodeInSlices(decoder.data.count, decoder.decode, options);
+      return decoder.data;
+    }
+    case 'ply':
+      return decodePly(buffer, options);
+  }
+}
+
+/** Fetch a URL or read a File whole, reporting 'download' progress. */
+export async function readSource(source: string | File, options?: LoadOptions): Promise<ArrayBuffer> {
+  return isFileLike(source)
+    ? readStreamToBuffer((source as File).stream(), (source as File).size, options)
+    : fetchBuffer(source as string, options);
+}
+
+// ---- internal helpers ----
+
+function isFileLike(source: string | File): boolean {
+  return source instanceof File ||
+    (typeof source === 'object' && source !== null && typeof (source as File).arrayBuffer === 'function');
+}
+
+/** loadStandardPly / loadCompressedPly, decoded in slices for progress and cancellation. */
+async function decodePly(file: ArrayBuffer, options?: LoadOptions): Promise<SplatData> {
+  // ASCII / big-endian data is rewritten to binary little-endian first
+  const { buffer, ply } = normalizePly(file, parsePlyHeader(file));
+  const view = new DataView(buffer);
+  const vertexEl = ply.elements.find((e) => e.name === 'vertex');
+  if (!vertexEl) throw new Error('No vertex element found in PLY');
+  const vertexOffset = elementOffset(ply, 'vertex');
+  const vertexStride = elementStride(vertexEl);
+
+  if (isCompressedPly(ply)) {
+    const decoder = createCompressedPlyDecoder(ply);
+    decoder.readChunks(view, elementOffset(ply, 'chunk'));
+    await decodeInSlices(vertexEl.count, (start, end) => {
+      decoder.decodeVertices(view, vertexOffset + start * vertexStride, start, end);
+    }, options);
+    const shEl = ply.elements.find((e) => e.name === 'sh');
+    if (shEl) {
+      const shOffset = elementOffset(ply, 'sh');
+      const shStride = elementStride(shEl);
+      // Vertices already account for the 'decode' progress
+      await decodeInSlices(shEl.count, (start, end) => {
+        decoder.decodeSh(view, shOffset + start * shStride, start, end);
+      }, { signal: options?.signal });
+    }
+    return decoder.data;
+  }
+
+  const decoder = createStandardPlyDecoder(ply);
+  await decodeInSlices(vertexEl.count, (start, end) => {
+    decoder.decode(view, vertexOffset + start * vertexStride, start, end);
+  }, options);
+  return decoder.data;
+}
+
+async function fetchBuffer(url: string, options?: LoadOptions): Promise<ArrayBuffer> {
+  try {
+    const resp = options?.response ?? await fetch(url, { signal: options?.signal });
+    if (!resp.ok) throw new Error(`Failed to fetch ${url}: ${resp.status}`);
+    if (!resp.body) return await resp.arrayBuffer();
+    // Content-Length counts encoded bytes when the response is compressed in transit
+    const total = resp.headers.get('Content-Encoding') ? 0 : Number(resp.headers.get('Content-Length')) || 0;
+    return await readStreamToBuffer(resp.body, total, options);
+  } catch (e) {
+    // Cancellation is not a failure worth a hint
+    if (options?.signal?.aborted) throw e;
+    const isBlob = url.startsWith('blob:');
+    const hint = isBlob
+      ? ' Pass the File object from the file picker instead of URL.createObjectURL(file).'
+      : ' For large files (e.g. >100MB), open via the file picker and pass the File directly.';
+    const msg = e instanceof Error ? `${e.message}.${hint}` : 'Failed to load file.';
+    throw new Error(msg);
+  }
+}
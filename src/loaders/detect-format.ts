@@ -0,0 +1,276 @@
+import { isRadData } from './rad-loader';
+import { isGltfData } from './gltf-loader';
+import { isDotSplatFile, isDotSplatData } from './dot-splat-loader';
+import { isZipData } from './zip-reader';
+import { parsePlyHeader, isCompressedPly, findEndHeader } from './ply-parser';
+
+/** Format ids returned by detectSplatFormat. */
+export type SplatFormat =
+  | 'ply'       // standard or compressed PLY (decided by the header)
+  | 'spz'       // Niantic SPZ (gzipped)
+  | 'rad'       // Spark RAD file or bare chunk
+  | 'gltf'      // GLB or .gltf JSON (KHR_gaussian_splatting)
+  | 'sog'       // bundled SOG (zip of meta.json + textures)
+  | 'sog-meta'  // SOG meta.json; textures live next to it
+  | 'splat';    // antimatter15 .splat (headerless)
+
+// The gunzipped SPZ header only needs its magic
+const SPZ_MAGIC = 'NGSP';
+// Compressed bytes fed to the gzip sniffer; far more than needed for 4 output bytes
+const GZIP_SNIFF_BYTES = 64 * 1024;
+// Bytes read by detectStreamingFormat: a PLY header (loadPlyStream's limit) or RAD magic
+const STREAM_SNIFF_BYTES = 65536;
+
+interface SniffContext {
+  bytes: Uint8Array;
+  buffer: ArrayBuffer;
+  /** Parsed JSON document, or null if the bytes are not a JSON object. */
+  json(): Record<string, unknown> | null;
+}
+
+interface FormatSniffer {
+  format: SplatFormat;
+  /** Shown in the "tried" list when nothing matches. */
+  label: string;
+  matches(ctx: SniffContext): boolean | Promise<boolean>;
+}
+
+/** Signature checks, in the order they are tried. */
+const SNIFFERS: FormatSniffer[] = [
+  {
+    format: 'ply',
+    label: 'PLY ("ply\\n")',
+    matches: ({ bytes }) => startsWith(bytes, 'ply\n') || startsWith(bytes, 'ply\r\n'),
+  },
+  {
+    format: 'spz',
+    label: 'SPZ (gzip + "NGSP")',
+    matches: async ({ bytes }) =>
+      bytes[0] === 0x1f && bytes[1] === 0x8b && startsWith(await gunzipPrefix(bytes, SPZ_MAGIC.length), SPZ_MAGIC),
+  },
+  {
+    format: 'rad',
+    label: 'RAD ("RAD0" / "RADC")',
+    matches: ({ buffer }) => isRadData(buffer),
+  },
+  {
+    format: 'gltf',
+    label: 'glTF (GLB "glTF" or JSON with "asset")',
+    matches: ({ buffer, json }) => isGltfData(buffer) || !!json()?.asset,
+  },
+  {
+    format: 'sog',
+    label: 'SOG bundle (zip "PK\\x03\\x04")',
+    matches: ({ buffer }) => isZipData(buffer),
+  },
+  {
+    format: 'sog-meta',
+    label: 'SOG meta.json ("means" / "quats")',
+    matches: ({ json }) => {
+      const doc = json();
+      return !!doc && 'means' in doc && 'quats' in doc;
+    },
+  },
+];
+
+/**
+ * Identify a splat file from its leading bytes. Formats with a signature are
+ * matched on content alone, so extensionless URLs and renamed files work;
+ * `nameHint` is only consulted for headerless .splat data.
+ * Throws an error listing every format tried if nothing matches.
+ */
+export async function detectSplatFormat(bytes: ArrayBuffer | Uint8Array, nameHint?: string): Promise<SplatFormat> {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  const buffer =
+    bytes instanceof Uint8Array
+      ? (bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength
+        ? bytes.buffer as ArrayBuffer
+        : bytes.slice().buffer)
+      : bytes;
+
+  let parsed: Record<string, unknown> | null | undefined;
+  const ctx: SniffContext = {
+    bytes: view,
+    buffer,
+    json: () => {
+      if (parsed === undefined) parsed = parseJsonObject(view);
+      return parsed;
+    },
+  };
+
+  for (const sniffer of SNIFFERS) {
+    if (await sniffer.matches(ctx)) return sniffer.format;
+  }
+
+  // .splat has no header: trust the extension, else the record-layout heuristic
+  if ((nameHint && isDotSplatFile(nameHint)) || isDotSplatData(buffer)) return 'splat';
+
+  const tried = [...SNIFFERS.map((s) => s.label), '.splat (extension or 32-byte records)'];
+  const subject = nameHint ? ` "${nameHint}"` : '';
+  throw new Error(`Unrecognized splat format${subject}. Tried: ${tried.join(', ')}.`);
+}
+
+/** Formats loadPlyStream, loadPackedCompressedPly or loadRadStream can take. */
+export type StreamingFormat = 'ply' | 'compressed-ply' | 'rad';
+
+/**
+ * Identify a source that loadPlyStream or loadRadStream can stream, from its first
+ * bytes alone ('ply' or RAD magic), so extensionless and presigned URLs stream too.
+ * PLY headers are parsed to tell compressed PLY (which loadPackedCompressedPly can keep
+ * packed) apart. Returns null for every other format. URLs are probed with a Range
+ * request whose body is dropped once the header is read, so servers that ignore Range
+ * cost at most STREAM_SNIFF_BYTES. To load the source afterwards without a second
+ * request, use probeStreamingSource.
+ */
+export async function detectStreamingFormat(
+  source: string | File,
+  signal?: AbortSignal,
+): Promise<StreamingFormat | null> {
+  if (typeof source !== 'string') {
+    return streamingFormatOf(new Uint8Array(await source.slice(0, STREAM_SNIFF_BYTES).arrayBuffer()));
+  }
+  const resp = await fetch(source, { headers: { Range: `bytes=0-${STREAM_SNIFF_BYTES - 1}` }, signal });
+  if (!resp.ok) throw new Error(`Failed to fetch ${source}: ${resp.status}`);
+  if (!resp.body) return null;
+  const reader = resp.body.getReader();
+  try {
+    return streamingFormatOf(concatBytes(await readHeadChunks(reader)));
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * detectStreamingFormat for a source that will be loaded next. A URL is requested once,
+ * in full: after its first bytes are sniffed, `response` replays the whole body (sniffed
+ * bytes included) for the loaders' `response` option, so no format is fetched twice.
+ * `response` is null for Files and for RAD, which loadRadStream reads in ranges; the
+ * probe's body is cancelled then. Cancel `response.body` if it goes unused.
+ */
+export async function probeStreamingSource(
+  source: string | File,
+  signal?: AbortSignal,
+): Promise<{ format: StreamingFormat | null; response: Response | null }> {
+  if (typeof source !== 'string') return { format: await detectStreamingFormat(source), response: null };
+  const resp = await fetch(source, { signal });
+  if (!resp.ok) throw new Error(`Failed to fetch ${source}: ${resp.status}`);
+  if (!resp.body) return { format: null, response: resp };
+
+  const reader = resp.body.getReader();
+  let chunks: Uint8Array[];
+  try {
+    chunks = await readHeadChunks(reader);
+  } catch (e) {
+    reader.cancel().catch(() => {});
+    throw e;
+  }
+  const format = streamingFormatOf(concatBytes(chunks));
+  if (format === 'rad') {
+    reader.cancel().catch(() => {});
+    return { format, response: null };
+  }
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  const response = new Response(body, { status: resp.status, statusText: resp.statusText, headers: resp.headers });
+  return { format, response };
+}
+
+// ---- internal helpers ----
+
+function streamingFormatOf(head: Uint8Array): StreamingFormat | null {
+  if (startsWith(head, 'ply\n') || startsWith(head, 'ply\r\n')) {
+    const headerLength = findEndHeader(head);
+    // A header that does not fit is left for the loader to report
+    if (headerLength < 0) return 'ply';
+    return isCompressedPly(parsePlyHeader(head.slice(0, headerLength).buffer)) ? 'compressed-ply' : 'ply';
+  }
+  if (isRadData(head.slice().buffer)) return 'rad';
+  return null;
+}
+
+/**
+ * Chunks read from `reader` until they hold a complete PLY header, 8 bytes of anything
+ * else, or STREAM_SNIFF_BYTES. Chunks are kept whole, so they may run past that.
+ */
+async function readHeadChunks(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<Uint8Array[]> {
+  const chunks: Uint8Array[] = [];
+  let filled = 0;
+  while (filled < STREAM_SNIFF_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    filled += value.length;
+    // Magic checks need 8 bytes; only a PLY header is worth reading further
+    if (filled >= 8) {
+      const head = concatBytes(chunks);
+      if (!startsWith(head, 'ply') || findEndHeader(head) >= 0) break;
+    }
+  }
+  return chunks;
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0];
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let at = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, at);
+    at += chunk.length;
+  }
+  return out;
+}
+
+function startsWith(bytes: Uint8Array, signature: string): boolean {
+  if (bytes.length < signature.length) return false;
+  for (let i = 0; i < signature.length; i++) {
+    if (bytes[i] !== signature.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+/** First `n` decompressed bytes of a gzip stream (fewer if it is short or corrupt). */
+async function gunzipPrefix(bytes: Uint8Array, n: number): Promise<Uint8Array> {
+  const reader = new Blob([bytes.slice(0, GZIP_SNIFF_BYTES)]).stream()
+    .pipeThrough(new DecompressionStream('gzip'))
+    .getReader();
+  const out = new Uint8Array(n);
+  let filled = 0;
+  try {
+    while (filled < n) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const take = Math.min(n - filled, value.length);
+      out.set(value.subarray(0, take), filled);
+      filled += take;
+    }
+  } catch {
+    // Not valid gzip: report what was decoded so far
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return out.subarray(0, filled);
+}
+
+function parseJsonObject(bytes: Uint8Array): Record<string, unknown> | null {
+  // Skip whitespace (and a UTF-8 BOM) to the first significant byte
+  let i = bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf ? 3 : 0;
+  while (i < bytes.length && (bytes[i] === 0x20 || bytes[i] === 0x09 || bytes[i] === 0x0a || bytes[i] === 0x0d)) i++;
+  if (bytes[i] !== 0x7b) return null; // '{'
+  try {
+    const doc = JSON.parse(new TextDecoder().decode(bytes.subarray(i)));
+    return doc && typeof doc === 'object' && !Array.isArray(doc) ? doc : null;
+  } catch {
+    return null;
+  }
+}
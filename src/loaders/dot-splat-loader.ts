@@ -0,0 +1,117 @@
+import type { SplatData } from '../types';
+
+/** Bytes per splat: position f32×3, scale f32×3, RGBA u8×4, rotation u8×4. */
+export const DOT_SPLAT_STRIDE = 32;
+// Records sampled by isDotSplatData
+const SNIFF_RECORDS = 64;
+// Larger scales are treated as "not a .splat file" by the sniffer
+const SNIFF_MAX_SCALE = 1e4;
+
+/**
+ * Detect whether a filename or URL looks like an antimatter15 .splat file.
+ */
+export function isDotSplatFile(name: string): boolean {
+  return name.toLowerCase().endsWith('.splat');
+}
+
+/**
+ * Heuristic detection for headerless .splat data: the size must be a multiple of
+ * 32 bytes and a sample of records must decode to finite positions, positive
+ * finite scales and non-zero quaternions. Buffers starting with "ply" are rejected.
+ */
+export function isDotSplatData(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength === 0 || buffer.byteLength % DOT_SPLAT_STRIDE !== 0) return false;
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0x70 && bytes[1] === 0x6c && bytes[2] === 0x79) return false; // "ply"
+
+  const view = new DataView(buffer);
+  const count = buffer.byteLength / DOT_SPLAT_STRIDE;
+  const step = Math.max(1, Math.floor(count / SNIFF_RECORDS));
+  for (let i = 0; i < count; i += step) {
+    const o = i * DOT_SPLAT_STRIDE;
+    for (let k = 0; k < 3; k++) {
+      if (!Number.isFinite(view.getFloat32(o + k * 4, true))) return false;
+      const s = view.getFloat32(o + 12 + k * 4, true);
+      if (!(s >= 0 && s < SNIFF_MAX_SCALE)) return false;
+    }
+    let qlen = 0;
+    for (let k = 0; k < 4; k++) {
+      const c = bytes[o + 28 + k] - 128;
+      qlen += c * c;
+    }
+    if (qlen === 0) return false;
+  }
+  return true;
+}
+
+/**
+ * Load an antimatter15 .splat file (32 bytes per splat, no header).
+ *   position → float32 x, y, z
+ *   scale    → float32, linear
+ *   color    → uint8 r, g, b (linear color) + a (sigmoid opacity)
+ *   rotation → uint8 (w, x, y, z), q * 128 + 128
+ * The format carries no spherical harmonics.
+ */
+export function loadDotSplat(buffer: ArrayBuffer): SplatData {
+  const decoder = createDotSplatDecoder(buffer);
+  decoder.decode(0, decoder.data.count);
+  return decoder.data;
+}
+
+/** Validate the size of a .splat buffer and allocate its output; decode ranges with `decode`. */
+export function createDotSplatDecoder(buffer: ArrayBuffer): { data: SplatData; decode(start: number, end: number): void } {
+  if (buffer.byteLength % DOT_SPLAT_STRIDE !== 0) {
+    throw new Error(`SPLAT: file size ${buffer.byteLength} is not a multiple of ${DOT_SPLAT_STRIDE} bytes`);
+  }
+  const count = buffer.byteLength / DOT_SPLAT_STRIDE;
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  const positions = new Float32Array(count * 3);
+  const rotations = new Float32Array(count * 4);
+  const scales = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 4);
+
+  const boundsMin: [number, number, number] = [Infinity, Infinity, Infinity];
+  const boundsMax: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+
+  const data: SplatData = {
+    count, positions, rotations, scales, colors, shDegree: 0, extras: {},
+    bounds: { min: boundsMin, max: boundsMax },
+  };
+
+  const decode = (start: number, end: number): void => {
+    for (let i = start; i < end; i++) {
+      const o = i * DOT_SPLAT_STRIDE;
+
+      for (let k = 0; k < 3; k++) {
+        const p = view.getFloat32(o + k * 4, true);
+        positions[i * 3 + k] = p;
+        boundsMin[k] = Math.min(boundsMin[k], p);
+        boundsMax[k] = Math.max(boundsMax[k], p);
+        scales[i * 3 + k] = view.getFloat32(o + 12 + k * 4, true);
+      }
+
+      for (let k = 0; k < 4; k++) {
+        colors[i * 4 + k] = bytes[o + 24 + k] / 255;
+      }
+
+      // Rotation: (w, x, y, z) bytes, normalized after dequantization
+      const w = (bytes[o + 28] - 128) / 128;
+      const x = (bytes[o + 29] - 128) / 128;
+      const y = (bytes[o + 30] - 128) / 128;
+      const z = (bytes[o + 31] - 128) / 128;
+      const len = Math.hypot(w, x, y, z);
+      if (len > 0) {
+        rotations[i * 4] = w / len;
+        rotations[i * 4 + 1] = x / len;
+        rotations[i * 4 + 2] = y / len;
+        rotations[i * 4 + 3] = z / len;
+      } else {
+        rotations[i * 4] = 1;
+      }
+    }
+  };
+
+  return { data, decode };
+}
@@ -0,0 +1,457 @@
+import type { SplatData, LoadOptions } from '../types';
+import { decodeInSlices } from './progress';
+import { decomposeMatrix, quatMul, rotateShCoeffs } from '../splat-transform';
+
+const GLB_MAGIC = 0x46546c67; // "glTF" LE
+const GLB_CHUNK_JSON = 0x4e4f534a; // "JSON"
+const GLB_CHUNK_BIN = 0x004e4942; // "BIN\0"
+const EXTENSION = 'KHR_gaussian_splatting';
+const MODE_POINTS = 0;
+const SH_C0 = 0.28209479177387814;
+
+// Attribute names; the `_ROTATION` / `_SCALE` spellings are from the pre-KHR draft
+const ATTR_ROTATION = [`${EXTENSION}:ROTATION`, '_ROTATION'];
+const ATTR_SCALE = [`${EXTENSION}:SCALE`, '_SCALE'];
+const ATTR_OPACITY = [`${EXTENSION}:OPACITY`, '_OPACITY'];
+const ATTR_SH_DC = `${EXTENSION}:SH_DEGREE_0_COEF_0`;
+const ATTR_SH_PREFIX = `${EXTENSION}:SH_DEGREE_`;
+// Attributes decoded into the core SplatData arrays; everything else goes to extras
+const CORE_ATTRIBUTES = new Set(['POSITION', 'COLOR_0', ...ATTR_ROTATION, ...ATTR_SCALE, ...ATTR_OPACITY]);
+
+const COMPONENTS: Record<string, number> = { SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT4: 16 };
+
+export interface GltfLoadOptions extends LoadOptions {
+  /** URL the .gltf was fetched from; relative buffer URIs are resolved against it. */
+  baseUrl?: string;
+  /** Fetch an external buffer. Defaults to fetch() relative to baseUrl. */
+  resolveUri?: (uri: string) => Promise<ArrayBuffer>;
+}
+
+/**
+ * Detect whether a filename or URL looks like a glTF asset.
+ */
+export function isGltfFile(name: string): boolean {
+  const lower = name.toLowerCase();
+  return lower.endsWith('.glb') || lower.endsWith('.gltf');
+}
+
+/** Detect binary glTF by its leading 'glTF' magic. */
+export function isGltfData(buffer: ArrayBuffer): boolean {
+  return buffer.byteLength >= 12 && new DataView(buffer).getUint32(0, true) === GLB_MAGIC;
+}
+
+/**
+ * Load Gaussian splats from a glTF 2.0 asset (GLB or JSON) using KHR_gaussian_splatting.
+ * Every POINTS primitive carrying the extension in the default scene is read
+ * and transformed by its node's world matrix:
+ *   POSITION                          → positions (float or quantized, normalized or not)
+ *   KHR_gaussian_splatting:ROTATION   → (x, y, z, w) unit quaternion
+ *   KHR_gaussian_splatting:SCALE      → linear scale
+ *   KHR_gaussian_splatting:OPACITY    → linear opacity (falls back to COLOR_0 alpha)
+ *   KHR_gaussian_splatting:SH_DEGREE_l_COEF_n → SH, degree 0 becomes the base color
+ *   COLOR_0                           → base color when SH degree 0 is absent
+ *   any other attribute               → extras, by attribute name (zeros for primitives without it)
+ * Node scale is applied per axis to splat scales (exact only for uniform scale);
+ * SH coefficients are rotated with the node's rotation; shDegree is the highest band
+ * present in any primitive.
+ */
+export async function loadGltfSplats(buffer: ArrayBuffer, options?: GltfLoadOptions): Promise<SplatData> {
+  const { json, bin } = parseContainer(buffer);
+  if (json.asset?.version?.split('.')[0] !== '2') {
+    throw new Error(`glTF: unsupported asset version ${json.asset?.version}`);
+  }
+
+  const buffers = await Promise.all(
+    (json.buffers ?? []).map((b, i) => loadBuffer(b, i, bin, options)),
+  );
+
+  // ---- collect splat primitives with their world matrices ----
+  const primitives: { primitive: GltfPrimitive; matrix: number[] }[] = [];
+  const visit = (nodeIndex: number, parent: number[]) => {
+    const node = json.nodes?.[nodeIndex];
+    if (!node) throw new Error(`glTF: missing node ${nodeIndex}`);
+    const matrix = mat4Mul(parent, nodeMatrix(node));
+    if (node.mesh !== undefined) {
+      for (const primitive of json.meshes?.[node.mesh]?.primitives ?? []) {
+        if (primitive.extensions?.[EXTENSION] && (primitive.mode ?? 4) === MODE_POINTS) {
+          primitives.push({ primitive, matrix });
+        }
+      }
+    }
+    for (const child of node.children ?? []) visit(child, matrix);
+  };
+  const scene = json.scenes?.[json.scene ?? 0];
+  const roots = scene ? scene.nodes ?? [] : (json.nodes ?? []).map((_, i) => i);
+  for (const root of roots) visit(root, IDENTITY);
+
+  if (primitives.length === 0) {
+    throw new Error(`glTF: no POINTS primitives with ${EXTENSION} found`);
+  }
+
+  // ---- read accessors ----
+  const read = (index: number | undefined): ReadAccessor | null =>
+    index === undefined ? null : readAccessor(json, buffers, index);
+  const pick = (attributes: Record<string, number>, names: string[]) => {
+    for (const name of names) if (attributes[name] !== undefined) return attributes[name];
+    return undefined;
+  };
+
+  const parts = primitives.map(({ primitive, matrix }) => {
+    const attrs = primitive.attributes;
+    const position = read(attrs.POSITION);
+    if (!position) throw new Error('glTF: splat primitive has no POSITION');
+    const sh: (ReadAccessor | null)[] = [];
+    for (let l = 1; l <= 3; l++) {
+      for (let n = 0; n < 2 * l + 1; n++) {
+        sh.push(read(attrs[`${EXTENSION}:SH_DEGREE_${l}_COEF_${n}`]));
+      }
+    }
+    const extras: Record<string, ReadAccessor> = {};
+    for (const name of Object.keys(attrs)) {
+      if (CORE_ATTRIBUTES.has(name) || name.startsWith(ATTR_SH_PREFIX)) continue;
+      extras[name] = read(attrs[name])!;
+    }
+    return {
+      matrix,
+      position,
+      rotation: read(pick(attrs, ATTR_ROTATION)),
+      scale: read(pick(attrs, ATTR_SCALE)),
+      opacity: read(pick(attrs, ATTR_OPACITY)),
+      shDc: read(attrs[ATTR_SH_DC]),
+      color: read(attrs.COLOR_0),
+      sh,
+      extras,
+    };
+  });
+
+  const count = parts.reduce((n, p) => n + p.position.count, 0);
+  // Highest band with any coefficient: band l owns sh[l*l - 1 .. l*l + 2l - 1]
+  let shDegree = 0;
+  for (const part of parts) {
+    part.sh.forEach((acc, k) => {
+      if (acc) shDegree = Math.max(shDegree, Math.floor(Math.sqrt(k + 1)));
+    });
+  }
+  const shDim = (shDegree + 1) * (shDegree + 1) - 1;
+  const positions = new Float32Array(count * 3);
+  const rotations = new Float32Array(count * 4);
+  const scales = new Float32Array(count * 3);
+  const colors = new Float32Array(count * 4);
+  const shCoeffs = shDim > 0 ? new Float32Array(count * 3 * shDim) : undefined;
+
+  const extras: Record<string, Float32Array> = {};
+  const extraComponents: Record<string, number> = {};
+  for (const part of parts) {
+    for (const [name, acc] of Object.entries(part.extras)) extraComponents[name] ??= acc.components;
+  }
+  for (const [name, components] of Object.entries(extraComponents)) {
+    extras[name] = new Float32Array(count * components);
+  }
+
+  const boundsMin: [number, number, number] = [Infinity, Infinity, Infinity];
+  const boundsMax: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+
+  let base = 0;
+  for (const part of parts) {
+    const n = part.position.count;
+    const m = part.matrix;
+    const { rotation: nodeRot, scale: nodeScale, mirrored } = decomposeMatrix(m);
+
+    const partBase = base;
+    await decodeInSlices(n, (start, end) => {
+      for (let i = start; i < end; i++) {
+        const o = partBase + i;
+
+        // Position: world = M * p
+        const px = part.position.get(i, 0);
+        const py = part.position.get(i, 1);
+        const pz = part.position.get(i, 2);
+        const wx = m[0] * px + m[4] * py + m[8] * pz + m[12];
+        const wy = m[1] * px + m[5] * py + m[9] * pz + m[13];
+        const wz = m[2] * px + m[6] * py + m[10] * pz + m[14];
+        positions[o * 3] = wx;
+        positions[o * 3 + 1] = wy;
+        positions[o * 3 + 2] = wz;
+        boundsMin[0] = Math.min(boundsMin[0], wx);
+        boundsMin[1] = Math.min(boundsMin[1], wy);
+        boundsMin[2] = Math.min(boundsMin[2], wz);
+        boundsMax[0] = Math.max(boundsMax[0], wx);
+        boundsMax[1] = Math.max(boundsMax[1], wy);
+        boundsMax[2] = Math.max(boundsMax[2], wz);
+
+        // Rotation: glTF (x, y, z, w) → node rotation * splat rotation, stored (w, x, y, z)
+        let q: [number, number, number, number] = [1, 0, 0, 0];
+        if (part.rotation) {
+          q = [part.rotation.get(i, 3), part.rotation.get(i, 0), part.rotation.get(i, 1), part.rotation.get(i, 2)];
+        }
+        // The node's mirror is folded into x: conjugating by it negates y and z
+        if (mirrored) q = [q[0], q[1], -q[2], -q[3]];
+        q = quatMul(nodeRot, q);
+        const len = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+        rotations[o * 4] = q[0] / len;
+        rotations[o * 4 + 1] = q[1] / len;
+        rotations[o * 4 + 2] = q[2] / len;
+        rotations[o * 4 + 3] = q[3] / len;
+
+        // Scale: linear, times node scale
+        for (let k = 0; k < 3; k++) {
+          scales[o * 3 + k] = (part.scale ? part.scale.get(i, k) : 1) * nodeScale[k];
+        }
+
+        // Color: SH degree 0 → linear color, else COLOR_0
+        for (let c = 0; c < 3; c++) {
+          let v = 1;
+          if (part.shDc) v = 0.5 + SH_C0 * part.shDc.get(i, c);
+          else if (part.color) v = part.color.get(i, c);
+          colors[o * 4 + c] = Math.max(0, Math.min(1, v));
+        }
+        let alpha = 1;
+        if (part.opacity) alpha = part.opacity.get(i, 0);
+        else if (part.color && part.color.components === 4) alpha = part.color.get(i, 3);
+        colors[o * 4 + 3] = Math.max(0, Math.min(1, alpha));
+
+        // SH bands 1-3: coefficient k of band l is our index l*l - 1 + n
+        if (shCoeffs) {
+          for (let k = 0; k < shDim; k++) {
+            const acc = part.sh[k];
+            if (!acc) continue;
+            for (let c = 0; c < 3; c++) {
+              shCoeffs[(o * 3 + c) * shDim + k] = acc.get(i, c);
+            }
+          }
+        }
+
+        for (const name in part.extras) {
+          const acc = part.extras[name];
+          const components = extraComponents[name];
+          const out = extras[name];
+          for (let c = 0; c < Math.min(components, acc.components); c++) {
+            out[o * components + c] = acc.get(i, c);
+          }
+        }
+      }
+    }, options, base, count);
+
+    if (shCoeffs && shDim > 0) {
+      // Rotation part of the node matrix: its normalized basis columns (mirroring included)
+      const r = [0, 4, 8].flatMap((c) => {
+        const len = Math.hypot(m[c], m[c + 1], m[c + 2]) || 1;
+        return [m[c] / len, m[c + 1] / len, m[c + 2] / len];
+      });
+      const stride = 3 * shDim;
+      rotateShCoeffs(shCoeffs.subarray(base * stride, (base + n) * stride), n, shDegree, r);
+    }
+    base += n;
+  }
+
+  return {
+    count, positions, rotations, scales, colors, shCoeffs, shDegree, extras,
+    bounds: { min: boundsMin, max: boundsMax },
+  };
+}
+
+// ---- glTF JSON subset ----
+
+interface GltfPrimitive {
+  attributes: Record<string, number>;
+  mode?: number;
+  extensions?: Record<string, unknown>;
+}
+
+interface GltfNode {
+  mesh?: number;
+  children?: number[];
+  matrix?: number[];
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+}
+
+interface GltfAccessor {
+  bufferView?: number;
+  byteOffset?: number;
+  componentType: number;
+  normalized?: boolean;
+  count: number;
+  type: string;
+  sparse?: unknown;
+}
+
+interface GltfJson {
+  asset?: { version?: string };
+  scene?: number;
+  scenes?: { nodes?: number[] }[];
+  nodes?: GltfNode[];
+  meshes?: { primitives: GltfPrimitive[] }[];
+  accessors?: GltfAccessor[];
+  bufferViews?: { buffer: number; byteOffset?: number; byteLength: number; byteStride?: number }[];
+  buffers?: { uri?: string; byteLength: number }[];
+}
+
+// ---- container / buffers ----
+
+function parseContainer(buffer: ArrayBuffer): { json: GltfJson; bin: ArrayBuffer | null } {
+  if (!isGltfData(buffer)) {
+    return { json: JSON.parse(new TextDecoder().decode(buffer)), bin: null };
+  }
+
+  const view = new DataView(buffer);
+  const version = view.getUint32(4, true);
+  if (version !== 2) throw new Error(`glTF: unsupported GLB version ${version}`);
+  const length = Math.min(view.getUint32(8, true), buffer.byteLength);
+
+  let json: GltfJson | null = null;
+  let bin: ArrayBuffer | null = null;
+  let offset = 12;
+  while (offset + 8 <= length) {
+    const chunkLength = view.getUint32(offset, true);
+    const chunkType = view.getUint32(offset + 4, true);
+    const start = offset + 8;
+    if (start + chunkLength > length) throw new Error('glTF: truncated GLB chunk');
+    if (chunkType === GLB_CHUNK_JSON) {
+      json = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, start, chunkLength)));
+    } else if (chunkType === GLB_CHUNK_BIN && !bin) {
+      bin = buffer.slice(start, start + chunkLength);
+    }
+    // Unknown chunk types are skipped, as the spec requires
+    offset = start + chunkLength;
+  }
+  if (!json) throw new Error('glTF: GLB has no JSON chunk');
+  return { json, bin };
+}
+
+async function loadBuffer(
+  desc: { uri?: string; byteLength: number },
+  index: number,
+  bin: ArrayBuffer | null,
+  options?: GltfLoadOptions,
+): Promise<ArrayBuffer> {
+  if (desc.uri === undefined) {
+    if (index !== 0 || !bin) throw new Error(`glTF: buffer ${index} has no uri and no GLB BIN chunk`);
+    return bin;
+  }
+  if (desc.uri.startsWith('data:')) {
+    const comma = desc.uri.indexOf(',');
+    if (!desc.uri.slice(0, comma).endsWith(';base64')) throw new Error('glTF: only base64 data URIs are supported');
+    const raw = atob(desc.uri.slice(comma + 1));
+    const out = new Uint8Array(raw.length);
+    for (let i = 0; i < raw.length; i++) out[i] = raw.charCodeAt(i);
+    return out.buffer;
+  }
+  if (options?.resolveUri) return options.resolveUri(desc.uri);
+  if (!options?.baseUrl) {
+    throw new Error(`glTF: external buffer "${desc.uri}" needs options.baseUrl or options.resolveUri`);
+  }
+  const url = new URL(desc.uri, new URL(options.baseUrl, globalThis.location?.href)).href;
+  const resp = await fetch(url, { signal: options.signal });
+  if (!resp.ok) throw new Error(`Failed to fetch ${url}: ${resp.status}`);
+  return resp.arrayBuffer();
+}
+
+// ---- accessors ----
+
+interface ReadAccessor {
+  count: number;
+  components: number;
+  /** Component `c` of element `i`, dequantized if the accessor is normalized. */
+  get(i: number, c: number): number;
+}
+
+function readAccessor(json: GltfJson, buffers: ArrayBuffer[], index: number): ReadAccessor {
+  const acc = json.accessors?.[index];
+  if (!acc) throw new Error(`glTF: missing accessor ${index}`);
+  if (acc.sparse) throw new Error(`glTF: sparse accessor ${index} is not supported`);
+  const components = COMPONENTS[acc.type];
+  if (!components) throw new Error(`glTF: unsupported accessor type ${acc.type}`);
+
+  const count = acc.count;
+  if (acc.bufferView === undefined) {
+    // No buffer view: all zeros
+    return { count, components, get: () => 0 };
+  }
+
+  const bv = json.bufferViews?.[acc.bufferView];
+  if (!bv) throw new Error(`glTF: missing bufferView ${acc.bufferView}`);
+  const buf = buffers[bv.buffer];
+  if (!buf) throw new Error(`glTF: missing buffer ${bv.buffer}`);
+
+  const componentSize = componentByteSize(acc.componentType);
+  const stride = bv.byteStride || componentSize * components;
+  const offset = (bv.byteOffset ?? 0) + (acc.byteOffset ?? 0);
+  if (count > 0 && offset + stride * (count - 1) + componentSize * components > buf.byteLength) {
+    throw new Error(`glTF: accessor ${index} exceeds its buffer`);
+  }
+
+  const view = new DataView(buf);
+  const readRaw = componentReader(view, acc.componentType);
+  const scale = acc.normalized ? normalizeScale(acc.componentType) : 0;
+
+  return {
+    count,
+    components,
+    get(i, c) {
+      const v = readRaw(offset + i * stride + c * componentSize);
+      // Signed normalized values map -max-1 and -max both to -1
+      return scale ? Math.max(v * scale, -1) : v;
+    },
+  };
+}
+
+function componentByteSize(type: number): number {
+  switch (type) {
+    case 5120: case 5121: return 1;
+    case 5122: case 5123: return 2;
+    case 5125: case 5126: return 4;
+    default: throw new Error(`glTF: unsupported component type ${type}`);
+  }
+}
+
+function componentReader(view: DataView, type: number): (offset: number) => number {
+  switch (type) {
+    case 5120: return (o) => view.getInt8(o);
+    case 5121: return (o) => view.getUint8(o);
+    case 5122: return (o) => view.getInt16(o, true);
+    case 5123: return (o) => view.getUint16(o, true);
+    case 5125: return (o) => view.getUint32(o, true);
+    case 5126: return (o) => view.getFloat32(o, true);
+    default: throw new Error(`glTF: unsupported component type ${type}`);
+  }
+}
+
+function normalizeScale(type: number): number {
+  switch (type) {
+    case 5120: return 1 / 127;
+    case 5121: return 1 / 255;
+    case 5122: return 1 / 32767;
+    case 5123: return 1 / 65535;
+    default: throw new Error(`glTF: component type ${type} cannot be normalized`);
+  }
+}
+
+// ---- transforms (column-major, as in glTF) ----
+
+const IDENTITY = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+function nodeMatrix(node: GltfNode): number[] {
+  if (node.matrix) return node.matrix;
+  const [tx, ty, tz] = node.translation ?? [0, 0, 0];
+  const [x, y, z, w] = node.rotation ?? [0, 0, 0, 1];
+  const [sx, sy, sz] = node.scale ?? [1, 1, 1];
+  return [
+    (1 - 2 * (y * y + z * z)) * sx, 2 * (x * y + z * w) * sx, 2 * (x * z - y * w) * sx, 0,
+    2 * (x * y - z * w) * sy, (1 - 2 * (x * x + z * z)) * sy, 2 * (y * z + x * w) * sy, 0,
+    2 * (x * z + y * w) * sz, 2 * (y * z - x * w) * sz, (1 - 2 * (x * x + y * y)) * sz, 0,
+    tx, ty, tz, 1,
+  ];
+}
+
+function mat4Mul(a: number[], b: number[]): number[] {
+  const out = new Array<number>(16);
+  for (let col = 0; col < 4; col++) {
+    for (let row = 0; row < 4; row++) {
+      out[col * 4 + row] =
+        a[row] * b[col * 4] + a[4 + row] * b[col * 4 + 1] + a[8 + row] * b[col * 4 + 2] + a[12 + row] * b[col * 4 + 3];
+    }
+  }
+  return out;
+}
@@ -0,0 +1,88 @@
+import type { SplatData, LoadOptions, LoadSplatOptions, PackedSplatData } from '../types';
+import { decodeSplat, readSource } from './decode-splat';
+import { parsePlyHeader, isCompressedPly } from './ply-parser';
+import { loadCompressedPlyPacked } from './compressed-ply-loader';
+import type { SplatWorkerRequest, SplatWorkerResponse } from './splat-worker';
+import SplatWorker from './splat-worker?worker&inline';
+
+/**
+ * Convenience loader that auto-detects format from the file contents
+ * (see detectSplatFormat):
+ * - SOG meta.json (URL) → fetches webp textures and decompresses
+ * - SOG bundle (.sog zip) → extracts meta.json + webp textures in memory
+ * - SPZ (gzip + NGSP) → gzip decompress and parse Niantic format
+ * - RAD (RAD0 / RADC magic) → decode Spark's chunked property streams
+ * - glTF (GLB magic or .gltf JSON) → KHR_gaussian_splatting point primitives
+ * - .splat (extension, or headerless 32-byte records) → antimatter15 layout
+ * - Compressed PLY → decompresses packed data
+ * - Standard PLY → reads float properties
+ *
+ * With `{ worker: true }` all of the above runs in a Web Worker and the
+ * decoded arrays are transferred back, keeping the main thread responsive.
+ * `onProgress` reports 'download' then 'decode' progress either way; aborting
+ * `signal` cancels the fetch and the decode.
+ *
+ * .ksplat (GaussianSplats3D) is not supported; format is not publicly specified.
+ */
+export async function loadSplat(source: string | File, options?: LoadSplatOptions): Promise<SplatData> {
+  options?.signal?.throwIfAborted();
+  if (!options?.worker) {
+    return decodeSplat(source, options);
+  }
+  return loadSplatInWorker(source, options);
+}
+
+/**
+ * Fetch / read a compressed PLY and keep it packed for SplatRenderer.setPackedScene
+ * (see loadCompressedPlyPacked). Throws for any other file; detectStreamingFormat
+ * tells compressed PLY apart from its first bytes.
+ */
+export async function loadPackedCompressedPly(source: string | File, options?: LoadOptions): Promise<PackedSplatData> {
+  options?.signal?.throwIfAborted();
+  const buffer = await readSource(source, options);
+  const ply = parsePlyHeader(buffer);
+  if (!isCompressedPly(ply)) throw new Error('PLY: not a compressed PLY; use loadSplat');
+  return loadCompressedPlyPacked(buffer, ply);
+}
+
+// ---- internal helpers ----
+
+function loadSplatInWorker(source: string | File, options: LoadOptions): Promise<SplatData> {
+  const { signal, onProgress } = options;
+  // The worker fetches the URL itself
+  options.response?.body?.cancel().catch(() => {});
+  return new Promise<SplatData>((resolve, reject) => {
+    const worker = new SplatWorker();
+    const finish = () => {
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+    };
+    const onAbort = () => {
+      finish();
+      reject(signal!.reason ?? new DOMException('Load aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (e: MessageEvent<SplatWorkerResponse>) => {
+      const msg = e.data;
+      if ('progress' in msg) {
+        onProgress?.(msg.progress);
+        return;
+      }
+      finish();
+      if (msg.ok) resolve(msg.data);
+      else reject(new Error(msg.message));
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(`Splat loader worker failed: ${e.message}`));
+    };
+
+    // The inline worker runs from a blob: URL, so relative URLs must be resolved here
+    const request: SplatWorkerRequest = {
+      source: typeof source === 'string' ? new URL(source, location.href).href : source,
+      reportProgress: !!onProgress,
+    };
+    worker.postMessage(request);
+  });
+}
@@ -1,4 +1,4 @@
-import type { PlyFile, PlyElement, PlyProperty } from '../types';
+import type { PlyFile, PlyElement, PlyProperty, SplatAttributeArray } from '../types';
 
 const TYPE_SIZES: Record<string, number> = {
   char: 1,
@@ -19,9 +19,20 @@ const TYPE_SIZES: Record<string, number> = {
   float64: 8,
 };
 
+/** Detect PLY from file name / URL. */
+export function isPlyFile(name: string): boolean {
+  return name.toLowerCase().endsWith('.ply');
+}
+
+const PLY_FORMATS = ['binary_little_endian', 'binary_big_endian', 'ascii'];
+
+// Exactly representable powers of ten for ASCII number parsing
+const POW10 = Array.from({ length: 23 }, (_, k) => 10 ** k);
+
 /**
  * Parse the ASCII header of a PLY file and return element/property metadata
- * plus the byte offset where binary data begins.
+ * plus the byte offset where the element data begins.
+ * Accepts all three PLY formats; see normalizePly for reading ASCII / big-endian data.
  */
 export function parsePlyHeader(buffer: ArrayBuffer): PlyFile {
   const bytes = new Uint8Array(buffer);
@@ -58,13 +69,19 @@ export function parsePlyHeader(buffer: ArrayBuffer): PlyFile {
       };
       elements.push(current);
     } else if (keyword === 'property' && current) {
-      // Handle list properties (not used in splat files but good to handle)
+      // List properties (e.g. faces in mesh PLYs): variable size, skipped by normalizePly
       if (parts[1] === 'list') {
         // property list <count_type> <value_type> <name>
+        const [countType, itemType] = [parts[2], parts[3]];
+        for (const type of [countType, itemType]) {
+          if (TYPE_SIZES[type] === undefined) throw new Error(`Unknown PLY property type: ${type}`);
+        }
         current.properties.push({
           name: parts[4],
           type: 'list',
           byteSize: 0, // variable
+          countType,
+          itemType,
         });
       } else {
         const type = parts[1];
@@ -78,8 +95,8 @@ export function parsePlyHeader(buffer: ArrayBuffer): PlyFile {
     }
   }
 
-  if (format !== 'binary_little_endian') {
-    throw new Error(`Unsupported PLY format: "${format}". Only binary_little_endian is supported.`);
+  if (!PLY_FORMATS.includes(format)) {
+    throw new Error(`Unsupported PLY format: "${format}". Expected one of: ${PLY_FORMATS.join(', ')}.`);
   }
 
   return {
@@ -99,31 +116,42 @@ export function elementStride(element: PlyElement): number {
   return stride;
 }
 
-/** Read a typed value from a DataView at the given offset. */
+/** Byte offset of the first instance of the named element (elements are stored in header order). */
+export function elementOffset(ply: PlyFile, name: string): number {
+  let offset = ply.headerByteLength;
+  for (const el of ply.elements) {
+    if (el.name === name) break;
+    offset += elementStride(el) * el.count;
+  }
+  return offset;
+}
+
+/** Read a typed value from a DataView at the given offset (little-endian unless told otherwise). */
 export function readTypedValue(
   view: DataView,
   offset: number,
   type: string,
+  littleEndian = true,
 ): { value: number; next: number } {
   switch (type) {
     case 'float':
     case 'float32':
-      return { value: view.getFloat32(offset, true), next: offset + 4 };
+      return { value: view.getFloat32(offset, littleEndian), next: offset + 4 };
     case 'double':
     case 'float64':
-      return { value: view.getFloat64(offset, true), next: offset + 8 };
+      return { value: view.getFloat64(offset, littleEndian), next: offset + 8 };
     case 'uint':
     case 'uint32':
-    case 'int32':
-      return { value: view.getUint32(offset, true), next: offset + 4 };
+      return { value: view.getUint32(offset, littleEndian), next: offset + 4 };
     case 'int':
-      return { value: view.getInt32(offset, true), next: offset + 4 };
+    case 'int32':
+      return { value: view.getInt32(offset, littleEndian), next: offset + 4 };
     case 'ushort':
     case 'uint16':
-      return { value: view.getUint16(offset, true), next: offset + 2 };
+      return { value: view.getUint16(offset, littleEndian), next: offset + 2 };
     case 'short':
     case 'int16':
-      return { value: view.getInt16(offset, true), next: offset + 2 };
+      return { value: view.getInt16(offset, littleEndian), next: offset + 2 };
     case 'uchar':
     case 'uint8':
       return { value: view.getUint8(offset), next: offset + 1 };
@@ -135,6 +163,129 @@ export function readTypedValue(
   }
 }
 
+/**
+ * Whether `ply` must go through normalizePly before the splat decoders can read it:
+ * true for ASCII and big-endian data, or when a list-typed element precedes another element.
+ */
+export function needsPlyRewrite(ply: PlyFile): boolean {
+  if (ply.format !== 'binary_little_endian') return true;
+  const firstList = ply.elements.findIndex(hasListProperty);
+  return firstList >= 0 && ply.elements.slice(firstList).some((el) => !hasListProperty(el));
+}
+
+/**
+ * Rewrite the element data of any PLY into the binary_little_endian layout the
+ * splat decoders read. Fixed-size elements are kept in order; elements with
+ * list properties (faces, edges, ...) are skipped. The returned buffer holds
+ * element data only (headerByteLength 0) unless no rewrite was needed, in which
+ * case the input buffer is returned with trailing list elements dropped.
+ */
+export function normalizePly(buffer: ArrayBuffer, ply: PlyFile): { buffer: ArrayBuffer; ply: PlyFile } {
+  const vertex = ply.elements.find((el) => el.name === 'vertex');
+  if (vertex && hasListProperty(vertex)) {
+    throw new Error('PLY: list properties on the vertex element are not supported');
+  }
+  const fixed = ply.elements.filter((el) => !hasListProperty(el));
+  if (!needsPlyRewrite(ply)) {
+    return { buffer, ply: { ...ply, elements: fixed } };
+  }
+
+  const out = new Uint8Array(fixed.reduce((n, el) => n + el.count * elementStride(el), 0));
+  const outView = new DataView(out.buffer);
+  let outOffset = 0;
+
+  if (ply.format === 'ascii') {
+    const tokens = new AsciiTokenReader(new Uint8Array(buffer), ply.headerByteLength);
+    for (const el of ply.elements) {
+      const list = hasListProperty(el);
+      for (let i = 0; i < el.count; i++) {
+        for (const prop of el.properties) {
+          if (prop.type === 'list') {
+            const n = tokens.next();
+            for (let k = 0; k < n; k++) tokens.next();
+          } else if (list) {
+            tokens.next();
+          } else {
+            writeTypedValue(outView, outOffset, prop.type, tokens.next());
+            outOffset += prop.byteSize;
+          }
+        }
+      }
+    }
+  } else {
+    // binary_big_endian, or little-endian with list elements in between
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    const swap = ply.format === 'binary_big_endian';
+    let offset = ply.headerByteLength;
+    for (const el of ply.elements) {
+      if (hasListProperty(el)) {
+        for (let i = 0; i < el.count; i++) {
+          for (const prop of el.properties) {
+            if (prop.type !== 'list') {
+              offset += prop.byteSize;
+              continue;
+            }
+            const { value: n, next } = readTypedValue(view, offset, prop.countType!, !swap);
+            offset = next + n * TYPE_SIZES[prop.itemType!];
+          }
+        }
+      } else if (!swap) {
+        const size = el.count * elementStride(el);
+        out.set(bytes.subarray(offset, offset + size), outOffset);
+        offset += size;
+        outOffset += size;
+      } else {
+        for (let i = 0; i < el.count; i++) {
+          for (const prop of el.properties) {
+            for (let k = 0; k < prop.byteSize; k++) out[outOffset + k] = bytes[offset + prop.byteSize - 1 - k];
+            offset += prop.byteSize;
+            outOffset += prop.byteSize;
+          }
+        }
+      }
+      if (offset > bytes.length) throw new Error(`PLY: file truncated in ${el.name} element`);
+    }
+  }
+
+  return {
+    buffer: out.buffer,
+    ply: { ...ply, format: 'binary_little_endian', elements: fixed, headerByteLength: 0 },
+  };
+}
+
+/** Allocate a typed array matching a scalar PLY property type (e.g. for SplatData.extras). */
+export function createPlyTypedArray(type: string, length: number): SplatAttributeArray {
+  switch (type) {
+    case 'float':
+    case 'float32':
+      return new Float32Array(length);
+    case 'double':
+    case 'float64':
+      return new Float64Array(length);
+    case 'uint':
+    case 'uint32':
+      return new Uint32Array(length);
+    case 'int':
+    case 'int32':
+      return new Int32Array(length);
+    case 'ushort':
+    case 'uint16':
+      return new Uint16Array(length);
+    case 'short':
+    case 'int16':
+      return new Int16Array(length);
+    case 'uchar':
+    case 'uint8':
+      return new Uint8Array(length);
+    case 'char':
+    case 'int8':
+      return new Int8Array(length);
+    default:
+      throw new Error(`Unsupported PLY property type: ${type}`);
+  }
+}
+
 /** Detect if a parsed PLY file uses the SuperSplat compressed format. */
 export function isCompressedPly(ply: PlyFile): boolean {
   const hasChunk = ply.elements.some((e) => e.name === 'chunk');
@@ -145,9 +296,11 @@ export function isCompressedPly(ply: PlyFile): boolean {
   return requiredProps.every((p) => vertexPropNames.has(p));
 }
 
-// ---- internal helpers ----
-
-function findEndHeader(bytes: Uint8Array): number {
+/**
+ * Byte length of the PLY header (up to and including the newline after
+ * end_header), or -1 if it is not within the first 64KB of `bytes`.
+ */
+export function findEndHeader(bytes: Uint8Array): number {
   const marker = 'end_header';
   for (let i = 0; i < Math.min(bytes.length, 65536) - marker.length; i++) {
     let match = true;
@@ -168,3 +321,116 @@ function findEndHeader(bytes: Uint8Array): number {
   }
   return -1;
 }
+
+// ---- internal helpers ----
+
+function hasListProperty(element: PlyElement): boolean {
+  return element.properties.some((p) => p.type === 'list');
+}
+
+function writeTypedValue(view: DataView, offset: number, type: string, value: number): void {
+  switch (type) {
+    case 'float':
+    case 'float32':
+      view.setFloat32(offset, value, true);
+      break;
+    case 'double':
+    case 'float64':
+      view.setFloat64(offset, value, true);
+      break;
+    case 'uint':
+    case 'uint32':
+      view.setUint32(offset, value, true);
+      break;
+    case 'int':
+    case 'int32':
+      view.setInt32(offset, value, true);
+      break;
+    case 'ushort':
+    case 'uint16':
+      view.setUint16(offset, value, true);
+      break;
+    case 'short':
+    case 'int16':
+      view.setInt16(offset, value, true);
+      break;
+    case 'uchar':
+    case 'uint8':
+      view.setUint8(offset, value);
+      break;
+    case 'char':
+    case 'int8':
+      view.setInt8(offset, value);
+      break;
+    default:
+      throw new Error(`Unsupported PLY property type: ${type}`);
+  }
+}
+
+/** Whitespace-separated numbers of an ASCII PLY body, read in order. */
+class AsciiTokenReader {
+  private pos: number;
+
+  constructor(private bytes: Uint8Array, start: number) {
+    this.pos = start;
+  }
+
+  next(): number {
+    const b = this.bytes;
+    let i = this.pos;
+    while (i < b.length && b[i] <= 0x20) i++;
+    if (i >= b.length) throw new Error('PLY: ASCII data ended early');
+    const start = i;
+    while (i < b.length && b[i] > 0x20) i++;
+    this.pos = i;
+    const value = parseDecimal(b, start, i);
+    if (value === null) {
+      throw new Error(`PLY: invalid ASCII value "${String.fromCharCode(...b.subarray(start, Math.min(i, start + 32)))}"`);
+    }
+    return value;
+  }
+}
+
+/**
+ * Parse [-+]digits[.digits][e[-+]digits] without building a string. Falls back
+ * to Number() (nan, inf, very long mantissas) when the fast path would round twice.
+ * Returns null for a token that is not a number.
+ */
+function parseDecimal(b: Uint8Array, start: number, end: number): number | null {
+  let i = start;
+  const negative = b[i] === 0x2d;
+  if (negative || b[i] === 0x2b) i++;
+  let mantissa = 0;
+  let digits = 0;
+  let exponent = 0;
+  for (; i < end && b[i] >= 0x30 && b[i] <= 0x39; i++, digits++) mantissa = mantissa * 10 + (b[i] - 0x30);
+  if (i < end && b[i] === 0x2e) {
+    for (i++; i < end && b[i] >= 0x30 && b[i] <= 0x39; i++, digits++) {
+      mantissa = mantissa * 10 + (b[i] - 0x30);
+      exponent--;
+    }
+  }
+  if (i < end && (b[i] === 0x65 || b[i] === 0x45)) {
+    i++;
+    const negExp = b[i] === 0x2d;
+    if (negExp || b[i] === 0x2b) i++;
+    let e = 0;
+    const expStart = i;
+    for (; i < end && b[i] >= 0x30 && b[i] <= 0x39; i++) e = e * 10 + (b[i] - 0x30);
+    if (i === expStart) i = -1;
+    exponent += negExp ? -e : e;
+  }
+  // Exact when the mantissa and the power of ten are both exactly representable
+  if (i === end && digits > 0 && digits <= 15 && exponent >= -22 && exponent <= 22) {
+    const v = exponent < 0 ? mantissa / POW10[-exponent] : mantissa * POW10[exponent];
+    return negative ? -v : v;
+  }
+  if (end - start > 256) return null;
+  const text = String.fromCharCode(...b.subarray(start, end));
+  const value = Number(text);
+  if (!Number.isNaN(value)) return value;
+  const special = /^([-+]?)(nan|inf|infinity)$/i.exec(text);
+  if (!special) return null;
+  if (special[2].toLowerCase() === 'nan') return NaN;
+  return special[1] === '-' ? -Infinity : Infinity;
+}
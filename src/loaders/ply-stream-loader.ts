@@ -0,0 +1,209 @@
+import type { SplatData, SplatStreamOptions } from '../types';
+import { parsePlyHeader, isCompressedPly, elementStride, findEndHeader, needsPlyRewrite, normalizePly } from './ply-parser';
+import { createStandardPlyDecoder } from './standard-ply-loader';
+import { createCompressedPlyDecoder, COMPRESSED_PLY_SH_RANGE } from './compressed-ply-loader';
+import { shStrideForDegree, sliceSplatData } from '../splat-data';
+
+// findEndHeader only scans this far; a longer header is not a splat PLY
+const PLY_HEADER_MAX_BYTES = 65536;
+// Splats per onBatch call; decoding itself keeps up with each network read
+const BATCH_SPLATS = 1 << 16;
+
+/**
+ * Stream a standard or compressed PLY: the header is parsed from the first
+ * bytes, then vertices are decoded as bytes arrive and delivered in batches.
+ * Compressed PLY stores its chunk bounds before the vertices, so it streams too;
+ * its `sh` element comes last and is delivered through onShCoeffs.
+ * ASCII and big-endian files are downloaded whole and rewritten before decoding.
+ */
+export async function loadPlyStream(source: string | File, options: SplatStreamOptions): Promise<SplatData> {
+  const opened = await openByteStream(source, options.signal, options.response);
+  const reader = opened.stream.getReader();
+  let queue = new ByteQueue();
+  // 'download' progress; the header gives the size if the source did not
+  let total = opened.total;
+  let received = 0;
+
+  /** Buffer one more read; false at end of stream. */
+  const pull = async (): Promise<boolean> => {
+    options.signal?.throwIfAborted();
+    const { done, value } = await reader.read();
+    if (done) return false;
+    queue.push(value);
+    received += value.length;
+    options.onProgress?.({ phase: 'download', loaded: received, total });
+    return true;
+  };
+
+  /** Decode `count` fixed-size rows as they arrive, flushing every BATCH_SPLATS rows. */
+  const streamRows = async (
+    what: string,
+    count: number,
+    stride: number,
+    decode: (view: DataView, start: number, end: number) => void,
+    flush: (start: number, end: number) => void,
+  ): Promise<void> => {
+    let decoded = 0;
+    let flushed = 0;
+    while (decoded < count) {
+      const available = Math.min(count - decoded, Math.floor(queue.length / stride));
+      if (available === 0) {
+        if (!(await pull())) throw new Error(`PLY: file truncated in ${what} element (${decoded}/${count})`);
+        continue;
+      }
+      decode(queue.view(), decoded, decoded + available);
+      queue.consume(available * stride);
+      decoded += available;
+      if (decoded - flushed >= BATCH_SPLATS || decoded === count) {
+        flush(flushed, decoded);
+        flushed = decoded;
+      }
+    }
+  };
+
+  try {
+    // ---- header ----
+    let headerLength: number;
+    while ((headerLength = findEndHeader(queue.bytes())) < 0) {
+      if (queue.length >= PLY_HEADER_MAX_BYTES || !(await pull())) {
+        throw new Error('Invalid PLY file: could not find end_header');
+      }
+    }
+    let ply = parsePlyHeader(queue.bytes().slice(0, headerLength).buffer);
+    queue.consume(headerLength);
+
+    if (needsPlyRewrite(ply)) {
+      // Row sizes vary (ASCII, list elements) or bytes need swapping: read everything first
+      while (await pull());
+      const normalized = normalizePly(queue.bytes().slice().buffer, { ...ply, headerByteLength: 0 });
+      ply = normalized.ply;
+      queue = new ByteQueue();
+      queue.push(new Uint8Array(normalized.buffer));
+    } else if (!total) {
+      total = ply.elements.reduce((n, el) => n + el.count * elementStride(el), headerLength);
+    }
+
+    const compressed = isCompressedPly(ply) ? createCompressedPlyDecoder(ply) : null;
+    const standard = compressed ? null : createStandardPlyDecoder(ply);
+    const data = (compressed ?? standard)!.data;
+    options.onHeader?.({
+      count: data.count,
+      shDegree: data.shDegree,
+      shScale: compressed && data.shDegree ? COMPRESSED_PLY_SH_RANGE : undefined,
+    });
+    const shStride = shStrideForDegree(data.shDegree);
+
+    const emitBatch = (start: number, end: number) => {
+      const batch = sliceSplatData(data, start, end);
+      // Compressed PLY SH arrives after all vertices (see onShCoeffs)
+      if (compressed) batch.shCoeffs = undefined;
+      options.onBatch(batch);
+    };
+
+    // ---- elements, in file order ----
+    for (const el of ply.elements) {
+      // Only trailing list elements remain here (see needsPlyRewrite); nothing after them is used
+      if (el.properties.some((p) => p.type === 'list')) {
+        if (el.name === 'vertex') throw new Error('PLY: list properties on the vertex element are not supported');
+        break;
+      }
+      const stride = elementStride(el);
+
+      if (el.name === 'vertex') {
+        await streamRows('vertex', el.count, stride, (view, start, end) => {
+          if (compressed) compressed.decodeVertices(view, 0, start, end);
+          else standard!.decode(view, 0, start, end);
+        }, emitBatch);
+        // Nothing after the vertices is used by standard PLY
+        if (standard) break;
+      } else if (compressed && el.name === 'chunk') {
+        const bytes = stride * el.count;
+        while (queue.length < bytes) {
+          if (!(await pull())) throw new Error('PLY: file truncated in chunk element');
+        }
+        compressed.readChunks(queue.view(), 0);
+        queue.consume(bytes);
+      } else if (compressed && el.name === 'sh') {
+        await streamRows('sh', el.count, stride, (view, start, end) => {
+          compressed.decodeSh(view, 0, start, end);
+        }, (start, end) => {
+          options.onShCoeffs?.(data.shCoeffs!.subarray(start * shStride, end * shStride), start);
+        });
+      } else {
+        // Unused element: drop its bytes as they arrive
+        let remaining = stride * el.count;
+        while (remaining > 0) {
+          if (queue.length === 0 && !(await pull())) {
+            throw new Error(`PLY: file truncated in ${el.name} element`);
+          }
+          const n = Math.min(remaining, queue.length);
+          queue.consume(n);
+          remaining -= n;
+        }
+      }
+    }
+
+    return data;
+  } finally {
+    // Stop the download if trailing elements were skipped (or on error)
+    reader.cancel().catch(() => {});
+  }
+}
+
+// ---- internal helpers ----
+
+/** Byte stream of a URL (or its already-requested `response`) or File, with its size in bytes (0 when unknown). */
+async function openByteStream(
+  source: string | File,
+  signal?: AbortSignal,
+  response?: Response,
+): Promise<{ stream: ReadableStream<Uint8Array>; total: number }> {
+  if (typeof source !== 'string') return { stream: source.stream(), total: source.size };
+  const resp = response ?? await fetch(source, { signal });
+  if (!resp.ok) throw new Error(`Failed to fetch ${source}: ${resp.status}`);
+  if (!resp.body) throw new Error(`Failed to fetch ${source}: empty response body`);
+  // Content-Length counts encoded bytes when the response is compressed in transit
+  const total = resp.headers.get('Content-Encoding') ? 0 : Number(resp.headers.get('Content-Length')) || 0;
+  return { stream: resp.body, total };
+}
+
+/** Growable FIFO of received bytes; consumed bytes are reclaimed on the next push. */
+class ByteQueue {
+  private buf = new Uint8Array(1 << 16);
+  private start = 0;
+  private end = 0;
+
+  get length(): number {
+    return this.end - this.start;
+  }
+
+  push(chunk: Uint8Array): void {
+    if (this.end + chunk.length > this.buf.length) {
+      const len = this.length;
+      if (len + chunk.length > this.buf.length) {
+        const next = new Uint8Array(Math.max(this.buf.length * 2, len + chunk.length));
+        next.set(this.bytes());
+        this.buf = next;
+      } else {
+        this.buf.copyWithin(0, this.start, this.end);
+      }
+      this.start = 0;
+      this.end = len;
+    }
+    this.buf.set(chunk, this.end);
+    this.end += chunk.length;
+  }
+
+  bytes(): Uint8Array {
+    return this.buf.subarray(this.start, this.end);
+  }
+
+  view(): DataView {
+    return new DataView(this.buf.buffer, this.start, this.length);
+  }
+
+  consume(n: number): void {
+    this.start += n;
+    if (this.start === this.end) this.start = this.end = 0;
+  }
+}
@@ -0,0 +1,70 @@
+import type { LoadOptions } from '../types';
+
+// Splats decoded between yields to the event loop (tens of milliseconds of work)
+const DECODE_SLICE = 1 << 16;
+
+/**
+ * Run a synchronous range decoder over [0, count) in slices, yielding to the
+ * event loop in between so progress can render and an abort is noticed.
+ * `offset` / `total` place this range within a larger decode for reporting.
+ */
+export async function decodeInSlices(
+  count: number,
+  decode: (start: number, end: number) => void,
+  options?: LoadOptions,
+  offset = 0,
+  total = count,
+): Promise<void> {
+  for (let start = 0; start < count; start += DECODE_SLICE) {
+    options?.signal?.throwIfAborted();
+    const end = Math.min(count, start + DECODE_SLICE);
+    decode(start, end);
+    options?.onProgress?.({ phase: 'decode', loaded: offset + end, total });
+    if (end < count) await yieldToEventLoop();
+  }
+}
+
+/**
+ * Read a byte stream to one ArrayBuffer, reporting 'download' progress.
+ * `total` (0 if unknown) preallocates the result to avoid a second copy.
+ */
+export async function readStreamToBuffer(
+  stream: ReadableStream<Uint8Array>,
+  total: number,
+  options?: LoadOptions,
+): Promise<ArrayBuffer> {
+  const reader = stream.getReader();
+  let out = new Uint8Array(total > 0 ? total : 1 << 20);
+  let loaded = 0;
+  try {
+    for (;;) {
+      options?.signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (loaded + value.length > out.length) {
+        // Unknown or wrong length: grow geometrically
+        const next = new Uint8Array(Math.max(out.length * 2, loaded + value.length));
+        next.set(out.subarray(0, loaded));
+        out = next;
+      }
+      out.set(value, loaded);
+      loaded += value.length;
+      options?.onProgress?.({ phase: 'download', loaded, total });
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return loaded === out.length ? out.buffer : out.slice(0, loaded).buffer;
+}
+
+/** Resolve on the next task; unlike setTimeout this is not throttled in background tabs. */
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = () => {
+      channel.port1.close();
+      resolve();
+    };
+    channel.port2.postMessage(null);
+  });
+}
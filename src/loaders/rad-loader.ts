@@ -3,7 +3,9 @@
  * Spec: https://github.com/sparkjsdev/spark (rust/spark-lib/src/rad.rs)
  * Format: RAD0 magic + JSON meta + chunks; each chunk is RADC + JSON + gzipped property payloads.
  */
-import type { SplatData } from '../types';
+import type { SplatData, SplatStreamOptions, LoadOptions } from '../types';
+import { yieldToEventLoop } from './progress';
+import { shDimForDegree, sliceSplatData } from '../splat-data';
 
 const RAD_MAGIC = 0x30444152; // 'RAD0' LE
 const RAD_CHUNK_MAGIC = 0x43444152; // 'RADC' LE
@@ -63,10 +65,36 @@ interface RadChunkMeta {
   splatEncoding?: RadMeta['splatEncoding'];
 }
 
+/** Encodings each known chunk property may use; anything else is rejected with an error. */
+const SUPPORTED_ENCODINGS: Record<string, readonly string[]> = {
+  center: ['f32', 'f16', 'f32_lebytes', 'f16_lebytes'],
+  alpha: ['f32', 'f16', 'r8'],
+  rgb: ['f32', 'f16', 'r8', 'r8_delta'],
+  scales: ['f32', 'ln_f16', 'ln_0r8'],
+  orientation: ['oct88r8'],
+  sh1: ['f32', 'f16', 's8', 's8_delta'],
+  sh2: ['f32', 'f16', 's8', 's8_delta'],
+  sh3: ['f32', 'f16', 's8', 's8_delta'],
+};
+
+/** Coefficients per channel and first index within a channel's SH coefficients for each band. */
+const SH_BANDS: Record<string, { coeffs: number; offset: number }> = {
+  sh1: { coeffs: 3, offset: 0 },
+  sh2: { coeffs: 5, offset: 3 },
+  sh3: { coeffs: 7, offset: 8 },
+};
+
 export function isRadFile(name: string): boolean {
   return name.toLowerCase().endsWith('.rad');
 }
 
+/** Detect RAD data by its leading magic ('RAD0' file or bare 'RADC' chunk). */
+export function isRadData(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < 4) return false;
+  const magic = new DataView(buffer).getUint32(0, true);
+  return magic === RAD_MAGIC || magic === RAD_CHUNK_MAGIC;
+}
+
 // ---- Decoders (match rad.rs layout: dimension-major) ----
 function decodeF32(data: Uint8Array, dims: number, count: number): Float32Array {
   const out = new Float32Array(count * dims);
@@ -94,11 +122,12 @@ function decodeF16(data: Uint8Array, dims: number, count: number): Float32Array
 }
 
 function halfToFloat(h: number): number {
+  const sign = h & 0x8000 ? -1 : 1;
   const exp = (h >> 10) & 0x1f;
   const mant = h & 0x3ff;
-  if (exp === 0) return (mant === 0 ? 0 : Math.pow(2, -14) * (mant / 1024));
-  if (exp === 31) return mant === 0 ? Infinity : NaN;
-  return Math.pow(2, exp - 15) * (1 + mant / 1024);
+  if (exp === 0) return sign * Math.pow(2, -14) * (mant / 1024);
+  if (exp === 31) return mant === 0 ? sign * Infinity : NaN;
+  return sign * Math.pow(2, exp - 15) * (1 + mant / 1024);
 }
 
 function decodeF32LeBytes(data: Uint8Array, dims: number, count: number): Float32Array {
@@ -190,6 +219,25 @@ function decodeS8(
   return out;
 }
 
+function decodeS8Delta(
+  data: Uint8Array,
+  dims: number,
+  count: number,
+  max: number,
+): Float32Array {
+  const out = new Float32Array(count * dims);
+  const last = new Uint8Array(dims);
+  for (let i = 0; i < count; i++) {
+    for (let d = 0; d < dims; d++) {
+      const idx = i + count * d;
+      last[d] = (last[d] + data[idx]) & 0xff;
+      const s8 = (last[d] << 24) >> 24;
+      out[i * dims + d] = (s8 / 127) * max;
+    }
+  }
+  return out;
+}
+
 function decodeScale8(byte: number, lnMin: number, lnMax: number): number {
   if (byte === 0) return 0;
   const scale = (lnMax - lnMin) / 254;
@@ -267,19 +315,22 @@ async function decompressChunkPayload(
     );
     return new Uint8Array(ab);
   }
+  if (compression !== undefined && compression !== 'none') {
+    throw new Error(`RAD: unsupported compression ${compression}`);
+  }
   return raw;
 }
 
 async function decodeChunk(
   chunkBytes: ArrayBuffer,
-  meta: RadMeta,
   positions: Float32Array,
   rotations: Float32Array,
   scales: Float32Array,
   colors: Float32Array,
   shCoeffs: Float32Array | null,
+  shDim: number,
   encoding: RadMeta['splatEncoding'],
-): Promise<void> {
+): Promise<{ base: number; count: number }> {
   const view = new DataView(chunkBytes);
   if (view.getUint32(0, true) !== RAD_CHUNK_MAGIC) {
     throw new Error('RAD: invalid chunk magic');
@@ -301,12 +352,21 @@ async function decodeChunk(
   const sh2Max = enc.sh2_max ?? 1;
   const sh3Max = enc.sh3_max ?? 1;
 
+  if (metaEnd + 8 + payloadBytes > chunkBytes.byteLength) {
+    throw new Error('RAD: truncated chunk payload');
+  }
+
   for (const prop of chunkMeta.properties) {
-    const raw = new Uint8Array(
-      chunkBytes,
-      payloadOffset,
-      Math.min(prop.bytes, chunkBytes.byteLength - payloadOffset),
-    );
+    const supported = SUPPORTED_ENCODINGS[prop.property];
+    if (supported && !supported.includes(prop.encoding)) {
+      throw new Error(
+        `RAD: unsupported ${prop.property} encoding ${prop.encoding} (supported: ${supported.join(', ')})`,
+      );
+    }
+    if (payloadOffset + prop.bytes > chunkBytes.byteLength) {
+      throw new Error(`RAD: truncated ${prop.property} payload`);
+    }
+    const raw = new Uint8Array(chunkBytes, payloadOffset, prop.bytes);
     const data = await decompressChunkPayload(raw, prop.compression);
     const min = prop.min ?? 0;
     const max = prop.max ?? 1;
@@ -365,10 +425,10 @@ async function decodeChunk(
             rgbs = decodeF16(data, 3, count);
             break;
           case 'r8':
-            rgbs = decodeR8(data, 3, count, min, max);
+            rgbs = decodeR8(data, 3, count, prop.min ?? rgbMin, prop.max ?? rgbMax);
             break;
           case 'r8_delta':
-            rgbs = decodeR8Delta(data, 3, count, min, max);
+            rgbs = decodeR8Delta(data, 3, count, prop.min ?? rgbMin, prop.max ?? rgbMax);
             break;
           default:
             throw new Error(`RAD: unsupported rgb encoding ${prop.encoding}`);
@@ -390,7 +450,7 @@ async function decodeChunk(
             scalesChunk = decodeLnF16(data, 3, count);
             break;
           case 'ln_0r8':
-            scalesChunk = decodeLn0R8(data, 3, count, min, max);
+            scalesChunk = decodeLn0R8(data, 3, count, prop.min ?? lnScaleMin, prop.max ?? lnScaleMax);
             break;
           default:
             throw new Error(`RAD: unsupported scales encoding ${prop.encoding}`);
@@ -415,104 +475,81 @@ async function decodeChunk(
         }
         break;
       }
-      case 'sh1': {
-        const elements = 9; // 3 coeffs × 3 channels
-        let sh: Float32Array;
-        if (prop.encoding === 's8') {
-          sh = decodeS8(data, elements, count, sh1Max);
-        } else if (prop.encoding === 's8_delta') {
-          const last = new Uint8Array(elements);
-          sh = new Float32Array(count * elements);
-          for (let i = 0; i < count; i++) {
-            for (let k = 0; k < elements; k++) {
-              const idx = i + count * k;
-              last[k] = (last[k] + data[idx]) & 0xff;
-              const s8 = (last[k] << 24) >> 24;
-              sh[i * elements + k] = (s8 / 127) * sh1Max;
-            }
-          }
-        } else {
-          sh = prop.encoding === 'f16' ? decodeF16(data, elements, count) : decodeF32(data, elements, count);
-        }
-        if (shCoeffs) {
-          for (let i = 0; i < count; i++) {
-            const o = (base + i) * 45;
-            for (let k = 0; k < 3; k++) {
-              shCoeffs[o + 0 * 15 + k] = sh[i * 9 + k];
-              shCoeffs[o + 1 * 15 + k] = sh[i * 9 + 3 + k];
-              shCoeffs[o + 2 * 15 + k] = sh[i * 9 + 6 + k];
-            }
-          }
-        }
-        break;
-      }
-      case 'sh2': {
-        const elements = 15; // 5 coeffs × 3 channels
-        let sh: Float32Array;
-        if (prop.encoding === 's8') {
-          sh = decodeS8(data, elements, count, sh2Max);
-        } else if (prop.encoding === 's8_delta') {
-          const last = new Uint8Array(elements);
-          sh = new Float32Array(count * elements);
-          for (let i = 0; i < count; i++) {
-            for (let k = 0; k < elements; k++) {
-              const idx = i + count * k;
-              last[k] = (last[k] + data[idx]) & 0xff;
-              const s8 = (last[k] << 24) >> 24;
-              sh[i * elements + k] = (s8 / 127) * sh2Max;
-            }
-          }
-        } else {
-          sh = prop.encoding === 'f16' ? decodeF16(data, elements, count) : decodeF32(data, elements, count);
-        }
-        if (shCoeffs) {
-          for (let i = 0; i < count; i++) {
-            const o = (base + i) * 45;
-            for (let k = 0; k < 5; k++) {
-              shCoeffs[o + 0 * 15 + k] = sh[i * 15 + k];
-              shCoeffs[o + 1 * 15 + k] = sh[i * 15 + 5 + k];
-              shCoeffs[o + 2 * 15 + k] = sh[i * 15 + 10 + k];
-            }
-          }
-        }
-        break;
-      }
+      case 'sh1':
+      case 'sh2':
       case 'sh3': {
-        const elements = 21; // 7 coeffs × 3 channels
+        const band = SH_BANDS[prop.property];
+        const elements = band.coeffs * 3;
+        const shMax = prop.property === 'sh1' ? sh1Max : prop.property === 'sh2' ? sh2Max : sh3Max;
         let sh: Float32Array;
-        if (prop.encoding === 's8') {
-          sh = decodeS8(data, elements, count, sh3Max);
-        } else if (prop.encoding === 's8_delta') {
-          const last = new Uint8Array(elements);
-          sh = new Float32Array(count * elements);
-          for (let i = 0; i < count; i++) {
-            for (let k = 0; k < elements; k++) {
-              const idx = i + count * k;
-              last[k] = (last[k] + data[idx]) & 0xff;
-              const s8 = (last[k] << 24) >> 24;
-              sh[i * elements + k] = (s8 / 127) * sh3Max;
-            }
-          }
-        } else {
-          sh = prop.encoding === 'f16' ? decodeF16(data, elements, count) : decodeF32(data, elements, count);
+        switch (prop.encoding) {
+          case 'f32':
+            sh = decodeF32(data, elements, count);
+            break;
+          case 'f16':
+            sh = decodeF16(data, elements, count);
+            break;
+          case 's8':
+            sh = decodeS8(data, elements, count, shMax);
+            break;
+          case 's8_delta':
+            sh = decodeS8Delta(data, elements, count, shMax);
+            break;
+          default:
+            throw new Error(`RAD: unsupported ${prop.property} encoding ${prop.encoding}`);
         }
-        if (shCoeffs) {
+        // Bands above the header's maxSh have no room in shCoeffs
+        if (shCoeffs && band.offset < shDim) {
+          // RAD: coefficient-major with interleaved RGB (c0_r, c0_g, c0_b, c1_r, ...).
+          // Ours: [R0..Rn-1, G0..Gn-1, B0..Bn-1]; band 1 → k 0..2, band 2 → 3..7, band 3 → 8..14.
           for (let i = 0; i < count; i++) {
-            const o = (base + i) * 45;
-            for (let k = 0; k < 7; k++) {
-              shCoeffs[o + 0 * 15 + k] = sh[i * 21 + k];
-              shCoeffs[o + 1 * 15 + k] = sh[i * 21 + 7 + k];
-              shCoeffs[o + 2 * 15 + k] = sh[i * 21 + 14 + k];
+            const o = (base + i) * 3 * shDim + band.offset;
+            for (let k = 0; k < band.coeffs; k++) {
+              shCoeffs[o + k] = sh[i * elements + k * 3];
+              shCoeffs[o + shDim + k] = sh[i * elements + k * 3 + 1];
+              shCoeffs[o + 2 * shDim + k] = sh[i * elements + k * 3 + 2];
             }
           }
         }
         break;
       }
       default:
+        // Unknown properties are skipped so newer files with extra data still load
         break;
     }
     payloadOffset += roundup8(prop.bytes);
   }
+
+  return { base, count };
+}
+
+/**
+ * Largest SH magnitude the 's8' band maxima allow, if every band up to `shDegree` has one
+ * (float encodings leave them out).
+ */
+function shScaleBound(encoding: RadMeta['splatEncoding'], shDegree: number): number | undefined {
+  const maxima = [encoding?.sh1_max, encoding?.sh2_max, encoding?.sh3_max].slice(0, shDegree);
+  if (maxima.length === 0 || maxima.some((m) => m === undefined)) return undefined;
+  return Math.max(...(maxima as number[]));
+}
+
+/** Fill in values for splats whose chunk omitted a property. */
+function applyDefaults(
+  rotations: Float32Array,
+  scales: Float32Array,
+  colors: Float32Array,
+  start: number,
+  end: number,
+): void {
+  for (let i = start; i < end; i++) {
+    if (scales[i * 3] === 0) scales[i * 3] = 1e-6;
+    if (scales[i * 3 + 1] === 0) scales[i * 3 + 1] = 1e-6;
+    if (scales[i * 3 + 2] === 0) scales[i * 3 + 2] = 1e-6;
+    if (colors[i * 4 + 3] === 0) colors[i * 4 + 3] = 0.5;
+    if (rotations[i * 4] === 0 && rotations[i * 4 + 1] === 0 && rotations[i * 4 + 2] === 0 && rotations[i * 4 + 3] === 0) {
+      rotations[i * 4] = 1;
+    }
+  }
 }
 
 function computeBounds(positions: Float32Array): { min: [number, number, number]; max: [number, number, number] } {
@@ -531,8 +568,9 @@ function computeBounds(positions: Float32Array): { min: [number, number, number]
 
 /**
  * Load Spark .rad (RAD format) into SplatData.
+ * `options.onProgress` reports splats decoded after each chunk; `options.signal` aborts between chunks.
  */
-export async function loadRad(buffer: ArrayBuffer): Promise<SplatData> {
+export async function loadRad(buffer: ArrayBuffer, options?: LoadOptions): Promise<SplatData> {
   const view = new DataView(buffer);
   if (buffer.byteLength < 8) throw new Error('RAD: file too short');
 
@@ -577,43 +615,45 @@ export async function loadRad(buffer: ArrayBuffer): Promise<SplatData> {
   const rotations = new Float32Array(numSplats * 4);
   const scales = new Float32Array(numSplats * 3);
   const colors = new Float32Array(numSplats * 4);
-  const shCoeffs = maxSh > 0 ? new Float32Array(numSplats * 45) : null;
+  const shDegree = Math.min(maxSh, 3);
+  const shDim = shDimForDegree(shDegree);
+  const shCoeffs = shDim > 0 ? new Float32Array(numSplats * 3 * shDim) : null;
   const encoding = meta.splatEncoding;
 
   if (magic === RAD_CHUNK_MAGIC) {
     await decodeChunk(
       buffer,
-      meta,
       positions,
       rotations,
       scales,
       colors,
       shCoeffs,
+      shDim,
       encoding,
     );
+    options?.onProgress?.({ phase: 'decode', loaded: numSplats, total: numSplats });
   } else {
+    let decoded = 0;
     for (const ch of meta.chunks) {
+      options?.signal?.throwIfAborted();
       const chunkBuf = buffer.slice(chunksStart + ch.offset, chunksStart + ch.offset + ch.bytes);
-      await decodeChunk(
+      const { count } = await decodeChunk(
         chunkBuf,
-        meta,
         positions,
         rotations,
         scales,
         colors,
         shCoeffs,
+        shDim,
         encoding,
       );
+      decoded += count;
+      options?.onProgress?.({ phase: 'decode', loaded: decoded, total: numSplats });
+      await yieldToEventLoop();
     }
   }
 
-  // Defaults for any missing data
-  for (let i = 0; i < numSplats; i++) {
-    if (scales[i * 3] === 0) scales[i * 3] = 1e-6;
-    if (scales[i * 3 + 1] === 0) scales[i * 3 + 1] = 1e-6;
-    if (scales[i * 3 + 2] === 0) scales[i * 3 + 2] = 1e-6;
-    if (colors[i * 4 + 3] === 0) colors[i * 4 + 3] = 0.5;
-  }
+  applyDefaults(rotations, scales, colors, 0, numSplats);
 
   const bounds = computeBounds(positions);
 
@@ -624,6 +664,147 @@ export async function loadRad(buffer: ArrayBuffer): Promise<SplatData> {
     scales,
     colors,
     shCoeffs: shCoeffs ?? undefined,
+    shDegree,
+    extras: {},
     bounds,
   };
 }
+
+// ---- Streaming ----
+
+/** Initial header read; grown if the meta JSON is larger. */
+const RAD_HEADER_PROBE_BYTES = 64 * 1024;
+
+type ByteRangeReader = (start: number, end: number) => Promise<ArrayBuffer>;
+
+/**
+ * Read byte ranges from a URL (HTTP Range requests) or a File (Blob.slice).
+ * Servers that ignore Range get a single full download that later reads slice from.
+ */
+function createRangeReader(source: string | File, signal?: AbortSignal): ByteRangeReader {
+  if (typeof source !== 'string') {
+    return (start, end) => source.slice(start, end).arrayBuffer();
+  }
+  let whole: Promise<ArrayBuffer> | null = null;
+  return async (start, end) => {
+    if (whole) return (await whole).slice(start, end);
+    const resp = await fetch(source, { headers: { Range: `bytes=${start}-${end - 1}` }, signal });
+    if (!resp.ok) throw new Error(`Failed to fetch ${source}: ${resp.status}`);
+    if (resp.status === 206) return resp.arrayBuffer();
+    whole = resp.arrayBuffer();
+    return (await whole).slice(start, end);
+  };
+}
+
+/**
+ * Stream a Spark .rad file chunk by chunk. Each RADC chunk is fetched with its own
+ * Range request (or File slice), decoded, and handed to `onBatch` as soon as all
+ * preceding chunks have been delivered, so the scene can be drawn progressively.
+ * Resolves with the complete SplatData once every chunk has been decoded.
+ */
+export async function loadRadStream(source: string | File, options: SplatStreamOptions): Promise<SplatData> {
+  const read = createRangeReader(source, options.signal);
+
+  let head = await read(0, RAD_HEADER_PROBE_BYTES);
+  if (head.byteLength < 8) throw new Error('RAD: file too short');
+  const view = new DataView(head);
+  const magic = view.getUint32(0, true);
+
+  if (magic === RAD_CHUNK_MAGIC) {
+    // Single bare chunk: nothing to stream, decode it in one go
+    let buffer: ArrayBuffer;
+    if (typeof source === 'string') {
+      const resp = await fetch(source, { signal: options.signal });
+      if (!resp.ok) throw new Error(`Failed to fetch ${source}: ${resp.status}`);
+      buffer = await resp.arrayBuffer();
+    } else {
+      buffer = await source.arrayBuffer();
+    }
+    const data = await loadRad(buffer, options);
+    const metaLen = new DataView(buffer).getUint32(4, true);
+    const chunkMeta: RadChunkMeta = JSON.parse(new TextDecoder().decode(buffer.slice(8, 8 + metaLen)));
+    options.onHeader?.({
+      count: data.count,
+      shDegree: data.shDegree,
+      shScale: shScaleBound(chunkMeta.splatEncoding, data.shDegree),
+    });
+    options.onBatch(data);
+    return data;
+  }
+  if (magic !== RAD_MAGIC) {
+    throw new Error(`RAD: invalid magic 0x${magic.toString(16)}`);
+  }
+
+  const metaLen = view.getUint32(4, true);
+  const metaEnd = 8 + roundup8(metaLen);
+  if (head.byteLength < 8 + metaLen) {
+    head = await read(0, metaEnd);
+    if (head.byteLength < 8 + metaLen) throw new Error('RAD: truncated meta');
+  }
+  const meta: RadMeta = JSON.parse(new TextDecoder().decode(head.slice(8, 8 + metaLen)));
+  if (meta.type !== 'gsplat') throw new Error(`RAD: unsupported type ${meta.type}`);
+
+  const numSplats = meta.count;
+  const maxSh = meta.maxSh ?? 0;
+  const positions = new Float32Array(numSplats * 3);
+  const rotations = new Float32Array(numSplats * 4);
+  const scales = new Float32Array(numSplats * 3);
+  const colors = new Float32Array(numSplats * 4);
+  const shDegree = Math.min(maxSh, 3);
+  const shDim = shDimForDegree(shDegree);
+  const shCoeffs = shDim > 0 ? new Float32Array(numSplats * 3 * shDim) : null;
+  // Bounds are filled in once every chunk has been decoded
+  const data: SplatData = {
+    count: numSplats,
+    positions,
+    rotations,
+    scales,
+    colors,
+    shCoeffs: shCoeffs ?? undefined,
+    shDegree,
+    extras: {},
+    bounds: { min: [0, 0, 0], max: [0, 0, 0] },
+  };
+  options.onHeader?.({ count: numSplats, shDegree, shScale: shScaleBound(meta.splatEncoding, shDegree) });
+
+  // Chunks are delivered in base order even if they decode out of order
+  const pending = new Map<number, number>(); // base → count
+  let delivered = 0;
+  const deliver = () => {
+    let count: number | undefined;
+    while ((count = pending.get(delivered)) !== undefined) {
+      pending.delete(delivered);
+      const start = delivered;
+      const end = start + count;
+      options.onBatch(sliceSplatData(data, start, end));
+      delivered = end;
+    }
+  };
+
+  // 'download' progress counts the header plus the chunks fetched so far
+  const totalBytes = meta.chunks.reduce((sum, ch) => sum + ch.bytes, metaEnd);
+  let loadedBytes = metaEnd;
+
+  for (const ch of meta.chunks) {
+    options.signal?.throwIfAborted();
+    const chunkBuf = await read(metaEnd + ch.offset, metaEnd + ch.offset + ch.bytes);
+    loadedBytes += ch.bytes;
+    options.onProgress?.({ phase: 'download', loaded: loadedBytes, total: totalBytes });
+    const { base, count } = await decodeChunk(
+      chunkBuf,
+      positions,
+      rotations,
+      scales,
+      colors,
+      shCoeffs,
+      shDim,
+      meta.splatEncoding,
+    );
+    applyDefaults(rotations, scales, colors, base, base + count);
+    pending.set(base, count);
+    deliver();
+  }
+
+  data.bounds = computeBounds(positions);
+  return data;
+}
@@ -1,4 +1,10 @@
-import type { SplatData } from '../types';
+import type { SplatData, LoadOptions } from '../types';
+import { unzip, isZipData } from './zip-reader';
+import { decodeInSlices } from './progress';
+import { shDimForDegree } from '../splat-data';
+
+// shN palette entries per row of the centroids texture
+const SH_PALETTE_ROW = 64;
 
 /**
  * SOG meta.json schema (v2 shape, v1 is auto-upgraded).
@@ -10,7 +16,12 @@ export interface SogMeta {
   quats: { files: string[] };
   scales: { mins?: number[]; maxs?: number[]; codebook?: number[]; files: string[] };
   sh0: { mins?: number[]; maxs?: number[]; codebook?: number[]; files: string[] };
-  shN?: { files: string[] };
+  /**
+   * SH bands 1-`bands`: a palette of `count` SH vectors whose values index `codebook`
+   * (shN_centroids) and a 16-bit palette label per splat (shN_labels). v1 files only name
+   * their textures and are not decoded.
+   */
+  shN?: { count?: number; bands?: number; codebook?: number[]; files: string[] };
 }
 
 /**
@@ -26,11 +37,15 @@ export function isSogFile(name: string): boolean {
  * Fetches the webp textures referenced in the meta, decodes them,
  * and decompresses into the standard SplatData format.
  */
-export async function loadSog(metaUrl: string): Promise<SplatData> {
-  // Fetch meta.json
-  const resp = await fetch(metaUrl);
+export async function loadSog(metaUrl: string, options?: LoadOptions): Promise<SplatData> {
+  // Fetch meta.json (or a whole .sog bundle)
+  const resp = await fetch(metaUrl, { signal: options?.signal });
   if (!resp.ok) throw new Error(`Failed to fetch SOG meta: ${metaUrl} (${resp.status})`);
-  let meta: SogMeta = await resp.json();
+  const body = await resp.arrayBuffer();
+  if (isZipData(body)) {
+    return loadSogBundle(body, options);
+  }
+  let meta: SogMeta = JSON.parse(new TextDecoder().decode(body));
 
   // Upgrade v1 to v2 shape
   if (meta.version !== 2) {
@@ -44,121 +59,76 @@ export async function loadSog(metaUrl: string): Promise<SplatData> {
 
   // Load all webp textures in parallel
   const [meansL, meansU] = await Promise.all(
-    meta.means.files.map((f) => loadImagePixels(baseUrl + f)),
+    meta.means.files.map((f) => loadImagePixels(baseUrl + f, options?.signal)),
   );
   const [quatsImg] = await Promise.all(
-    meta.quats.files.map((f) => loadImagePixels(baseUrl + f)),
+    meta.quats.files.map((f) => loadImagePixels(baseUrl + f, options?.signal)),
   );
   const [scalesImg] = await Promise.all(
-    meta.scales.files.map((f) => loadImagePixels(baseUrl + f)),
+    meta.scales.files.map((f) => loadImagePixels(baseUrl + f, options?.signal)),
   );
   const [sh0Img] = await Promise.all(
-    meta.sh0.files.map((f) => loadImagePixels(baseUrl + f)),
+    meta.sh0.files.map((f) => loadImagePixels(baseUrl + f, options?.signal)),
   );
+  const shNImgs = hasShN(meta)
+    ? await Promise.all(meta.shN!.files.map((f) => loadImagePixels(baseUrl + f, options?.signal)))
+    : null;
 
-  const count = meta.count;
+  return decompressSog(meta, meansL, meansU, quatsImg, scalesImg, sh0Img, shNImgs, options);
+}
 
-  const positions = new Float32Array(count * 3);
-  const rotations = new Float32Array(count * 4);
-  const scales = new Float32Array(count * 3);
-  const colors = new Float32Array(count * 4);
+/**
+ * Load a SOG scene from a File (meta.json or .sog zip bundle).
+ * For a meta.json File, the webp companions must be passed as additional files.
+ */
+export async function loadSogFromFiles(files: File[], options?: LoadOptions): Promise<SplatData> {
+  const bundle = files.find((f) => f.name.toLowerCase().endsWith('.sog'));
+  if (bundle) {
+    return loadSogBundle(await bundle.arrayBuffer(), options);
+  }
 
-  const boundsMin: [number, number, number] = [Infinity, Infinity, Infinity];
-  const boundsMax: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  // Find meta.json
+  const metaFile = files.find((f) => f.name.toLowerCase().endsWith('meta.json') || f.name.toLowerCase().endsWith('.json'));
+  if (!metaFile) throw new Error('No meta.json found in SOG files');
 
-  const SH_C0 = 0.28209479177387814;
-  const norm = Math.SQRT2;
+  // Build a map of filename → File
+  const fileMap = new Map<string, Blob>();
+  for (const f of files) {
+    fileMap.set(f.name, f);
+  }
 
-  for (let i = 0; i < count; i++) {
-    // ---- Position: 16-bit from two 8-bit textures + exponential mapping ----
-    const nx = lerp(
-      meta.means.mins[0], meta.means.maxs[0],
-      ((meansU[i * 4 + 0] << 8) + meansL[i * 4 + 0]) / 65535,
-    );
-    const ny = lerp(
-      meta.means.mins[1], meta.means.maxs[1],
-      ((meansU[i * 4 + 1] << 8) + meansL[i * 4 + 1]) / 65535,
-    );
-    const nz = lerp(
-      meta.means.mins[2], meta.means.maxs[2],
-      ((meansU[i * 4 + 2] << 8) + meansL[i * 4 + 2]) / 65535,
-    );
-    const px = Math.sign(nx) * (Math.exp(Math.abs(nx)) - 1);
-    const py = Math.sign(ny) * (Math.exp(Math.abs(ny)) - 1);
-    const pz = Math.sign(nz) * (Math.exp(Math.abs(nz)) - 1);
-    positions[i * 3] = px;
-    positions[i * 3 + 1] = py;
-    positions[i * 3 + 2] = pz;
-
-    boundsMin[0] = Math.min(boundsMin[0], px);
-    boundsMin[1] = Math.min(boundsMin[1], py);
-    boundsMin[2] = Math.min(boundsMin[2], pz);
-    boundsMax[0] = Math.max(boundsMax[0], px);
-    boundsMax[1] = Math.max(boundsMax[1], py);
-    boundsMax[2] = Math.max(boundsMax[2], pz);
-
-    // ---- Rotation: smallest-three with mode in alpha channel ----
-    const a = (quatsImg[i * 4 + 0] / 255 - 0.5) * norm;
-    const b = (quatsImg[i * 4 + 1] / 255 - 0.5) * norm;
-    const c = (quatsImg[i * 4 + 2] / 255 - 0.5) * norm;
-    const d = Math.sqrt(Math.max(0, 1 - (a * a + b * b + c * c)));
-    const mode = quatsImg[i * 4 + 3] - 252;
-
-    // PlayCanvas Quat.set(x, y, z, w) — we store as (w, x, y, z)
-    switch (mode) {
-      case 0: rotations[i*4]=d; rotations[i*4+1]=a; rotations[i*4+2]=b; rotations[i*4+3]=c; break;
-      case 1: rotations[i*4]=a; rotations[i*4+1]=d; rotations[i*4+2]=b; rotations[i*4+3]=c; break;
-      case 2: rotations[i*4]=a; rotations[i*4+1]=b; rotations[i*4+2]=d; rotations[i*4+3]=c; break;
-      case 3: rotations[i*4]=a; rotations[i*4+1]=b; rotations[i*4+2]=c; rotations[i*4+3]=d; break;
-      default: rotations[i*4]=1; rotations[i*4+1]=0; rotations[i*4+2]=0; rotations[i*4+3]=0; break;
-    }
+  return loadSogFromBlobs(await metaFile.text(), fileMap, options);
+}
 
-    // ---- Scale ----
-    if (meta.version === 2 && meta.scales.codebook) {
-      scales[i * 3]     = Math.exp(meta.scales.codebook[scalesImg[i * 4 + 0]]);
-      scales[i * 3 + 1] = Math.exp(meta.scales.codebook[scalesImg[i * 4 + 1]]);
-      scales[i * 3 + 2] = Math.exp(meta.scales.codebook[scalesImg[i * 4 + 2]]);
-    } else {
-      scales[i * 3]     = Math.exp(lerp(meta.scales.mins![0], meta.scales.maxs![0], scalesImg[i * 4 + 0] / 255));
-      scales[i * 3 + 1] = Math.exp(lerp(meta.scales.mins![1], meta.scales.maxs![1], scalesImg[i * 4 + 1] / 255));
-      scales[i * 3 + 2] = Math.exp(lerp(meta.scales.mins![2], meta.scales.maxs![2], scalesImg[i * 4 + 2] / 255));
-    }
+/**
+ * Load a bundled .sog file: a zip archive holding meta.json and the webp
+ * textures it references (paths relative to meta.json).
+ * Stored and deflate entries are extracted in memory.
+ */
+export async function loadSogBundle(buffer: ArrayBuffer, options?: LoadOptions): Promise<SplatData> {
+  const entries = await unzip(buffer);
+  options?.signal?.throwIfAborted();
 
-    // ---- Color ----
-    if (meta.version === 2 && meta.sh0.codebook) {
-      const cr = meta.sh0.codebook[sh0Img[i * 4 + 0]];
-      const cg = meta.sh0.codebook[sh0Img[i * 4 + 1]];
-      const cb = meta.sh0.codebook[sh0Img[i * 4 + 2]];
-      const ca = sh0Img[i * 4 + 3] / 255;
-      colors[i * 4]     = 0.5 + cr * SH_C0;
-      colors[i * 4 + 1] = 0.5 + cg * SH_C0;
-      colors[i * 4 + 2] = 0.5 + cb * SH_C0;
-      colors[i * 4 + 3] = ca;
-    } else {
-      const cr = lerp(meta.sh0.mins![0], meta.sh0.maxs![0], sh0Img[i * 4 + 0] / 255);
-      const cg = lerp(meta.sh0.mins![1], meta.sh0.maxs![1], sh0Img[i * 4 + 1] / 255);
-      const cb = lerp(meta.sh0.mins![2], meta.sh0.maxs![2], sh0Img[i * 4 + 2] / 255);
-      const logitA = lerp(meta.sh0.mins![3], meta.sh0.maxs![3], sh0Img[i * 4 + 3] / 255);
-      colors[i * 4]     = 0.5 + cr * SH_C0;
-      colors[i * 4 + 1] = 0.5 + cg * SH_C0;
-      colors[i * 4 + 2] = 0.5 + cb * SH_C0;
-      colors[i * 4 + 3] = 1.0 / (1.0 + Math.exp(-logitA));
-    }
+  const metaPath = [...entries.keys()].find((name) => name === 'meta.json' || name.endsWith('/meta.json'));
+  if (!metaPath) throw new Error('SOG: bundle has no meta.json');
+  const dir = metaPath.slice(0, metaPath.length - 'meta.json'.length);
+
+  const fileMap = new Map<string, Blob>();
+  for (const [name, blob] of entries) {
+    if (name.startsWith(dir)) fileMap.set(name.slice(dir.length), blob);
   }
 
-  return { count, positions, rotations, scales, colors, bounds: { min: boundsMin, max: boundsMax } };
+  return loadSogFromBlobs(await entries.get(metaPath)!.text(), fileMap, options);
 }
 
-/**
- * Load a SOG scene from a File (meta.json or .sog zip bundle).
- * For a meta.json File, the webp companions must be passed as additional files.
- */
-export async function loadSogFromFiles(files: File[]): Promise<SplatData> {
-  // Find meta.json
-  const metaFile = files.find((f) => f.name.toLowerCase().endsWith('meta.json') || f.name.toLowerCase().endsWith('.json'));
-  if (!metaFile) throw new Error('No meta.json found in SOG files');
+// ---- internal helpers ----
 
-  const metaText = await metaFile.text();
+/** Parse meta.json, decode the textures it names from `fileMap`, and decompress. */
+async function loadSogFromBlobs(
+  metaText: string,
+  fileMap: Map<string, Blob>,
+  options?: LoadOptions,
+): Promise<SplatData> {
   let meta: SogMeta = JSON.parse(metaText);
 
   if (meta.version !== 2) {
@@ -166,13 +136,6 @@ export async function loadSogFromFiles(files: File[]): Promise<SplatData> {
   }
   patchCodebooks(meta);
 
-  // Build a map of filename → File
-  const fileMap = new Map<string, File>();
-  for (const f of files) {
-    fileMap.set(f.name, f);
-  }
-
-  // Load textures from the file map
   const loadTex = async (filename: string): Promise<Uint8Array> => {
     const file = fileMap.get(filename);
     if (!file) throw new Error(`SOG missing file: ${filename}`);
@@ -183,12 +146,12 @@ export async function loadSogFromFiles(files: File[]): Promise<SplatData> {
   const [quatsImg] = await Promise.all(meta.quats.files.map(loadTex));
   const [scalesImg] = await Promise.all(meta.scales.files.map(loadTex));
   const [sh0Img] = await Promise.all(meta.sh0.files.map(loadTex));
+  const shNImgs = hasShN(meta) ? await Promise.all(meta.shN!.files.map(loadTex)) : null;
 
-  // Reuse the same decompression logic (copy from loadSog body)
-  return decompressSog(meta, meansL, meansU, quatsImg, scalesImg, sh0Img);
-}
+  options?.signal?.throwIfAborted();
 
-// ---- internal helpers ----
+  return decompressSog(meta, meansL, meansU, quatsImg, scalesImg, sh0Img, shNImgs, options);
+}
 
 function upgradeMeta(meta: any): SogMeta {
   return {
@@ -211,13 +174,19 @@ function patchCodebooks(meta: SogMeta): void {
   }
 }
 
+/** v2 shN (palette + labels) that decompressSog can decode. */
+function hasShN(meta: SogMeta): boolean {
+  const shN = meta.shN;
+  return meta.version === 2 && !!shN?.codebook && !!shN.bands && shN.bands >= 1 && shN.bands <= 3 && shN.files.length >= 2;
+}
+
 function lerp(a: number, b: number, t: number): number {
   return a * (1 - t) + b * t;
 }
 
 /** Load a webp image from URL and return RGBA pixel data. */
-async function loadImagePixels(url: string): Promise<Uint8Array> {
-  const resp = await fetch(url);
+async function loadImagePixels(url: string, signal?: AbortSignal): Promise<Uint8Array> {
+  const resp = await fetch(url, { signal });
   if (!resp.ok) throw new Error(`Failed to fetch ${url}: ${resp.status}`);
   const blob = await resp.blob();
   return loadImagePixelsFromBlob(blob);
@@ -235,81 +204,107 @@ async function loadImagePixelsFromBlob(blob: Blob): Promise<Uint8Array> {
 }
 
 /** Shared decompression logic for both URL-based and File-based loading. */
-function decompressSog(
+async function decompressSog(
   meta: SogMeta,
   meansL: Uint8Array,
   meansU: Uint8Array,
   quatsImg: Uint8Array,
   scalesImg: Uint8Array,
   sh0Img: Uint8Array,
-): SplatData {
+  shNImgs: Uint8Array[] | null,
+  options?: LoadOptions,
+): Promise<SplatData> {
   const count = meta.count;
   const positions = new Float32Array(count * 3);
   const rotations = new Float32Array(count * 4);
   const scales = new Float32Array(count * 3);
   const colors = new Float32Array(count * 4);
 
+  // shN: [centroids, labels]; centroid e spans `dim` pixels of row e / 64
+  const shDegree = shNImgs ? meta.shN!.bands! : 0;
+  const dim = shDimForDegree(shDegree);
+  const shCoeffs = shNImgs ? new Float32Array(count * 3 * dim) : undefined;
+  const shCodebook = meta.shN?.codebook;
+  const centroidsWidth = SH_PALETTE_ROW * dim;
+
   const boundsMin: [number, number, number] = [Infinity, Infinity, Infinity];
   const boundsMax: [number, number, number] = [-Infinity, -Infinity, -Infinity];
 
   const SH_C0 = 0.28209479177387814;
   const norm = Math.SQRT2;
 
-  for (let i = 0; i < count; i++) {
-    // Position
-    const nx = lerp(meta.means.mins[0], meta.means.maxs[0], ((meansU[i*4+0] << 8) + meansL[i*4+0]) / 65535);
-    const ny = lerp(meta.means.mins[1], meta.means.maxs[1], ((meansU[i*4+1] << 8) + meansL[i*4+1]) / 65535);
-    const nz = lerp(meta.means.mins[2], meta.means.maxs[2], ((meansU[i*4+2] << 8) + meansL[i*4+2]) / 65535);
-    const px = Math.sign(nx) * (Math.exp(Math.abs(nx)) - 1);
-    const py = Math.sign(ny) * (Math.exp(Math.abs(ny)) - 1);
-    const pz = Math.sign(nz) * (Math.exp(Math.abs(nz)) - 1);
-    positions[i*3] = px; positions[i*3+1] = py; positions[i*3+2] = pz;
-
-    boundsMin[0] = Math.min(boundsMin[0], px); boundsMin[1] = Math.min(boundsMin[1], py); boundsMin[2] = Math.min(boundsMin[2], pz);
-    boundsMax[0] = Math.max(boundsMax[0], px); boundsMax[1] = Math.max(boundsMax[1], py); boundsMax[2] = Math.max(boundsMax[2], pz);
-
-    // Rotation
-    const a = (quatsImg[i*4+0] / 255 - 0.5) * norm;
-    const b = (quatsImg[i*4+1] / 255 - 0.5) * norm;
-    const c = (quatsImg[i*4+2] / 255 - 0.5) * norm;
-    const d = Math.sqrt(Math.max(0, 1 - (a*a + b*b + c*c)));
-    const mode = quatsImg[i*4+3] - 252;
-    switch (mode) {
-      case 0: rotations[i*4]=d; rotations[i*4+1]=a; rotations[i*4+2]=b; rotations[i*4+3]=c; break;
-      case 1: rotations[i*4]=a; rotations[i*4+1]=d; rotations[i*4+2]=b; rotations[i*4+3]=c; break;
-      case 2: rotations[i*4]=a; rotations[i*4+1]=b; rotations[i*4+2]=d; rotations[i*4+3]=c; break;
-      case 3: rotations[i*4]=a; rotations[i*4+1]=b; rotations[i*4+2]=c; rotations[i*4+3]=d; break;
-      default: rotations[i*4]=1; rotations[i*4+1]=0; rotations[i*4+2]=0; rotations[i*4+3]=0; break;
+  await decodeInSlices(count, (start, end) => {
+    for (let i = start; i < end; i++) {
+      // Position
+      const nx = lerp(meta.means.mins[0], meta.means.maxs[0], ((meansU[i*4+0] << 8) + meansL[i*4+0]) / 65535);
+      const ny = lerp(meta.means.mins[1], meta.means.maxs[1], ((meansU[i*4+1] << 8) + meansL[i*4+1]) / 65535);
+      const nz = lerp(meta.means.mins[2], meta.means.maxs[2], ((meansU[i*4+2] << 8) + meansL[i*4+2]) / 65535);
+      const px = Math.sign(nx) * (Math.exp(Math.abs(nx)) - 1);
+      const py = Math.sign(ny) * (Math.exp(Math.abs(ny)) - 1);
+      const pz = Math.sign(nz) * (Math.exp(Math.abs(nz)) - 1);
+      positions[i*3] = px; positions[i*3+1] = py; positions[i*3+2] = pz;
+
+      boundsMin[0] = Math.min(boundsMin[0], px); boundsMin[1] = Math.min(boundsMin[1], py); boundsMin[2] = Math.min(boundsMin[2], pz);
+      boundsMax[0] = Math.max(boundsMax[0], px); boundsMax[1] = Math.max(boundsMax[1], py); boundsMax[2] = Math.max(boundsMax[2], pz);
+
+      // Rotation
+      const a = (quatsImg[i*4+0] / 255 - 0.5) * norm;
+      const b = (quatsImg[i*4+1] / 255 - 0.5) * norm;
+      const c = (quatsImg[i*4+2] / 255 - 0.5) * norm;
+      const d = Math.sqrt(Math.max(0, 1 - (a*a + b*b + c*c)));
+      const mode = quatsImg[i*4+3] - 252;
+      switch (mode) {
+        case 0: rotations[i*4]=d; rotations[i*4+1]=a; rotations[i*4+2]=b; rotations[i*4+3]=c; break;
+        case 1: rotations[i*4]=a; rotations[i*4+1]=d; rotations[i*4+2]=b; rotations[i*4+3]=c; break;
+        case 2: rotations[i*4]=a; rotations[i*4+1]=b; rotations[i*4+2]=d; rotations[i*4+3]=c; break;
+        case 3: rotations[i*4]=a; rotations[i*4+1]=b; rotations[i*4+2]=c; rotations[i*4+3]=d; break;
+        default: rotations[i*4]=1; rotations[i*4+1]=0; rotations[i*4+2]=0; rotations[i*4+3]=0; break;
+      }
+
+      // Scale
+      if (meta.version === 2 && meta.scales.codebook) {
+        scales[i*3]   = Math.exp(meta.scales.codebook[scalesImg[i*4+0]]);
+        scales[i*3+1] = Math.exp(meta.scales.codebook[scalesImg[i*4+1]]);
+        scales[i*3+2] = Math.exp(meta.scales.codebook[scalesImg[i*4+2]]);
+      } else {
+        scales[i*3]   = Math.exp(lerp(meta.scales.mins![0], meta.scales.maxs![0], scalesImg[i*4+0] / 255));
+        scales[i*3+1] = Math.exp(lerp(meta.scales.mins![1], meta.scales.maxs![1], scalesImg[i*4+1] / 255));
+        scales[i*3+2] = Math.exp(lerp(meta.scales.mins![2], meta.scales.maxs![2], scalesImg[i*4+2] / 255));
+      }
+
+      // Color
+      if (meta.version === 2 && meta.sh0.codebook) {
+        colors[i*4]   = 0.5 + meta.sh0.codebook[sh0Img[i*4+0]] * SH_C0;
+        colors[i*4+1] = 0.5 + meta.sh0.codebook[sh0Img[i*4+1]] * SH_C0;
+        colors[i*4+2] = 0.5 + meta.sh0.codebook[sh0Img[i*4+2]] * SH_C0;
+        colors[i*4+3] = sh0Img[i*4+3] / 255;
+      } else {
+        const cr = lerp(meta.sh0.mins![0], meta.sh0.maxs![0], sh0Img[i*4+0] / 255);
+        const cg = lerp(meta.sh0.mins![1], meta.sh0.maxs![1], sh0Img[i*4+1] / 255);
+        const cb = lerp(meta.sh0.mins![2], meta.sh0.maxs![2], sh0Img[i*4+2] / 255);
+        const logitA = lerp(meta.sh0.mins![3], meta.sh0.maxs![3], sh0Img[i*4+3] / 255);
+        colors[i*4]   = 0.5 + cr * SH_C0;
+        colors[i*4+1] = 0.5 + cg * SH_C0;
+        colors[i*4+2] = 0.5 + cb * SH_C0;
+        colors[i*4+3] = 1.0 / (1.0 + Math.exp(-logitA));
+      }
+
+      // SH bands 1-3
+      if (shCoeffs) {
+        const [centroids, labels] = shNImgs!;
+        const entry = labels[i*4] + (labels[i*4+1] << 8);
+        const px = Math.floor(entry / SH_PALETTE_ROW) * centroidsWidth + (entry % SH_PALETTE_ROW) * dim;
+        for (let j = 0; j < dim; j++) {
+          for (let c = 0; c < 3; c++) {
+            shCoeffs[i * 3 * dim + c * dim + j] = shCodebook![centroids[(px + j) * 4 + c]];
+          }
+        }
+      }
     }
+  }, options);
 
-    // Scale
-    if (meta.version === 2 && meta.scales.codebook) {
-      scales[i*3]   = Math.exp(meta.scales.codebook[scalesImg[i*4+0]]);
-      scales[i*3+1] = Math.exp(meta.scales.codebook[scalesImg[i*4+1]]);
-      scales[i*3+2] = Math.exp(meta.scales.codebook[scalesImg[i*4+2]]);
-    } else {
-      scales[i*3]   = Math.exp(lerp(meta.scales.mins![0], meta.scales.maxs![0], scalesImg[i*4+0] / 255));
-      scales[i*3+1] = Math.exp(lerp(meta.scales.mins![1], meta.scales.maxs![1], scalesImg[i*4+1] / 255));
-      scales[i*3+2] = Math.exp(lerp(meta.scales.mins![2], meta.scales.maxs![2], scalesImg[i*4+2] / 255));
-    }
-
-    // Color
-    if (meta.version === 2 && meta.sh0.codebook) {
-      colors[i*4]   = 0.5 + meta.sh0.codebook[sh0Img[i*4+0]] * SH_C0;
-      colors[i*4+1] = 0.5 + meta.sh0.codebook[sh0Img[i*4+1]] * SH_C0;
-      colors[i*4+2] = 0.5 + meta.sh0.codebook[sh0Img[i*4+2]] * SH_C0;
-      colors[i*4+3] = sh0Img[i*4+3] / 255;
-    } else {
-      const cr = lerp(meta.sh0.mins![0], meta.sh0.maxs![0], sh0Img[i*4+0] / 255);
-      const cg = lerp(meta.sh0.mins![1], meta.sh0.maxs![1], sh0Img[i*4+1] / 255);
-      const cb = lerp(meta.sh0.mins![2], meta.sh0.maxs![2], sh0Img[i*4+2] / 255);
-      const logitA = lerp(meta.sh0.mins![3], meta.sh0.maxs![3], sh0Img[i*4+3] / 255);
-      colors[i*4]   = 0.5 + cr * SH_C0;
-      colors[i*4+1] = 0.5 + cg * SH_C0;
-      colors[i*4+2] = 0.5 + cb * SH_C0;
-      colors[i*4+3] = 1.0 / (1.0 + Math.exp(-logitA));
-    }
-  }
-
-  return { count, positions, rotations, scales, colors, bounds: { min: boundsMin, max: boundsMax } };
+  return {
+    count, positions, rotations, scales, colors, shCoeffs, shDegree, extras: {},
+    bounds: { min: boundsMin, max: boundsMax },
+  };
 }
@@ -0,0 +1,35 @@
+// Worker entry for loadSplat({ worker: true }): decodes off the main thread and
+// transfers the SplatData arrays back without copying.
+import type { SplatData, LoadProgress } from '../types';
+import { decodeSplat } from './decode-splat';
+
+export interface SplatWorkerRequest {
+  source: string | File;
+  /** Post progress messages before the result. */
+  reportProgress: boolean;
+}
+
+/** Any number of progress messages, then exactly one result. */
+export type SplatWorkerResponse =
+  | { progress: LoadProgress }
+  | { ok: true; data: SplatData }
+  | { ok: false; message: string };
+
+self.onmessage = async (e: MessageEvent<SplatWorkerRequest>) => {
+  let response: SplatWorkerResponse;
+  const transfer: ArrayBuffer[] = [];
+  try {
+    const onProgress = e.data.reportProgress
+      ? (progress: LoadProgress) => self.postMessage({ progress } satisfies SplatWorkerResponse)
+      : undefined;
+    const data = await decodeSplat(e.data.source, { onProgress });
+    response = { ok: true, data };
+    const arrays = [data.positions, data.rotations, data.scales, data.colors, data.shCoeffs, ...Object.values(data.extras ?? {})];
+    for (const arr of arrays) {
+      if (arr && !transfer.includes(arr.buffer as ArrayBuffer)) transfer.push(arr.buffer as ArrayBuffer);
+    }
+  } catch (err) {
+    response = { ok: false, message: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response, { transfer });
+};
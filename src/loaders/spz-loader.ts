@@ -1,4 +1,5 @@
-import type { SplatData } from '../types';
+import type { SplatData, LoadOptions } from '../types';
+import { decodeInSlices } from './progress';
 
 const SPZ_MAGIC = 0x5053474e; // "NGSP" LE
 const COLOR_SCALE = 0.15;
@@ -83,8 +84,9 @@ function dimForDegree(degree: number): number {
 /**
  * Load Niantic .spz (gzipped Gaussian splat) into SplatData.
  * Spec: https://github.com/nianticlabs/spz
+ * `options.onProgress` reports splats decoded; `options.signal` aborts between slices.
  */
-export async function loadSpz(buffer: ArrayBuffer): Promise<SplatData> {
+export async function loadSpz(buffer: ArrayBuffer, options?: LoadOptions): Promise<SplatData> {
   const decompressed = await decompressGzip(buffer);
   const data = new Uint8Array(decompressed);
   const view = new DataView(decompressed);
@@ -120,100 +122,86 @@ export async function loadSpz(buffer: ArrayBuffer): Promise<SplatData> {
 
   // Positions: numPoints * 9 bytes (24-bit signed per axis)
   const posScale = 1 / (1 << fractionalBits);
-  const positions = new Float32Array(numPoints * 3);
-  for (let i = 0; i < numPoints * 3; i++) {
-    const fixed = read24bitSigned(data, offset);
-    positions[i] = fixed * posScale;
-    offset += 3;
-  }
+  const positionsRaw = data.subarray(offset, offset + numPoints * 9);
+  offset += numPoints * 9;
 
   // Alphas: numPoints bytes
-  const alphas = data.slice(offset, offset + numPoints);
+  const alphas = data.subarray(offset, offset + numPoints);
   offset += numPoints;
 
   // Colors: numPoints * 3 bytes (RGB)
-  const colorsRaw = data.slice(offset, offset + numPoints * 3);
+  const colorsRaw = data.subarray(offset, offset + numPoints * 3);
   offset += numPoints * 3;
 
   // Scales: numPoints * 3 bytes — (log_scale + 10) * 16 per component; decode then exp for linear
-  const scalesRaw = data.slice(offset, offset + numPoints * 3);
+  const scalesRaw = data.subarray(offset, offset + numPoints * 3);
   offset += numPoints * 3;
 
   // Rotations: v3 -> numPoints * 4 bytes, v2 -> numPoints * 3 bytes
   const rotationBytes = version === 3 ? 4 : 3;
-  const rotationsRaw = data.slice(offset, offset + numPoints * rotationBytes);
+  const rotationsRaw = data.subarray(offset, offset + numPoints * rotationBytes);
   offset += numPoints * rotationBytes;
 
   // Spherical harmonics: numPoints * shDim * 3 bytes
   const shBytes = numPoints * shDim * 3;
-  const shRaw = shDim > 0 ? data.slice(offset, offset + shBytes) : null;
+  const shRaw = shDim > 0 ? data.subarray(offset, offset + shBytes) : null;
   offset += shBytes;
 
   // Build output arrays
+  const positions = new Float32Array(numPoints * 3);
   const rotations = new Float32Array(numPoints * 4);
   const scales = new Float32Array(numPoints * 3);
   const colors = new Float32Array(numPoints * 4);
+  // SPZ layout: coefficient-major then RGB (sh0_r, sh0_g, sh0_b, sh1_r, ...).
+  // Our layout: [R0..R14, G0..G14, B0..B14] per splat (15 coeffs × 3 channels).
+  const shCoeffs = shRaw ? new Float32Array(numPoints * 3 * shDim) : undefined;
 
   const boundsMin: [number, number, number] = [Infinity, Infinity, Infinity];
   const boundsMax: [number, number, number] = [-Infinity, -Infinity, -Infinity];
 
-  for (let i = 0; i < numPoints; i++) {
-    const q = version === 3
-      ? unpackQuaternionSmallestThree(rotationsRaw, i * 4)
-      : unpackQuaternionFirstThree(rotationsRaw, i * 3);
-    rotations[i * 4] = q[0];
-    rotations[i * 4 + 1] = q[1];
-    rotations[i * 4 + 2] = q[2];
-    rotations[i * 4 + 3] = q[3];
-
-    // SPZ stores log(scale) as (log_scale + 10) * 16 (C++ GaussianCloud from PLY uses log scale)
-    const logScale = (raw: number) => Math.max(-20, Math.min(5, raw / 16 - 10));
-    scales[i * 3] = Math.exp(logScale(scalesRaw[i * 3]));
-    scales[i * 3 + 1] = Math.exp(logScale(scalesRaw[i * 3 + 1]));
-    scales[i * 3 + 2] = Math.exp(logScale(scalesRaw[i * 3 + 2]));
-
-    // DC coeff -> linear color, matching PLY: 0.5 + SH_C0 * dc_coeff
-    colors[i * 4]     = 0.5 + SH_C0 * ((colorsRaw[i * 3]     / 255 - 0.5) / COLOR_SCALE);
-    colors[i * 4 + 1] = 0.5 + SH_C0 * ((colorsRaw[i * 3 + 1] / 255 - 0.5) / COLOR_SCALE);
-    colors[i * 4 + 2] = 0.5 + SH_C0 * ((colorsRaw[i * 3 + 2] / 255 - 0.5) / COLOR_SCALE);
-    // Alpha byte is already sigmoid(logit)*255; divide by 255 for 0..1 opacity
-    colors[i * 4 + 3] = alphas[i] / 255;
-
-    const px = positions[i * 3];
-    const py = positions[i * 3 + 1];
-    const pz = positions[i * 3 + 2];
-    boundsMin[0] = Math.min(boundsMin[0], px);
-    boundsMin[1] = Math.min(boundsMin[1], py);
-    boundsMin[2] = Math.min(boundsMin[2], pz);
-    boundsMax[0] = Math.max(boundsMax[0], px);
-    boundsMax[1] = Math.max(boundsMax[1], py);
-    boundsMax[2] = Math.max(boundsMax[2], pz);
-  }
-
+  // SPZ stores log(scale) as (log_scale + 10) * 16 (C++ GaussianCloud from PLY uses log scale)
+  const logScale = (raw: number) => Math.max(-20, Math.min(5, raw / 16 - 10));
   // Clamp colors to [0,1] for base RGB (SH can add outside range)
-  for (let i = 0; i < numPoints * 4; i++) {
-    if (i % 4 !== 3) {
-      colors[i] = Math.max(0, Math.min(1, colors[i]));
-    }
-  }
+  const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+  await decodeInSlices(numPoints, (start, end) => {
+    for (let i = start; i < end; i++) {
+      for (let k = 0; k < 3; k++) {
+        const p = read24bitSigned(positionsRaw, (i * 3 + k) * 3) * posScale;
+        positions[i * 3 + k] = p;
+        boundsMin[k] = Math.min(boundsMin[k], p);
+        boundsMax[k] = Math.max(boundsMax[k], p);
+      }
 
-  let shCoeffs: Float32Array | undefined;
-  if (shRaw && shDim > 0) {
-    // SPZ layout: coefficient-major then RGB (sh0_r, sh0_g, sh0_b, sh1_r, ...).
-    // Our layout: [R0..R14, G0..G14, B0..B14] per splat (15 coeffs × 3 channels).
-    shCoeffs = new Float32Array(numPoints * 45);
-    for (let i = 0; i < numPoints; i++) {
-      const base = i * shDim * 3;
-      for (let k = 0; k < 15; k++) {
-        const r = k < shDim ? unquantizeSH(shRaw[base + k * 3]) : 0;
-        const g = k < shDim ? unquantizeSH(shRaw[base + k * 3 + 1]) : 0;
-        const b = k < shDim ? unquantizeSH(shRaw[base + k * 3 + 2]) : 0;
-        shCoeffs[i * 45 + 0 * 15 + k] = r;
-        shCoeffs[i * 45 + 1 * 15 + k] = g;
-        shCoeffs[i * 45 + 2 * 15 + k] = b;
+      const q = version === 3
+        ? unpackQuaternionSmallestThree(rotationsRaw, i * 4)
+        : unpackQuaternionFirstThree(rotationsRaw, i * 3);
+      rotations[i * 4] = q[0];
+      rotations[i * 4 + 1] = q[1];
+      rotations[i * 4 + 2] = q[2];
+      rotations[i * 4 + 3] = q[3];
+
+      scales[i * 3] = Math.exp(logScale(scalesRaw[i * 3]));
+      scales[i * 3 + 1] = Math.exp(logScale(scalesRaw[i * 3 + 1]));
+      scales[i * 3 + 2] = Math.exp(logScale(scalesRaw[i * 3 + 2]));
+
+      // DC coeff -> linear color, matching PLY: 0.5 + SH_C0 * dc_coeff
+      colors[i * 4]     = clamp01(0.5 + SH_C0 * ((colorsRaw[i * 3]     / 255 - 0.5) / COLOR_SCALE));
+      colors[i * 4 + 1] = clamp01(0.5 + SH_C0 * ((colorsRaw[i * 3 + 1] / 255 - 0.5) / COLOR_SCALE));
+      colors[i * 4 + 2] = clamp01(0.5 + SH_C0 * ((colorsRaw[i * 3 + 2] / 255 - 0.5) / COLOR_SCALE));
+      // Alpha byte is already sigmoid(logit)*255; divide by 255 for 0..1 opacity
+      colors[i * 4 + 3] = alphas[i] / 255;
+
+      if (shRaw && shCoeffs) {
+        const base = i * shDim * 3;
+        for (let k = 0; k < shDim; k++) {
+          shCoeffs[base + k] = unquantizeSH(shRaw[base + k * 3]);
+          shCoeffs[base + shDim + k] = unquantizeSH(shRaw[base + k * 3 + 1]);
+          shCoeffs[base + 2 * shDim + k] = unquantizeSH(shRaw[base + k * 3 + 2]);
+        }
       }
     }
-  }
+  }, options);
 
   return {
     count: numPoints,
@@ -222,6 +210,8 @@ export async function loadSpz(buffer: ArrayBuffer): Promise<SplatData> {
     scales,
     colors,
     shCoeffs,
+    shDegree: shCoeffs ? shDegree : 0,
+    extras: {},
     bounds: { min: boundsMin, max: boundsMax },
   };
 }
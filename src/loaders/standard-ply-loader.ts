@@ -1,25 +1,69 @@
-import type { PlyFile, SplatData } from '../types';
-import { readTypedValue } from './ply-parser';
+import type { PlyFile, PlyProperty, SplatData, SplatAttributeArray } from '../types';
+import { readTypedValue, elementOffset, elementStride, normalizePly, createPlyTypedArray } from './ply-parser';
+import { shDegreeForDim, shDimForDegree } from '../splat-data';
+
+const SH_C0 = 0.28209479177387814;
+// Vertices per block on the float32 fast path; unaligned blocks are copied through a scratch buffer
+const FAST_BLOCK_SPLATS = 1 << 14;
+// Float32Array views read platform byte order; PLY data here is little-endian
+const LITTLE_ENDIAN_HOST = new Uint8Array(new Uint32Array([1]).buffer)[0] === 1;
+
+/** Generated per-layout routine: decodes `n` vertices from `f` (one row per vertex) into outputs from `start`. */
+type Float32Extractor = (
+  f: Float32Array,
+  n: number,
+  start: number,
+  positions: Float32Array,
+  rotations: Float32Array,
+  scales: Float32Array,
+  colors: Float32Array,
+  shCoeffs: Float32Array | undefined,
+  extras: SplatAttributeArray[],
+  boundsMin: number[],
+  boundsMax: number[],
+) => void;
+
+/**
+ * Incremental decoder for the vertex element of a standard PLY.
+ * Output arrays are allocated for the full vertex count up front so that
+ * ranges can be decoded as bytes arrive (see loadPlyStream).
+ */
+export interface StandardPlyDecoder {
+  /** Full-size output; bounds grow as vertices are decoded. */
+  data: SplatData;
+  /**
+   * Decode vertices [start, end). `offset` is the byte offset in `view` of vertex `start`.
+   * Returns the byte offset just past vertex `end - 1`.
+   */
+  decode(view: DataView, offset: number, start: number, end: number): number;
+}
 
 /**
  * Load a standard (uncompressed) Gaussian Splat PLY file.
- * Expected properties: x, y, z, rot_0..3, scale_0..2, f_dc_0..2, opacity
+ * Expected properties: x, y, z, rot_0..3, scale_0..2, f_dc_0..2, opacity;
+ * optional f_rest_* (SH degree 1-3). Any other vertex property goes to `extras`.
  */
 export function loadStandardPly(buffer: ArrayBuffer, ply: PlyFile): SplatData {
+  ({ buffer, ply } = normalizePly(buffer, ply));
+  const decoder = createStandardPlyDecoder(ply);
+  decoder.decode(new DataView(buffer), elementOffset(ply, 'vertex'), 0, decoder.data.count);
+  return decoder.data;
+}
+
+/**
+ * Validate the vertex layout of a standard PLY and allocate its output arrays.
+ * The decoder reads binary little-endian rows; see normalizePly for other formats.
+ *
+ * When every vertex property is float32 (the usual 3DGS export) rows are read
+ * through Float32Array views by a routine generated for the exact layout.
+ * Other layouts, or environments that forbid `new Function` (CSP), use the
+ * per-property reader. `options.fastPath: false` forces the latter (benchmarks).
+ */
+export function createStandardPlyDecoder(ply: PlyFile, options?: { fastPath?: boolean }): StandardPlyDecoder {
   const vertexEl = ply.elements.find((e) => e.name === 'vertex');
   if (!vertexEl) throw new Error('No vertex element found in PLY');
 
   const count = vertexEl.count;
-  const view = new DataView(buffer);
-
-  // Compute offset to vertex data
-  let offset = ply.headerByteLength;
-  for (const el of ply.elements) {
-    if (el.name === 'vertex') break;
-    let stride = 0;
-    for (const p of el.properties) stride += p.byteSize;
-    offset += stride * el.count;
-  }
 
   // Build property name → index map
   const propIndex = new Map<string, number>();
@@ -40,94 +84,197 @@ export function loadStandardPly(buffer: ArrayBuffer, ply: PlyFile): SplatData {
   }
 
   // Detect how many SH rest coefficients are available
+  let restCount = 0;
+  while (propIndex.has(`f_rest_${restCount}`)) restCount++;
+  // f_rest_* is channel-major: [R0..Rn-1, G0..Gn-1, B0..Bn-1] with n = restCount / 3.
+  // Keep the whole bands that fit; shProps lists the source of each output coefficient.
+  const fileDim = Math.floor(restCount / 3);
+  const shDegree = shDegreeForDim(fileDim);
+  const shDim = shDimForDegree(shDegree);
   const shProps: string[] = [];
-  for (let i = 0; i < 45; i++) {
-    if (propIndex.has(`f_rest_${i}`)) shProps.push(`f_rest_${i}`);
-    else break;
+  for (let ch = 0; ch < 3 && shDegree > 0; ch++) {
+    for (let k = 0; k < shDim; k++) shProps.push(`f_rest_${ch * fileDim + k}`);
   }
-  const hasSH = shProps.length >= 3; // at least band 1 (3 coefficients per channel = 9 total)
+
+  // Everything else is carried through as extras
+  const used = new Set([...reqPos, ...reqRot, ...reqScale, ...reqColor, 'opacity']);
+  for (let i = 0; i < restCount; i++) used.add(`f_rest_${i}`);
+  const extraProps = vertexEl.properties.filter((p) => !used.has(p.name));
+  const extras: Record<string, SplatAttributeArray> = {};
+  for (const p of extraProps) extras[p.name] = createPlyTypedArray(p.type, count);
+  const extraArrays = extraProps.map((p) => extras[p.name]);
 
   const positions = new Float32Array(count * 3);
   const rotations = new Float32Array(count * 4);
   const scales = new Float32Array(count * 3);
   const colors = new Float32Array(count * 4);
-  const shCoeffs = hasSH ? new Float32Array(count * 45) : undefined;
+  const shCoeffs = shDegree > 0 ? new Float32Array(count * shProps.length) : undefined;
 
   const boundsMin: [number, number, number] = [Infinity, Infinity, Infinity];
   const boundsMax: [number, number, number] = [-Infinity, -Infinity, -Infinity];
 
-  const SH_C0 = 0.28209479177387814;
-
-  for (let i = 0; i < count; i++) {
-    // Read all properties for this vertex
-    const values: number[] = [];
-    let cursor = offset;
-    for (const prop of vertexEl.properties) {
-      const r = readTypedValue(view, cursor, prop.type);
-      values.push(r.value);
-      cursor = r.next;
-    }
-    offset = cursor;
-
-    // Position
-    const px = values[propIndex.get('x')!];
-    const py = values[propIndex.get('y')!];
-    const pz = values[propIndex.get('z')!];
-    positions[i * 3] = px;
-    positions[i * 3 + 1] = py;
-    positions[i * 3 + 2] = pz;
-
-    // Rotation: rot_0 = w, rot_1 = x, rot_2 = y, rot_3 = z (PlayCanvas convention)
-    const rw = values[propIndex.get('rot_0')!];
-    const rx = values[propIndex.get('rot_1')!];
-    const ry = values[propIndex.get('rot_2')!];
-    const rz = values[propIndex.get('rot_3')!];
-    // Normalize
-    const rlen = Math.sqrt(rw * rw + rx * rx + ry * ry + rz * rz) || 1;
-    rotations[i * 4] = rw / rlen;     // w
-    rotations[i * 4 + 1] = rx / rlen; // x
-    rotations[i * 4 + 2] = ry / rlen; // y
-    rotations[i * 4 + 3] = rz / rlen; // z
-
-    // Scale: stored as log(scale), we need exp(scale)
-    scales[i * 3] = Math.exp(values[propIndex.get('scale_0')!]);
-    scales[i * 3 + 1] = Math.exp(values[propIndex.get('scale_1')!]);
-    scales[i * 3 + 2] = Math.exp(values[propIndex.get('scale_2')!]);
-
-    // Color: SH DC coefficient → linear color
-    colors[i * 4] = Math.max(0, Math.min(1, 0.5 + SH_C0 * values[propIndex.get('f_dc_0')!]));
-    colors[i * 4 + 1] = Math.max(0, Math.min(1, 0.5 + SH_C0 * values[propIndex.get('f_dc_1')!]));
-    colors[i * 4 + 2] = Math.max(0, Math.min(1, 0.5 + SH_C0 * values[propIndex.get('f_dc_2')!]));
-
-    // Opacity: stored as logit, we need sigmoid
-    const logit = values[propIndex.get('opacity')!];
-    colors[i * 4 + 3] = 1.0 / (1.0 + Math.exp(-logit));
-
-    // SH rest coefficients (bands 1-3)
-    // Standard PLY layout: f_rest_0..44 ordered as [R0..R14, G0..G14, B0..B14]
-    if (shCoeffs && hasSH) {
-      for (let k = 0; k < shProps.length && k < 45; k++) {
-        shCoeffs[i * 45 + k] = values[propIndex.get(shProps[k])!];
-      }
-      // remaining coefficients stay 0
-    }
-
-    // Bounds
-    boundsMin[0] = Math.min(boundsMin[0], px);
-    boundsMin[1] = Math.min(boundsMin[1], py);
-    boundsMin[2] = Math.min(boundsMin[2], pz);
-    boundsMax[0] = Math.max(boundsMax[0], px);
-    boundsMax[1] = Math.max(boundsMax[1], py);
-    boundsMax[2] = Math.max(boundsMax[2], pz);
-  }
-
-  return {
+  const data: SplatData = {
     count,
     positions,
     rotations,
     scales,
     colors,
     shCoeffs,
+    shDegree,
+    extras,
     bounds: { min: boundsMin, max: boundsMax },
   };
+
+  const extract = options?.fastPath === false
+    ? null
+    : compileFloat32Extractor(vertexEl.properties, propIndex, shProps, extraProps.map((p) => p.name));
+  if (extract) {
+    const stride = elementStride(vertexEl);
+    let scratch: Uint8Array | null = null;
+    const decodeFast = (view: DataView, offset: number, start: number, end: number): number => {
+      for (let blockStart = start; blockStart < end; blockStart += FAST_BLOCK_SPLATS) {
+        const n = Math.min(end, blockStart + FAST_BLOCK_SPLATS) - blockStart;
+        const at = view.byteOffset + offset;
+        let rows: Float32Array;
+        if (at % 4 === 0) {
+          rows = new Float32Array(view.buffer, at, (n * stride) / 4);
+        } else {
+          scratch ??= new Uint8Array(FAST_BLOCK_SPLATS * stride);
+          scratch.set(new Uint8Array(view.buffer, at, n * stride));
+          rows = new Float32Array(scratch.buffer, 0, (n * stride) / 4);
+        }
+        extract(rows, n, blockStart, positions, rotations, scales, colors, shCoeffs, extraArrays, boundsMin, boundsMax);
+        offset += n * stride;
+      }
+      return offset;
+    };
+    return { data, decode: decodeFast };
+  }
+
+  const decode = (view: DataView, offset: number, start: number, end: number): number => {
+    for (let i = start; i < end; i++) {
+      // Read all properties for this vertex
+      const values: number[] = [];
+      let cursor = offset;
+      for (const prop of vertexEl.properties) {
+        const r = readTypedValue(view, cursor, prop.type);
+        values.push(r.value);
+        cursor = r.next;
+      }
+      offset = cursor;
+
+      // Position
+      const px = values[propIndex.get('x')!];
+      const py = values[propIndex.get('y')!];
+      const pz = values[propIndex.get('z')!];
+      positions[i * 3] = px;
+      positions[i * 3 + 1] = py;
+      positions[i * 3 + 2] = pz;
+
+      // Rotation: rot_0 = w, rot_1 = x, rot_2 = y, rot_3 = z (PlayCanvas convention)
+      const rw = values[propIndex.get('rot_0')!];
+      const rx = values[propIndex.get('rot_1')!];
+      const ry = values[propIndex.get('rot_2')!];
+      const rz = values[propIndex.get('rot_3')!];
+      // Normalize
+      const rlen = Math.sqrt(rw * rw + rx * rx + ry * ry + rz * rz) || 1;
+      rotations[i * 4] = rw / rlen;     // w
+      rotations[i * 4 + 1] = rx / rlen; // x
+      rotations[i * 4 + 2] = ry / rlen; // y
+      rotations[i * 4 + 3] = rz / rlen; // z
+
+      // Scale: stored as log(scale), we need exp(scale)
+      scales[i * 3] = Math.exp(values[propIndex.get('scale_0')!]);
+      scales[i * 3 + 1] = Math.exp(values[propIndex.get('scale_1')!]);
+      scales[i * 3 + 2] = Math.exp(values[propIndex.get('scale_2')!]);
+
+      // Color: SH DC coefficient → linear color
+      colors[i * 4] = Math.max(0, Math.min(1, 0.5 + SH_C0 * values[propIndex.get('f_dc_0')!]));
+      colors[i * 4 + 1] = Math.max(0, Math.min(1, 0.5 + SH_C0 * values[propIndex.get('f_dc_1')!]));
+      colors[i * 4 + 2] = Math.max(0, Math.min(1, 0.5 + SH_C0 * values[propIndex.get('f_dc_2')!]));
+
+      // Opacity: stored as logit, we need sigmoid
+      const logit = values[propIndex.get('opacity')!];
+      colors[i * 4 + 3] = 1.0 / (1.0 + Math.exp(-logit));
+
+      // SH rest coefficients (bands 1..shDegree), already in SplatData order
+      if (shCoeffs) {
+        for (let k = 0; k < shProps.length; k++) {
+          shCoeffs[i * shProps.length + k] = values[propIndex.get(shProps[k])!];
+        }
+      }
+
+      for (let k = 0; k < extraProps.length; k++) {
+        extraArrays[k][i] = values[propIndex.get(extraProps[k].name)!];
+      }
+
+      // Bounds
+      boundsMin[0] = Math.min(boundsMin[0], px);
+      boundsMin[1] = Math.min(boundsMin[1], py);
+      boundsMin[2] = Math.min(boundsMin[2], pz);
+      boundsMax[0] = Math.max(boundsMax[0], px);
+      boundsMax[1] = Math.max(boundsMax[1], py);
+      boundsMax[2] = Math.max(boundsMax[2], pz);
+    }
+    return offset;
+  };
+
+  return { data, decode };
+}
+
+// ---- internal helpers ----
+
+/**
+ * Build a Float32Extractor for an all-float32 vertex layout, with every property
+ * offset baked in as a constant. Mirrors the per-property reader above exactly.
+ * Returns null for other layouts or when code generation is unavailable.
+ */
+function compileFloat32Extractor(
+  properties: PlyProperty[],
+  propIndex: Map<string, number>,
+  shProps: string[],
+  extraProps: string[],
+): Float32Extractor | null {
+  if (!LITTLE_ENDIAN_HOST || !properties.every((p) => p.type === 'float' || p.type === 'float32')) return null;
+
+  const S = properties.length;
+  const f = (name: string) => `f[b + ${propIndex.get(name)!}]`;
+  const lines: string[] = [];
+  const bounds = ['X', 'Y', 'Z'];
+
+  extraProps.forEach((_, k) => lines.push(`const e${k} = extras[${k}];`));
+  lines.push(`let minX = boundsMin[0], minY = boundsMin[1], minZ = boundsMin[2];`);
+  lines.push(`let maxX = boundsMax[0], maxY = boundsMax[1], maxZ = boundsMax[2];`);
+  lines.push(`for (let j = 0, b = 0; j < n; j++, b += ${S}) {`);
+  lines.push(`  const i = start + j;`);
+  lines.push(`  const px = ${f('x')}, py = ${f('y')}, pz = ${f('z')};`);
+  lines.push(`  positions[i * 3] = px; positions[i * 3 + 1] = py; positions[i * 3 + 2] = pz;`);
+  lines.push(`  const rw = ${f('rot_0')}, rx = ${f('rot_1')}, ry = ${f('rot_2')}, rz = ${f('rot_3')};`);
+  lines.push(`  const rlen = Math.sqrt(rw * rw + rx * rx + ry * ry + rz * rz) || 1;`);
+  lines.push(`  rotations[i * 4] = rw / rlen; rotations[i * 4 + 1] = rx / rlen;`);
+  lines.push(`  rotations[i * 4 + 2] = ry / rlen; rotations[i * 4 + 3] = rz / rlen;`);
+  for (let k = 0; k < 3; k++) {
+    lines.push(`  scales[i * 3 + ${k}] = Math.exp(${f(`scale_${k}`)});`);
+    lines.push(`  colors[i * 4 + ${k}] = Math.max(0, Math.min(1, 0.5 + ${SH_C0} * ${f(`f_dc_${k}`)}));`);
+  }
+  lines.push(`  colors[i * 4 + 3] = 1.0 / (1.0 + Math.exp(-${f('opacity')}));`);
+  shProps.forEach((name, k) => lines.push(`  shCoeffs[i * ${shProps.length} + ${k}] = ${f(name)};`));
+  extraProps.forEach((name, k) => lines.push(`  e${k}[i] = ${f(name)};`));
+  bounds.forEach((axis, k) => {
+    const p = ['px', 'py', 'pz'][k];
+    lines.push(`  min${axis} = Math.min(min${axis}, ${p}); max${axis} = Math.max(max${axis}, ${p});`);
+  });
+  lines.push(`}`);
+  lines.push(`boundsMin[0] = minX; boundsMin[1] = minY; boundsMin[2] = minZ;`);
+  lines.push(`boundsMax[0] = maxX; boundsMax[1] = maxY; boundsMax[2] = maxZ;`);
+
+  try {
+    return new Function(
+      'f', 'n', 'start', 'positions', 'rotations', 'scales', 'colors', 'shCoeffs', 'extras', 'boundsMin', 'boundsMax',
+      lines.join('\n'),
+    ) as Float32Extractor;
+  } catch {
+    // e.g. Content-Security-Policy without 'unsafe-eval'
+    return null;
+  }
 }
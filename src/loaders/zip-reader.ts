@@ -0,0 +1,122 @@
+// Minimal zip reader for bundled .sog files: central directory, stored and deflate entries.
+// ZIP64, encryption and multi-disk archives are rejected.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_SIZE = 22;
+const MAX_COMMENT = 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localOffset: number;
+}
+
+/** Detect a zip archive by its leading local-file-header signature. */
+export function isZipData(buffer: ArrayBuffer): boolean {
+  return buffer.byteLength >= 4 && new DataView(buffer).getUint32(0, true) === LOCAL_SIGNATURE;
+}
+
+/**
+ * Extract every file in a zip archive into memory.
+ * Returns path → contents; directory entries are omitted.
+ */
+export async function unzip(buffer: ArrayBuffer): Promise<Map<string, Blob>> {
+  const view = new DataView(buffer);
+  const entries = readCentralDirectory(view);
+  const files = new Map<string, Blob>();
+
+  await Promise.all(entries.map(async (entry) => {
+    if (entry.name.endsWith('/')) return;
+
+    const local = entry.localOffset;
+    if (local + 30 > buffer.byteLength || view.getUint32(local, true) !== LOCAL_SIGNATURE) {
+      throw new Error(`ZIP: bad local header for ${entry.name}`);
+    }
+    // Sizes come from the central directory: local headers may defer them to a data descriptor
+    const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    if (dataStart + entry.compressedSize > buffer.byteLength) {
+      throw new Error(`ZIP: ${entry.name} is truncated`);
+    }
+    const data = new Uint8Array(buffer, dataStart, entry.compressedSize);
+
+    let blob: Blob;
+    if (entry.method === METHOD_STORED) {
+      blob = new Blob([data]);
+    } else if (entry.method === METHOD_DEFLATE) {
+      blob = await inflateRaw(data);
+    } else {
+      throw new Error(`ZIP: unsupported compression method ${entry.method} for ${entry.name}`);
+    }
+    if (blob.size !== entry.size) {
+      throw new Error(`ZIP: ${entry.name} decompressed to ${blob.size} bytes, expected ${entry.size}`);
+    }
+    files.set(entry.name, blob);
+  }));
+
+  return files;
+}
+
+// ---- internal helpers ----
+
+function readCentralDirectory(view: DataView): ZipEntry[] {
+  const eocd = findEndOfCentralDirectory(view);
+  if (eocd < 0) throw new Error('ZIP: end of central directory not found');
+
+  if (view.getUint16(eocd + 4, true) !== 0 || view.getUint16(eocd + 6, true) !== 0) {
+    throw new Error('ZIP: multi-disk archives are not supported');
+  }
+  const count = view.getUint16(eocd + 10, true);
+  const dirOffset = view.getUint32(eocd + 16, true);
+  if (count === 0xffff || dirOffset === 0xffffffff) {
+    throw new Error('ZIP: ZIP64 archives are not supported');
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = dirOffset;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error('ZIP: corrupt central directory');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+    if (flags & 1) throw new Error(`ZIP: ${name} is encrypted`);
+
+    entries.push({
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/** Scan backwards over the (up to 64KB) archive comment for the EOCD record. */
+function findEndOfCentralDirectory(view: DataView): number {
+  const last = view.byteLength - EOCD_SIZE;
+  const first = Math.max(0, last - MAX_COMMENT);
+  for (let i = last; i >= first; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+  }
+  return -1;
+}
+
+async function inflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Blob> {
+  const stream = new Blob([data]).stream().pipeThrough(
+    new DecompressionStream('deflate-raw'),
+  );
+  return new Response(stream).blob();
+}
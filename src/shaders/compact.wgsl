@@ -0,0 +1,125 @@
+// ============================================================
+// Stream compaction of visible splats
+// The preprocess pass writes one sort key per splat, or a cull
+// code (KEY_*) for culled splats. Three entry points pack the
+// visible ones, in splat index order, into the sorter's input:
+//   countVisible   — visible splats per 256-splat block; also
+//                    counts frustum-culled splats and chunks
+//   scanBlocks     — exclusive prefix sum over block counts
+//                    (one workgroup); total → counters.instanceCount
+//   scatterVisible — write key + splat index to offset + rank
+// ============================================================
+
+const WG_SIZE: u32 = 256u;
+// Cull codes written by preprocess.wgsl; every code is >= KEY_CHUNK_CULLED
+const KEY_FRUSTUM_CULLED: u32 = 0xFFFFFFFEu;
+const KEY_CHUNK_CULLED: u32 = 0xFFFFFFFDu;
+
+struct CompactUniforms {
+  numElements: u32,
+  numBlocks:   u32,
+};
+
+// drawIndirect arguments (vertexCount is set once by the host), then cull
+// statistics the host resets every frame
+struct Counters {
+  vertexCount:   u32,
+  instanceCount: u32,
+  firstVertex:   u32,
+  firstInstance: u32,
+  frustumCulled: atomic<u32>,  // splats, including those of culled chunks
+  culledChunks:  atomic<u32>,
+};
+
+@group(0) @binding(0) var<uniform> cu: CompactUniforms;
+@group(0) @binding(1) var<storage, read>       keysIn:    array<u32>;  // per splat
+@group(0) @binding(2) var<storage, read_write> blockSums: array<u32>;  // count, then offset per block
+@group(0) @binding(3) var<storage, read_write> keysOut:   array<u32>;  // compacted
+@group(0) @binding(4) var<storage, read_write> valsOut:   array<u32>;  // compacted splat indices
+@group(0) @binding(5) var<storage, read_write> counters:  Counters;
+
+var<workgroup> scratch: array<u32, 256>;
+var<workgroup> blockFrustumCulled: atomic<u32>;
+
+fn isVisible(i: u32) -> u32 {
+  return select(0u, 1u, i < cu.numElements && keysIn[i] < KEY_CHUNK_CULLED);
+}
+
+// Inclusive Hillis-Steele scan of scratch; every invocation must call it
+fn scanScratch(lid: u32) {
+  for (var d = 1u; d < WG_SIZE; d = d << 1u) {
+    workgroupBarrier();
+    var add = 0u;
+    if (lid >= d) { add = scratch[lid - d]; }
+    workgroupBarrier();
+    scratch[lid] += add;
+  }
+  workgroupBarrier();
+}
+
+@compute @workgroup_size(256)
+fn countVisible(
+  @builtin(global_invocation_id) gid: vec3<u32>,
+  @builtin(workgroup_id)         wgid: vec3<u32>,
+  @builtin(local_invocation_id)  lid: vec3<u32>,
+) {
+  if (lid.x == 0u) {
+    atomicStore(&blockFrustumCulled, 0u);
+  }
+  scratch[lid.x] = isVisible(gid.x);
+  scanScratch(lid.x);
+  if (gid.x < cu.numElements) {
+    let key = keysIn[gid.x];
+    if (key == KEY_FRUSTUM_CULLED || key == KEY_CHUNK_CULLED) {
+      atomicAdd(&blockFrustumCulled, 1u);
+    }
+    // Blocks are preprocess chunks: a culled chunk marks all of its splats
+    if (lid.x == 0u && key == KEY_CHUNK_CULLED) {
+      atomicAdd(&counters.culledChunks, 1u);
+    }
+  }
+  workgroupBarrier();
+  if (lid.x == WG_SIZE - 1u) {
+    blockSums[wgid.x] = scratch[lid.x];
+    atomicAdd(&counters.frustumCulled, atomicLoad(&blockFrustumCulled));
+  }
+}
+
+@compute @workgroup_size(256)
+fn scanBlocks(@builtin(local_invocation_id) lid: vec3<u32>) {
+  var runningSum = 0u;
+  let numTiles = (cu.numBlocks + WG_SIZE - 1u) / WG_SIZE;
+  for (var tile = 0u; tile < numTiles; tile++) {
+    let idx = tile * WG_SIZE + lid.x;
+    var count = 0u;
+    if (idx < cu.numBlocks) {
+      count = blockSums[idx];
+    }
+    scratch[lid.x] = count;
+    scanScratch(lid.x);
+    if (idx < cu.numBlocks) {
+      blockSums[idx] = runningSum + scratch[lid.x] - count;
+    }
+    runningSum += scratch[WG_SIZE - 1u];
+    workgroupBarrier();
+  }
+  if (lid.x == 0u) {
+    counters.instanceCount = runningSum;
+  }
+}
+
+@compute @workgroup_size(256)
+fn scatterVisible(
+  @builtin(global_invocation_id) gid: vec3<u32>,
+  @builtin(workgroup_id)         wgid: vec3<u32>,
+  @builtin(local_invocation_id)  lid: vec3<u32>,
+) {
+  let visible = isVisible(gid.x);
+  scratch[lid.x] = visible;
+  scanScratch(lid.x);
+  if (visible != 0u) {
+    let dest = blockSums[wgid.x] + scratch[lid.x] - 1u;
+    keysOut[dest] = keysIn[gid.x];
+    valsOut[dest] = gid.x;
+  }
+}
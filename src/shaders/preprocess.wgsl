@@ -2,6 +2,8 @@
 // Preprocess compute shader
 // Per-splat: project 3D Gaussian to 2D, compute conic in NDC,
 // evaluate SH bands 0-3 for view-dependent color, emit sort keys.
+// Splats outside the view frustum (plus a guard band) are culled,
+// whole 256-splat chunks at once when their bounds are outside.
 // ============================================================
 
 struct Uniforms {
@@ -9,21 +11,63 @@ struct Uniforms {
   proj:       mat4x4<f32>,
   viewport:   vec2<f32>,
   numSplats:  u32,
-  hasSH:      u32,
-  cameraPos:  vec4<f32>,
+  shDim:      u32,  // SH coefficients per channel (0, 3, 8 or 15)
+  cameraPos:  vec3<f32>,
+  attrLayout: u32,  // 0 = float32, 1 = compact, 2 = compact-sh8, 3 = compressed-ply (see SplatLayout.ts)
+  frustum:    array<vec4<f32>, 5>,  // world-space planes (normal, offset), inside >= 0: left, right, bottom, top, near
+  shScale:    f32,  // compact-sh8: SH value of snorm 1.0
+};
+
+// Placement of a splat object (slot 0 = identity, for splats outside any object)
+struct SplatObject {
+  model:   mat4x4<f32>,  // translate · rotate · scale
+  visible: u32,
+};
+
+// View-time crop volume (see SplatRenderer.setCropVolumes)
+struct CropVolume {
+  toLocal:    mat4x4<f32>,  // world → [-1, 1]³ box / unit sphere; planes use row 2 only
+  kind:       u32,          // 0 = box, 1 = sphere, 2 = plane
+  keepInside: u32,
+};
+
+struct CropVolumes {
+  count:   u32,
+  volumes: array<CropVolume, 8>,  // MAX_CROP_VOLUMES
 };
 
 @group(0) @binding(0) var<uniform> u: Uniforms;
-@group(0) @binding(1) var<storage, read> positions:  array<f32>;
-@group(0) @binding(2) var<storage, read> rotations:  array<f32>;
-@group(0) @binding(3) var<storage, read> scales_in:  array<f32>;
-@group(0) @binding(4) var<storage, read> colors_in:  array<f32>;
-@group(0) @binding(5) var<storage, read> shCoeffs:   array<f32>;  // N*45
+// Attribute buffers are raw words: f32 bits, or packed f16 / snorm / compressed PLY values per u.attrLayout
+@group(0) @binding(1) var<storage, read> positions:  array<u32>;
+@group(0) @binding(2) var<storage, read> rotations:  array<u32>;
+@group(0) @binding(3) var<storage, read> scales_in:  array<u32>;
+@group(0) @binding(4) var<storage, read> colors_in:  array<u32>;
+@group(0) @binding(5) var<storage, read> shCoeffs:   array<u32>;  // N*3*shDim values
 
 // Output: 12 floats per splat
 @group(0) @binding(6) var<storage, read_write> splatOut: array<f32>;
+// Per-splat sort key, or a KEY_* cull code (packed into the sorter input by compact.wgsl)
 @group(0) @binding(7) var<storage, read_write> sortKeys:   array<u32>;
-@group(0) @binding(8) var<storage, read_write> sortValues: array<u32>;
+// Per 256-splat chunk min/max position, log-scale and color (18 floats). compressed-ply
+// decodes against it; other layouts get world-space bounds for culling from the host
+@group(0) @binding(9) var<storage, read> chunks: array<f32>;
+@group(0) @binding(10) var<storage, read> objects:   array<SplatObject>;
+@group(0) @binding(11) var<storage, read> objectIds: array<u32>;  // object slot per splat
+// Edit state, one byte per splat (SplatEditor's SPLAT_* bits)
+@group(0) @binding(12) var<storage, read> splatStates: array<u32>;
+
+@group(0) @binding(13) var<uniform> crop: CropVolumes;
+
+const STATE_HIDDEN_OR_DELETED: u32 = 6u;
+
+// Sort keys of culled splats; visible keys are below 0x80000000 (see compact.wgsl)
+const KEY_INVISIBLE: u32 = 0xFFFFFFFFu;
+const KEY_FRUSTUM_CULLED: u32 = 0xFFFFFFFEu;
+const KEY_CHUNK_CULLED: u32 = 0xFFFFFFFDu;
+
+// Splats are kept until their 3-sigma extent lies this far outside NDC [-1, 1]
+// (FRUSTUM_GUARD_BAND in SplatRenderer.ts, which builds the frustum planes)
+const GUARD_BAND: f32 = 1.2;
 
 // SH constants — signs match PlayCanvas (see gsplatEvalSH.js)
 const SH_C1: f32 = 0.4886025119029199;
@@ -40,31 +84,156 @@ const SH_C3_4: f32 = -0.4570457994644658;
 const SH_C3_5: f32 =  1.445305721320277;
 const SH_C3_6: f32 = -0.5900435899266435;
 
+// ---- Attribute unpacking ----
+
+const CHUNK_FLOATS: u32 = 18u;
+
+// First chunk-table float for splat idx (compressed-ply)
+fn chunkBase(idx: u32) -> u32 {
+  return min(idx >> 8u, arrayLength(&chunks) / CHUNK_FLOATS - 1u) * CHUNK_FLOATS;
+}
+
+fn chunkVec3(base: u32) -> vec3<f32> {
+  return vec3<f32>(chunks[base], chunks[base+1u], chunks[base+2u]);
+}
+
+// 11/10/11-bit unorm, x in the high bits
+fn unpack111011(v: u32) -> vec3<f32> {
+  return vec3<f32>(f32(v >> 21u) / 2047.0, f32((v >> 11u) & 0x3ffu) / 1023.0, f32(v & 0x7ffu) / 2047.0);
+}
+
+fn readPosition(idx: u32) -> vec3<f32> {
+  if (u.attrLayout == 3u) {
+    let c = chunkBase(idx);
+    return mix(chunkVec3(c), chunkVec3(c+3u), unpack111011(positions[idx]));
+  }
+  let o = idx * 3u;
+  return bitcast<vec3<f32>>(vec3<u32>(positions[o], positions[o+1u], positions[o+2u]));
+}
+
+fn readRotation(idx: u32) -> vec4<f32> {
+  if (u.attrLayout == 0u) {
+    let o = idx * 4u;
+    return bitcast<vec4<f32>>(vec4<u32>(rotations[o], rotations[o+1u], rotations[o+2u], rotations[o+3u]));
+  }
+  if (u.attrLayout == 3u) {
+    // Smallest three: 2-bit index of the largest component, then 3 × 10 bits in [-1/√2, 1/√2]
+    let v = rotations[idx];
+    let abc = (vec3<f32>(f32((v >> 20u) & 0x3ffu), f32((v >> 10u) & 0x3ffu), f32(v & 0x3ffu)) / 1023.0 - 0.5) * 1.4142135623730951;
+    let m = sqrt(max(0.0, 1.0 - dot(abc, abc)));
+    switch (v >> 30u) {
+      case 0u: { return vec4<f32>(m, abc); }
+      case 1u: { return vec4<f32>(abc.x, m, abc.yz); }
+      case 2u: { return vec4<f32>(abc.xy, m, abc.z); }
+      default: { return vec4<f32>(abc, m); }
+    }
+  }
+  return vec4<f32>(unpack2x16snorm(rotations[idx*2u]), unpack2x16snorm(rotations[idx*2u+1u]));
+}
+
+fn readScale(idx: u32) -> vec3<f32> {
+  if (u.attrLayout == 0u) {
+    let o = idx * 3u;
+    return bitcast<vec3<f32>>(vec3<u32>(scales_in[o], scales_in[o+1u], scales_in[o+2u]));
+  }
+  if (u.attrLayout == 3u) {
+    let c = chunkBase(idx);
+    return exp(mix(chunkVec3(c+6u), chunkVec3(c+9u), unpack111011(scales_in[idx])));
+  }
+  // Compact layouts store ln(scale)
+  return exp(vec3<f32>(unpack2x16float(scales_in[idx*2u]), unpack2x16float(scales_in[idx*2u+1u]).x));
+}
+
+fn readColor(idx: u32) -> vec4<f32> {
+  if (u.attrLayout == 0u) {
+    let o = idx * 4u;
+    return bitcast<vec4<f32>>(vec4<u32>(colors_in[o], colors_in[o+1u], colors_in[o+2u], colors_in[o+3u]));
+  }
+  if (u.attrLayout == 3u) {
+    // 8/8/8/8 with r in the high byte; rgb relative to the chunk color bounds
+    let c = chunkBase(idx);
+    let rgba = unpack4x8unorm(colors_in[idx]).wzyx;
+    return vec4<f32>(mix(chunkVec3(c+12u), chunkVec3(c+15u), rgba.rgb), rgba.a);
+  }
+  return vec4<f32>(unpack2x16float(colors_in[idx*2u]), unpack2x16float(colors_in[idx*2u+1u]));
+}
+
+// Coefficient j (= ch*shDim + k) of splat idx
+fn readSh(idx: u32, j: u32) -> f32 {
+  let n = 3u * u.shDim;
+  if (u.attrLayout == 0u) {
+    return bitcast<f32>(shCoeffs[idx * n + j]);
+  }
+  if (u.attrLayout == 1u) {
+    return unpack2x16float(shCoeffs[idx * ((n + 1u) / 2u) + j / 2u])[j & 1u];
+  }
+  let w = shCoeffs[idx * ((n + 3u) / 4u) + j / 4u];
+  if (u.attrLayout == 3u) {
+    // Compressed PLY quantization: byte * 8/255 - 4
+    return unpack4x8unorm(w)[j & 3u] * 8.0 - 4.0;
+  }
+  return unpack4x8snorm(w)[j & 3u] * u.shScale;
+}
+
+var<workgroup> chunkCulled: bool;
+
+// One workgroup per chunk: test the chunk bounds once, then each splat
 @compute @workgroup_size(256)
-fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
+fn main(
+  @builtin(global_invocation_id) gid: vec3<u32>,
+  @builtin(local_invocation_id)  lid: vec3<u32>,
+  @builtin(workgroup_id)         wgid: vec3<u32>,
+) {
+  if (lid.x == 0u) {
+    chunkCulled = isChunkOutside(wgid.x);
+  }
+  let culled = workgroupUniformLoad(&chunkCulled);
+
   let idx = gid.x;
   if (idx >= u.numSplats) { return; }
+  if (culled) { writeCulled(idx, KEY_CHUNK_CULLED); return; }
+  preprocessSplat(idx);
+}
+
+fn preprocessSplat(idx: u32) {
+  let obj = objects[objectIds[idx]];
+  if (obj.visible == 0u) { writeInvisible(idx); return; }
+  let state = (splatStates[idx >> 2u] >> ((idx & 3u) * 8u)) & 0xffu;
+  if ((state & STATE_HIDDEN_OR_DELETED) != 0u) { writeInvisible(idx); return; }
+  // Object rotation · scale, applied to the splat's covariance axes below
+  let objAxes = mat3x3<f32>(obj.model[0].xyz, obj.model[1].xyz, obj.model[2].xyz);
 
   // ---- Read splat ----
-  let pos = vec3<f32>(positions[idx*3u], positions[idx*3u+1u], positions[idx*3u+2u]);
-  let qw = rotations[idx*4u];
-  let qx = rotations[idx*4u+1u];
-  let qy = rotations[idx*4u+2u];
-  let qz = rotations[idx*4u+3u];
-  let sx = scales_in[idx*3u];
-  let sy = scales_in[idx*3u+1u];
-  let sz = scales_in[idx*3u+2u];
-  var col = vec4<f32>(colors_in[idx*4u], colors_in[idx*4u+1u], colors_in[idx*4u+2u], colors_in[idx*4u+3u]);
+  let pos = (obj.model * vec4<f32>(readPosition(idx), 1.0)).xyz;
+  if (isCropped(pos)) { writeInvisible(idx); return; }
+  let q = readRotation(idx);
+  let qw = q.x;
+  let qx = q.y;
+  let qy = q.z;
+  let qz = q.w;
+  let s = readScale(idx);
+  let sx = s.x;
+  let sy = s.y;
+  let sz = s.z;
+  // Bounding sphere of the 3-sigma ellipsoid, under the object's largest axis scale
+  let objScale = max(max(length(objAxes[0]), length(objAxes[1])), length(objAxes[2]));
+  if (isSphereOutside(pos, 3.0 * max(max(sx, sy), sz) * objScale)) { writeCulled(idx, KEY_FRUSTUM_CULLED); return; }
+  var col = readColor(idx);
 
   // ---- Evaluate SH for view-dependent color ----
-  if (u.hasSH != 0u) {
-    let dir = normalize(pos - u.cameraPos.xyz);
+  if (u.shDim != 0u) {
+    // SH are stored in the object's own axes (its file's coordinate system, before its
+    // transform): rotate the view direction back into them
+    let worldDir = normalize(pos - u.cameraPos);
+    let dir = vec3<f32>(
+      dot(normalize(objAxes[0]), worldDir),
+      dot(normalize(objAxes[1]), worldDir),
+      dot(normalize(objAxes[2]), worldDir),
+    );
     let x = dir.x;
     let y = dir.y;
     let z = dir.z;
 
-    let base = idx * 45u;
-
     // SH evaluation — matches PlayCanvas gsplatEvalSH.js exactly
     let xx = x * x; let yy = y * y; let zz = z * z;
     let xy = x * y; let yz = y * z; let xz = x * z;
@@ -91,12 +260,12 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
     basis[14] = SH_C3_6 * x * (xx - 3.0 * yy);
 
     // Accumulate SH contribution for each color channel
-    // Layout: shCoeffs[base + ch*15 + k] where ch=0(R),1(G),2(B), k=0..14
+    // Layout: coefficient ch*shDim + k where ch=0(R),1(G),2(B), k=0..shDim-1
     for (var ch = 0u; ch < 3u; ch++) {
-      let o = base + ch * 15u;
+      let o = ch * u.shDim;
       var contrib = 0.0;
-      for (var k = 0u; k < 15u; k++) {
-        contrib += shCoeffs[o + k] * basis[k];
+      for (var k = 0u; k < u.shDim; k++) {
+        contrib += readSh(idx, o + k) * basis[k];
       }
       // Add directly — no SH_C0 multiplier (matches PlayCanvas)
       if (ch == 0u) { col.x += contrib; }
@@ -121,9 +290,9 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
   let rc1 = vec3<f32>(2.0*(xy-wz), 1.0-2.0*(xx+zz), 2.0*(yz+wx));
   let rc2 = vec3<f32>(2.0*(xz+wy), 2.0*(yz-wx), 1.0-2.0*(xx+yy));
 
-  let m0 = rc0 * sx;
-  let m1 = rc1 * sy;
-  let m2 = rc2 * sz;
+  let m0 = objAxes * (rc0 * sx);
+  let m1 = objAxes * (rc1 * sy);
+  let m2 = objAxes * (rc2 * sz);
 
   let row0 = vec3<f32>(m0.x, m1.x, m2.x);
   let row1 = vec3<f32>(m0.y, m1.y, m2.y);
@@ -142,10 +311,17 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
   let tz = cam.z;
   let tz2 = tz * tz;
 
+  // Clamp the center's view direction to the guard band: the linearization
+  // blows up far off screen
+  let limX = GUARD_BAND / P00;
+  let limY = GUARD_BAND / P11;
+  let tx = clamp(cam.x / tz, -limX, limX) * tz;
+  let ty = clamp(cam.y / tz, -limY, limY) * tz;
+
   let j00 = -P00 / tz;
-  let j02 =  P00 * cam.x / tz2;
+  let j02 =  P00 * tx / tz2;
   let j11 = -P11 / tz;
-  let j12 =  P11 * cam.y / tz2;
+  let j12 =  P11 * ty / tz2;
 
   let T0 = j00 * W0 + j02 * W2;
   let T1 = j11 * W1 + j12 * W2;
@@ -180,6 +356,7 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
 
   let clip = u.proj * cam;
   let ndc = clip.xy / clip.w;
+  if (any(abs(ndc) - vec2<f32>(ext_x, ext_y) > vec2<f32>(GUARD_BAND))) { writeCulled(idx, KEY_FRUSTUM_CULLED); return; }
 
   // ---- Write ----
   let base = idx * 12u;
@@ -198,14 +375,57 @@ fn main(@builtin(global_invocation_id) gid: vec3<u32>) {
 
   let depthBits = bitcast<u32>(-cam.z);
   sortKeys[idx] = 0xFFFFFFFFu - floatToSortableUint(depthBits);
-  sortValues[idx] = idx;
+}
+
+// True when the world-space center `pos` fails any crop volume
+fn isCropped(pos: vec3<f32>) -> bool {
+  for (var i = 0u; i < crop.count; i++) {
+    let volume = crop.volumes[i];
+    let p = (volume.toLocal * vec4<f32>(pos, 1.0)).xyz;
+    var inside: bool;
+    switch volume.kind {
+      case 0u: { inside = all(abs(p) <= vec3<f32>(1.0)); }
+      case 1u: { inside = dot(p, p) <= 1.0; }
+      default: { inside = p.z >= 0.0; }
+    }
+    if (inside != (volume.keepInside != 0u)) { return true; }
+  }
+  return false;
+}
+
+// True when chunk `chunk`, grown by its largest splat's 3-sigma radius, is outside the frustum
+fn isChunkOutside(chunk: u32) -> bool {
+  let c = chunkBase(chunk << 8u);
+  let maxLogScale = max(max(chunks[c+9u], chunks[c+10u]), chunks[c+11u]);
+  let radius = 3.0 * exp(maxLogScale);
+  let center = 0.5 * (chunkVec3(c) + chunkVec3(c+3u));
+  let halfSize = 0.5 * (chunkVec3(c+3u) - chunkVec3(c)) + vec3<f32>(radius);
+  for (var i = 0u; i < 5u; i++) {
+    let plane = u.frustum[i];
+    if (dot(plane.xyz, center) + plane.w + dot(abs(plane.xyz), halfSize) < 0.0) { return true; }
+  }
+  return false;
+}
+
+// True when a world-space sphere is entirely outside a side plane; the near plane
+// is left to the per-splat camera-space test
+fn isSphereOutside(center: vec3<f32>, radius: f32) -> bool {
+  for (var i = 0u; i < 4u; i++) {
+    let plane = u.frustum[i];
+    if (dot(plane.xyz, center) + plane.w < -radius) { return true; }
+  }
+  return false;
 }
 
 fn writeInvisible(idx: u32) {
+  writeCulled(idx, KEY_INVISIBLE);
+}
+
+// splatOut is cleared too: CpuSort draws every splat, not just the compacted ones
+fn writeCulled(idx: u32, key: u32) {
   let base = idx * 12u;
   for (var j = 0u; j < 12u; j++) { splatOut[base + j] = 0.0; }
-  sortKeys[idx] = 0xFFFFFFFFu;
-  sortValues[idx] = idx;
+  sortKeys[idx] = key;
 }
 
 fn floatToSortableUint(bits: u32) -> u32 {
@@ -20,6 +20,11 @@
 //   [11]: depth
 @group(0) @binding(0) var<storage, read> splatData:     array<f32>;
 @group(0) @binding(1) var<storage, read> sortedIndices: array<u32>;
+// Edit state, one byte per splat (SplatEditor's SPLAT_* bits)
+@group(0) @binding(2) var<storage, read> splatStates:   array<u32>;
+
+const STATE_SELECTED: u32 = 1u;
+const SELECTION_TINT = vec3<f32>(1.0, 0.85, 0.1);
 
 struct VertexOut {
   @builtin(position) pos:   vec4<f32>,
@@ -55,6 +60,12 @@ fn vs_main(
   let b       = splatData[base + 9u];
   let opacity = splatData[base + 10u];
 
+  var rgb = vec3<f32>(r, g, b);
+  let state = (splatStates[splatIdx >> 2u] >> ((splatIdx & 3u) * 8u)) & 0xffu;
+  if ((state & STATE_SELECTED) != 0u) {
+    rgb = mix(rgb, SELECTION_TINT, 0.5);
+  }
+
   // Position quad corner
   let offset = extent * corner;
   let pos_ndc = center + offset;
@@ -62,7 +73,7 @@ fn vs_main(
   var out: VertexOut;
   out.pos = vec4<f32>(pos_ndc, 0.0, 1.0);
   out.d_ndc = offset;
-  out.color = vec4<f32>(r, g, b, opacity);
+  out.color = vec4<f32>(rgb, opacity);
   out.conic = cn;
   out.splatIdx = splatIdx;
   return out;
@@ -0,0 +1,104 @@
+import type { SplatData } from './types';
+
+/** Number of SH coefficients per channel for bands 1..degree. */
+export function shDimForDegree(degree: number): number {
+  return (degree + 1) * (degree + 1) - 1;
+}
+
+/** Floats per splat in SplatData.shCoeffs for `degree`. */
+export function shStrideForDegree(degree: number): number {
+  return 3 * shDimForDegree(degree);
+}
+
+/** Highest degree (0-3) whose bands fit in `dim` coefficients per channel. */
+export function shDegreeForDim(dim: number): number {
+  return dim >= 15 ? 3 : dim >= 8 ? 2 : dim >= 3 ? 1 : 0;
+}
+
+/** SH degree of `data`: 0 without coefficients. */
+export function splatShDegree(data: SplatData): number {
+  return data.shCoeffs ? data.shDegree : 0;
+}
+
+/**
+ * Re-layout `count` splats of SH coefficients from degree `from` to degree `to`:
+ * bands above `to` are dropped, bands above `from` are zero.
+ */
+export function convertShDegree(shCoeffs: Float32Array, count: number, from: number, to: number): Float32Array {
+  const srcDim = shDimForDegree(from);
+  const dstDim = shDimForDegree(to);
+  const out = new Float32Array(count * 3 * dstDim);
+  const n = Math.min(srcDim, dstDim);
+  for (let i = 0; i < count; i++) {
+    for (let ch = 0; ch < 3; ch++) {
+      const src = (i * 3 + ch) * srcDim;
+      out.set(shCoeffs.subarray(src, src + n), (i * 3 + ch) * dstDim);
+    }
+  }
+  return out;
+}
+
+/**
+ * Highest SH band (0 to `degree`) with any non-zero coefficient.
+ * shCoeffs uses the SplatData layout for `degree`: [R0..Rn-1, G0..Gn-1, B0..Bn-1] per splat.
+ */
+export function detectShDegree(shCoeffs: Float32Array | undefined, count: number, degree: number): number {
+  if (!shCoeffs) return 0;
+  const dim = shDimForDegree(degree);
+  let detected = 0;
+  for (let i = 0; i < count && detected < degree; i++) {
+    for (let ch = 0; ch < 3; ch++) {
+      const base = (i * 3 + ch) * dim;
+      for (let k = shDimForDegree(detected); k < dim; k++) {
+        if (shCoeffs[base + k] !== 0) {
+          // k = 0..2 → band 1, 3..7 → band 2, 8..14 → band 3
+          detected = Math.max(detected, k < 3 ? 1 : k < 8 ? 2 : 3);
+        }
+      }
+    }
+  }
+  return detected;
+}
+
+/**
+ * Splats [start, end) of `data` as views into its arrays (extras included).
+ * `bounds` defaults to the bounds of the sliced positions.
+ */
+export function sliceSplatData(data: SplatData, start: number, end: number, bounds?: SplatData['bounds']): SplatData {
+  const shStride = shStrideForDegree(splatShDegree(data));
+  let extras: SplatData['extras'];
+  if (data.extras) {
+    extras = {};
+    for (const [name, values] of Object.entries(data.extras)) {
+      const components = values.length / data.count;
+      extras[name] = values.subarray(start * components, end * components);
+    }
+  }
+  const positions = data.positions.subarray(start * 3, end * 3);
+  return {
+    count: end - start,
+    positions,
+    rotations: data.rotations.subarray(start * 4, end * 4),
+    scales: data.scales.subarray(start * 3, end * 3),
+    colors: data.colors.subarray(start * 4, end * 4),
+    shCoeffs: data.shCoeffs?.subarray(start * shStride, end * shStride),
+    shDegree: data.shDegree,
+    extras,
+    bounds: bounds ?? computeBounds(positions),
+  };
+}
+
+/** Axis-aligned bounds of a packed xyz position array. */
+export function computeBounds(positions: Float32Array): SplatData['bounds'] {
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i += 3) {
+    min[0] = Math.min(min[0], positions[i]);
+    min[1] = Math.min(min[1], positions[i + 1]);
+    min[2] = Math.min(min[2], positions[i + 2]);
+    max[0] = Math.max(max[0], positions[i]);
+    max[1] = Math.max(max[1], positions[i + 1]);
+    max[2] = Math.max(max[2], positions[i + 2]);
+  }
+  return { min, max };
+}
@@ -0,0 +1,367 @@
+import type { CoordinateSystem, SplatData } from './types';
+import { computeBounds, shDimForDegree, splatShDegree } from './splat-data';
+
+type Quat = [number, number, number, number];
+
+/**
+ * Apply a column-major 4x4 affine `matrix` (as in glTF / WebGPU) to every splat and
+ * return the result; `data` is not modified.
+ *   positions → M · p
+ *   rotations / scales → the transformed covariance M Σ Mᵀ (exact for any linear part;
+ *     rotation + uniform scale, possibly mirrored, takes a fast path)
+ *   shCoeffs → bands 1-3 rotated with the rotation part of M (a reflection mirrors them too)
+ *   bounds → recomputed from the new positions
+ * Colors and extras are copied unchanged.
+ */
+export function transformSplatData(data: SplatData, matrix: ArrayLike<number>): SplatData {
+  if (matrix.length !== 16) throw new Error(`transformSplatData: expected 16 matrix elements, got ${matrix.length}`);
+  const m = Array.from(matrix);
+  const { count } = data;
+  const positions = new Float32Array(count * 3);
+  const rotations = new Float32Array(count * 4);
+  const scales = new Float32Array(count * 3);
+
+  for (let i = 0; i < count; i++) {
+    const x = data.positions[i * 3], y = data.positions[i * 3 + 1], z = data.positions[i * 3 + 2];
+    positions[i * 3] = m[0] * x + m[4] * y + m[8] * z + m[12];
+    positions[i * 3 + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+    positions[i * 3 + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+  }
+
+  const { rotation, scale, mirrored } = decomposeMatrix(m);
+  if (isSimilarity(m, scale)) {
+    // M = R · F · s with F the optional x mirror: F q F is (w, x, -y, -z)
+    const flip = mirrored ? -1 : 1;
+    for (let i = 0; i < count; i++) {
+      const q = quatMul(rotation, [
+        data.rotations[i * 4], data.rotations[i * 4 + 1],
+        data.rotations[i * 4 + 2] * flip, data.rotations[i * 4 + 3] * flip,
+      ]);
+      const len = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+      for (let k = 0; k < 4; k++) rotations[i * 4 + k] = q[k] / len;
+      for (let k = 0; k < 3; k++) scales[i * 3 + k] = data.scales[i * 3 + k] * scale[0];
+    }
+  } else {
+    for (let i = 0; i < count; i++) {
+      transformCovariance(data, i, m, rotations, scales);
+    }
+  }
+
+  const shDegree = splatShDegree(data);
+  const shCoeffs = data.shCoeffs?.slice();
+  if (shCoeffs && shDegree > 0) {
+    const r = quatToMatrix(rotation);
+    if (mirrored) r[0] = -r[0], r[1] = -r[1], r[2] = -r[2];
+    rotateShCoeffs(shCoeffs, count, shDegree, r);
+  }
+
+  let extras: SplatData['extras'];
+  if (data.extras) {
+    extras = {};
+    for (const [name, values] of Object.entries(data.extras)) extras[name] = values.slice();
+  }
+
+  return {
+    count,
+    positions,
+    rotations,
+    scales,
+    colors: data.colors.slice(),
+    shCoeffs,
+    shDegree: data.shDegree,
+    extras,
+    bounds: computeBounds(positions),
+  };
+}
+
+/**
+ * Rotate SH bands 1..`degree` of `count` splats in place (SplatData.shCoeffs layout).
+ * `rotation` is an orthonormal column-major 3x3 matrix; with determinant -1 the
+ * coefficients are mirrored. Afterwards the splats evaluate, for a view direction d,
+ * the color they had for Rᵀ d.
+ */
+export function rotateShCoeffs(shCoeffs: Float32Array, count: number, degree: number, rotation: ArrayLike<number>): void {
+  const dim = shDimForDegree(degree);
+  const bands = bandRotations(degree, rotation);
+  const tmp = new Float64Array(7);
+  for (let i = 0; i < count; i++) {
+    for (let ch = 0; ch < 3; ch++) {
+      const base = (i * 3 + ch) * dim;
+      for (let l = 1; l <= degree; l++) {
+        const n = 2 * l + 1;
+        const off = base + l * l - 1;
+        const d = bands[l - 1];
+        for (let j = 0; j < n; j++) {
+          let sum = 0;
+          for (let k = 0; k < n; k++) sum += d[j * n + k] * shCoeffs[off + k];
+          tmp[j] = sum;
+        }
+        for (let j = 0; j < n; j++) shCoeffs[off + j] = tmp[j];
+      }
+    }
+  }
+}
+
+/**
+ * Column-major 4x4 rotation from `from`'s axes to `to`'s (see CoordinateSystem), e.g.
+ * `transformSplatData(data, coordinateSystemMatrix('z-up', 'opencv'))` converts a Z-up scan,
+ * SH included. All conventions are right-handed, so no conversion mirrors.
+ */
+export function coordinateSystemMatrix(from: CoordinateSystem, to: CoordinateSystem): Float32Array {
+  // toᵀ · from: both axis sets are orthonormal, expressed in 'opencv' axes
+  const a = COORDINATE_SYSTEM_AXES[from];
+  const b = COORDINATE_SYSTEM_AXES[to];
+  const m = new Float32Array(16);
+  for (let c = 0; c < 3; c++) {
+    for (let r = 0; r < 3; r++) m[c * 4 + r] = b[r * 3] * a[c * 3] + b[r * 3 + 1] * a[c * 3 + 1] + b[r * 3 + 2] * a[c * 3 + 2];
+  }
+  m[15] = 1;
+  return m;
+}
+
+/**
+ * Split the upper 3x3 of column-major `m` into a (w, x, y, z) rotation and per-axis scale
+ * (no shear): m = R · diag(±sx, sy, sz), with a reflection folded into x (`mirrored`).
+ */
+export function decomposeMatrix(m: ArrayLike<number>): {
+  rotation: Quat;
+  scale: [number, number, number];
+  mirrored: boolean;
+} {
+  let sx = Math.hypot(m[0], m[1], m[2]);
+  const sy = Math.hypot(m[4], m[5], m[6]);
+  const sz = Math.hypot(m[8], m[9], m[10]);
+  // A mirrored basis cannot be a rotation; fold the reflection into x
+  const det =
+    m[0] * (m[5] * m[10] - m[6] * m[9]) - m[4] * (m[1] * m[10] - m[2] * m[9]) + m[8] * (m[1] * m[6] - m[2] * m[5]);
+  if (det < 0) sx = -sx;
+
+  const r = [
+    m[0] / (sx || 1), m[1] / (sx || 1), m[2] / (sx || 1),
+    m[4] / (sy || 1), m[5] / (sy || 1), m[6] / (sy || 1),
+    m[8] / (sz || 1), m[9] / (sz || 1), m[10] / (sz || 1),
+  ];
+  return { rotation: matrixToQuat(r), scale: [Math.abs(sx), sy, sz], mirrored: det < 0 };
+}
+
+/** Hamilton product of (w, x, y, z) quaternions. */
+export function quatMul(a: Quat, b: Quat): Quat {
+  return [
+    a[0] * b[0] - a[1] * b[1] - a[2] * b[2] - a[3] * b[3],
+    a[0] * b[1] + a[1] * b[0] + a[2] * b[3] - a[3] * b[2],
+    a[0] * b[2] - a[1] * b[3] + a[2] * b[0] + a[3] * b[1],
+    a[0] * b[3] + a[1] * b[2] - a[2] * b[1] + a[3] * b[0],
+  ];
+}
+
+// ---- internal helpers ----
+
+/** Each convention's +X, +Y, +Z (column-major 3x3) in 'opencv' axes: +X right, +Y down, +Z forward. */
+const COORDINATE_SYSTEM_AXES: Record<CoordinateSystem, number[]> = {
+  opencv: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+  opengl: [1, 0, 0, 0, -1, 0, 0, 0, -1], // +Y up, +Z backward
+  'z-up': [1, 0, 0, 0, 0, 1, 0, -1, 0],  // +Y forward, +Z up
+};
+
+// Directions the band rotations are fitted on (Fibonacci sphere; 2l + 1 ≤ 7 unknowns per band)
+const SH_FIT_SAMPLES = 32;
+
+/** True when the linear part of `m` is a rotation (or mirror) times a uniform scale. */
+function isSimilarity(m: number[], scale: [number, number, number]): boolean {
+  const s = scale[0];
+  const tol = 1e-5 * s;
+  if (Math.abs(scale[1] - s) > tol || Math.abs(scale[2] - s) > tol) return false;
+  const dot = (a: number, b: number) => m[a] * m[b] + m[a + 1] * m[b + 1] + m[a + 2] * m[b + 2];
+  return Math.abs(dot(0, 4)) <= tol * s && Math.abs(dot(0, 8)) <= tol * s && Math.abs(dot(4, 8)) <= tol * s;
+}
+
+/** Rotation and scales of splat i under the linear part of `m`, from the eigenvectors of M Σ Mᵀ. */
+function transformCovariance(data: SplatData, i: number, m: number[], rotations: Float32Array, scales: Float32Array): void {
+  const r = quatToMatrix([data.rotations[i * 4], data.rotations[i * 4 + 1], data.rotations[i * 4 + 2], data.rotations[i * 4 + 3]]);
+  // A = M · R · S (column-major 3x3); Σ' = A Aᵀ
+  const a = new Array<number>(9);
+  for (let col = 0; col < 3; col++) {
+    const s = data.scales[i * 3 + col];
+    for (let row = 0; row < 3; row++) {
+      a[col * 3 + row] = (m[row] * r[col * 3] + m[4 + row] * r[col * 3 + 1] + m[8 + row] * r[col * 3 + 2]) * s;
+    }
+  }
+  const cov = new Array<number>(9);
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      cov[col * 3 + row] = a[row] * a[col] + a[3 + row] * a[3 + col] + a[6 + row] * a[6 + col];
+    }
+  }
+  const { values, vectors } = symmetricEigen3(cov);
+  // Eigenvectors as columns; make them a proper rotation
+  const det =
+    vectors[0] * (vectors[4] * vectors[8] - vectors[5] * vectors[7]) -
+    vectors[3] * (vectors[1] * vectors[8] - vectors[2] * vectors[7]) +
+    vectors[6] * (vectors[1] * vectors[5] - vectors[2] * vectors[4]);
+  if (det < 0) vectors[6] = -vectors[6], vectors[7] = -vectors[7], vectors[8] = -vectors[8];
+  const q = matrixToQuat(vectors);
+  const len = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+  for (let k = 0; k < 4; k++) rotations[i * 4 + k] = q[k] / len;
+  for (let k = 0; k < 3; k++) scales[i * 3 + k] = Math.sqrt(Math.max(0, values[k]));
+}
+
+/** Cyclic Jacobi eigen-decomposition of a symmetric 3x3 matrix (eigenvectors as columns). */
+function symmetricEigen3(matrix: number[]): { values: number[]; vectors: number[] } {
+  const a = matrix.slice();
+  const v = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+  const at = (row: number, col: number) => a[col * 3 + row];
+  for (let sweep = 0; sweep < 16; sweep++) {
+    const off = at(0, 1) ** 2 + at(0, 2) ** 2 + at(1, 2) ** 2;
+    if (off <= 1e-30 * (at(0, 0) ** 2 + at(1, 1) ** 2 + at(2, 2) ** 2) || off === 0) break;
+    for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+      const apq = at(p, q);
+      if (apq === 0) continue;
+      const theta = (at(q, q) - at(p, p)) / (2 * apq);
+      const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1);
+      const s = t * c;
+      // a ← Jᵀ a J, v ← v J with J the (p, q) Givens rotation
+      for (let k = 0; k < 3; k++) {
+        const akp = a[p * 3 + k], akq = a[q * 3 + k];
+        a[p * 3 + k] = c * akp - s * akq;
+        a[q * 3 + k] = s * akp + c * akq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const apk = a[k * 3 + p], aqk = a[k * 3 + q];
+        a[k * 3 + p] = c * apk - s * aqk;
+        a[k * 3 + q] = s * apk + c * aqk;
+      }
+      for (let k = 0; k < 3; k++) {
+        const vkp = v[p * 3 + k], vkq = v[q * 3 + k];
+        v[p * 3 + k] = c * vkp - s * vkq;
+        v[q * 3 + k] = s * vkp + c * vkq;
+      }
+    }
+  }
+  return { values: [a[0], a[4], a[8]], vectors: v };
+}
+
+/** Column-major 3x3 rotation of a (w, x, y, z) quaternion. */
+function quatToMatrix(q: Quat): number[] {
+  const len = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+  const w = q[0] / len, x = q[1] / len, y = q[2] / len, z = q[3] / len;
+  return [
+    1 - 2 * (y * y + z * z), 2 * (x * y + w * z), 2 * (x * z - w * y),
+    2 * (x * y - w * z), 1 - 2 * (x * x + z * z), 2 * (y * z + w * x),
+    2 * (x * z + w * y), 2 * (y * z - w * x), 1 - 2 * (x * x + y * y),
+  ];
+}
+
+/** (w, x, y, z) quaternion of a column-major 3x3 rotation. */
+function matrixToQuat(r: number[]): Quat {
+  const r00 = r[0], r10 = r[1], r20 = r[2];
+  const r01 = r[3], r11 = r[4], r21 = r[5];
+  const r02 = r[6], r12 = r[7], r22 = r[8];
+  const trace = r00 + r11 + r22;
+  if (trace > 0) {
+    const s = Math.sqrt(trace + 1) * 2;
+    return [0.25 * s, (r21 - r12) / s, (r02 - r20) / s, (r10 - r01) / s];
+  }
+  if (r00 > r11 && r00 > r22) {
+    const s = Math.sqrt(1 + r00 - r11 - r22) * 2;
+    return [(r21 - r12) / s, 0.25 * s, (r01 + r10) / s, (r02 + r20) / s];
+  }
+  if (r11 > r22) {
+    const s = Math.sqrt(1 + r11 - r00 - r22) * 2;
+    return [(r02 - r20) / s, (r01 + r10) / s, 0.25 * s, (r12 + r21) / s];
+  }
+  const s = Math.sqrt(1 + r22 - r00 - r11) * 2;
+  return [(r10 - r01) / s, (r02 + r20) / s, (r12 + r21) / s, 0.25 * s];
+}
+
+/**
+ * Per band l = 1..degree, the (2l+1)² matrix D (row-major) with c' = D c such that
+ * Σ c'ₖ Yₖ(d) = Σ cₖ Yₖ(Rᵀ d). Each band of the real SH basis is closed under rotation,
+ * so D is fitted exactly by least squares over SH_FIT_SAMPLES directions.
+ */
+function bandRotations(degree: number, r: ArrayLike<number>): Float64Array[] {
+  const bands: Float64Array[] = [];
+  const basis = new Float64Array(15);
+  const rotated = new Float64Array(15);
+  for (let l = 1; l <= degree; l++) {
+    const n = 2 * l + 1;
+    const off = l * l - 1;
+    const ata = new Float64Array(n * n);
+    const atb = new Float64Array(n * n);
+    for (let s = 0; s < SH_FIT_SAMPLES; s++) {
+      // Fibonacci sphere direction d, and Rᵀ d
+      const y = 1 - (2 * s + 1) / SH_FIT_SAMPLES;
+      const radius = Math.sqrt(1 - y * y);
+      const phi = s * Math.PI * (3 - Math.sqrt(5));
+      const dx = Math.cos(phi) * radius, dz = Math.sin(phi) * radius;
+      shBasis(dx, y, dz, basis);
+      shBasis(
+        r[0] * dx + r[1] * y + r[2] * dz,
+        r[3] * dx + r[4] * y + r[5] * dz,
+        r[6] * dx + r[7] * y + r[8] * dz,
+        rotated,
+      );
+      for (let j = 0; j < n; j++) {
+        for (let k = 0; k < n; k++) {
+          ata[j * n + k] += basis[off + j] * basis[off + k];
+          atb[j * n + k] += basis[off + j] * rotated[off + k];
+        }
+      }
+    }
+    bands.push(solveSquare(ata, atb, n));
+  }
+  return bands;
+}
+
+/** Bands 1-3 of the real SH basis, as evaluated by preprocess.wgsl. */
+function shBasis(x: number, y: number, z: number, out: Float64Array): void {
+  const xx = x * x, yy = y * y, zz = z * z;
+  const xy = x * y, yz = y * z, xz = x * z;
+  out[0] = -0.4886025119029199 * y;
+  out[1] = 0.4886025119029199 * z;
+  out[2] = -0.4886025119029199 * x;
+  out[3] = 1.0925484305920792 * xy;
+  out[4] = -1.0925484305920792 * yz;
+  out[5] = 0.31539156525252005 * (2 * zz - xx - yy);
+  out[6] = -1.0925484305920792 * xz;
+  out[7] = 0.5462742152960396 * (xx - yy);
+  out[8] = -0.5900435899266435 * y * (3 * xx - yy);
+  out[9] = 2.890611442640554 * xy * z;
+  out[10] = -0.4570457994644658 * y * (4 * zz - xx - yy);
+  out[11] = 0.3731763325901154 * z * (2 * zz - 3 * xx - 3 * yy);
+  out[12] = -0.4570457994644658 * x * (4 * zz - xx - yy);
+  out[13] = 1.445305721320277 * z * (xx - yy);
+  out[14] = -0.5900435899266435 * x * (xx - 3 * yy);
+}
+
+/** X with A X = B for n×n row-major A (symmetric positive definite here) and B. */
+function solveSquare(a: Float64Array, b: Float64Array, n: number): Float64Array {
+  // Gauss-Jordan elimination with partial pivoting
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row * n + col]) > Math.abs(a[pivot * n + col])) pivot = row;
+    }
+    if (pivot !== col) {
+      for (let k = 0; k < n; k++) {
+        [a[col * n + k], a[pivot * n + k]] = [a[pivot * n + k], a[col * n + k]];
+        [b[col * n + k], b[pivot * n + k]] = [b[pivot * n + k], b[col * n + k]];
+      }
+    }
+    const inv = 1 / a[col * n + col];
+    for (let k = 0; k < n; k++) {
+      a[col * n + k] *= inv;
+      b[col * n + k] *= inv;
+    }
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const f = a[row * n + col];
+      if (f === 0) continue;
+      for (let k = 0; k < n; k++) {
+        a[row * n + k] -= f * a[col * n + k];
+        b[row * n + k] -= f * b[col * n + k];
+      }
+    }
+  }
+  return b;
+}
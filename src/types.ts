@@ -1,8 +1,16 @@
+import type { SplatRenderer } from './core/SplatRenderer';
+
 /** Parsed PLY element */
 export interface PlyProperty {
   name: string;
+  /** Scalar type, or 'list' (then see countType / itemType). */
   type: string;
+  /** 0 for list properties (variable size). */
   byteSize: number;
+  /** List properties: type of the leading element count. */
+  countType?: string;
+  /** List properties: type of each item. */
+  itemType?: string;
 }
 
 export interface PlyElement {
@@ -18,6 +26,17 @@ export interface PlyFile {
   comment: string;
 }
 
+/** Typed array holding one extra per-splat attribute (see SplatData.extras). */
+export type SplatAttributeArray =
+  | Float32Array
+  | Float64Array
+  | Int8Array
+  | Uint8Array
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array;
+
 /** Decompressed/loaded splat data ready for GPU upload */
 export interface SplatData {
   count: number;
@@ -25,31 +44,192 @@ export interface SplatData {
   rotations: Float32Array;   // count * 4  (qw, qx, qy, qz)
   scales: Float32Array;      // count * 3  (sx, sy, sz) — already exp'd
   colors: Float32Array;      // count * 4  (r, g, b, a)  — 0..1 linear
-  /** SH bands 1-3 coefficients. 45 floats per splat (15 coefficients × 3 channels).
-   *  Layout: [R0..R14, G0..G14, B0..B14] per splat. Omit if no SH data. */
-  shCoeffs?: Float32Array;   // count * 45
+  /** SH bands 1..shDegree. n = (shDegree + 1)² - 1 coefficients per channel (3, 8 or 15).
+   *  Layout: [R0..Rn-1, G0..Gn-1, B0..Bn-1] per splat. Omit if no SH data. */
+  shCoeffs?: Float32Array;   // count * 3 * n
+  /** Highest SH band stored in shCoeffs (1-3); 0 without SH. */
+  shDegree: number;
+  /**
+   * Source attributes the renderer does not use (normals, labels, confidence, ...),
+   * by property name. Each holds `count * components` values in splat order.
+   */
+  extras?: Record<string, SplatAttributeArray>;
+  bounds: {
+    min: [number, number, number];
+    max: [number, number, number];
+  };
+}
+
+/**
+ * A SuperSplat compressed PLY kept in its packed form, decoded on the GPU by
+ * SplatRenderer.setPackedScene (see loadCompressedPlyPacked).
+ */
+export interface PackedSplatData {
+  count: number;
+  /** packed_position, packed_rotation, packed_scale, packed_color per splat. */
+  vertices: Uint32Array;     // count * 4
+  /** Per 256-splat chunk: min xyz, max xyz, min / max log-scale xyz, min / max rgb. */
+  chunks: Float32Array;      // numChunks * 18
+  /** Quantized SH (v = byte * 8/255 - 4) in the SplatData.shCoeffs layout for shDegree. */
+  shCoeffs?: Uint8Array;     // count * 3 * n
+  shDegree: number;
+  /** Positions decoded on the CPU, for bounds and CPU sorting. */
+  positions: Float32Array;   // count * 3
   bounds: {
     min: [number, number, number];
     max: [number, number, number];
   };
 }
 
+/** Progress of a load: bytes for 'download', splats for 'decode' / 'upload'. */
+export interface LoadProgress {
+  phase: 'download' | 'decode' | 'upload';
+  loaded: number;
+  /** 0 when unknown (e.g. no Content-Length). */
+  total: number;
+}
+
+/** Progress reporting and cancellation, accepted by every loader and SplatRenderer.setScene. */
+export interface LoadOptions {
+  /** Abort the load; pending work rejects with the signal's reason. */
+  signal?: AbortSignal;
+  onProgress?: (progress: LoadProgress) => void;
+  /**
+   * Response already requested for a URL source (see probeStreamingSource), read in
+   * place of fetching the URL again. Not used by RAD streaming or the loader worker.
+   */
+  response?: Response;
+}
+
+/** Callbacks for progressive loaders that deliver splats while the file is still arriving. */
+export interface SplatStreamOptions extends LoadOptions {
+  /**
+   * Called once the header is parsed, before any batch. `shScale` bounds the SH coefficient
+   * magnitudes when the header does (RAD 's8' maxima, compressed PLY's ±4); pass it to
+   * SplatRenderer.beginScene for the 'compact-sh8' layout.
+   */
+  onHeader?: (info: { count: number; shDegree: number; shScale?: number }) => void;
+  /** Called for each decoded batch, in splat index order. Arrays are views into the final SplatData. */
+  onBatch: (batch: SplatData) => void;
+  /**
+   * SH coefficients for splats [start, start + count) delivered after their batch
+   * (compressed PLY stores them behind all vertices), in the layout of the
+   * header's shDegree.
+   */
+  onShCoeffs?: (shCoeffs: Float32Array, start: number) => void;
+}
+
+/** Options for loadSplat. */
+export interface LoadSplatOptions extends LoadOptions {
+  /** Run fetch, format detection and decoding in a Web Worker (terminated on abort). Default false. */
+  worker?: boolean;
+}
+
 /** Camera state */
 export interface CameraState {
   position: [number, number, number];
   target: [number, number, number];
+  /** World up vector; overrides the coordinate system's. */
   up?: [number, number, number];
   fov?: number;   // vertical FOV in degrees
   near?: number;
   far?: number;
 }
 
+/**
+ * World axis conventions of the scene, all right-handed:
+ * 'opencv' (COLMAP / 3DGS PLY) has +Y down and +Z forward, 'opengl' (glTF, three.js) +Y up,
+ * 'z-up' (Blender, most scanners) +Z up.
+ * The renderer's option names the scene's axes: the camera's up vector follows it and scene
+ * splats are drawn as stored. Objects in another convention (SplatObjectTransform's
+ * coordinateSystem) are rotated into the scene's axes, with SH evaluated for the view
+ * direction rotated back into the object's own. coordinateSystemMatrix converts data itself.
+ */
+export type CoordinateSystem = 'opencv' | 'opengl' | 'z-up';
+
+/**
+ * GPU storage layout for splat attributes:
+ * 'float32' keeps every attribute as f32; 'compact' stores rotations as snorm16 and
+ * log-scales, colors and SH as f16 (positions stay f32); 'compact-sh8' is 'compact'
+ * with SH as 8-bit snorm scaled to the 99.9th percentile of the scene's coefficient
+ * magnitudes (see SplatRenderer.beginScene's `shScale`; larger ones are clamped and
+ * counted in SplatRenderer.shClampedCount).
+ */
+export type SplatLayout = 'float32' | 'compact' | 'compact-sh8';
+
 /** Options for the SplatRenderer */
 export interface RendererOptions {
   canvas: HTMLCanvasElement;
   antialias?: boolean;
+  /** GPU storage layout for splat attributes. Default 'float32'. */
+  layout?: SplatLayout;
+  /** Axes of the scene; sets the camera's world up vector. Default: the camera's own (that of 'opencv'). */
+  coordinateSystem?: CoordinateSystem;
+}
+
+/** Placement of a splat object added with SplatRenderer.addSplatObject. */
+export interface SplatObjectTransform {
+  /** Translation. Default [0, 0, 0]. */
+  position?: [number, number, number];
+  /** Rotation quaternion (w, x, y, z), normalized on use. Default identity. */
+  rotation?: [number, number, number, number];
+  /** Uniform or per-axis scale, applied before the rotation. Default 1. */
+  scale?: number | [number, number, number];
+  /** Hidden objects stay uploaded but are skipped by the preprocess pass. Default true. */
+  visible?: boolean;
+  /**
+   * Axes of the object's data, rotated onto the scene's (SplatRenderer.coordinateSystem)
+   * before the transform. Default: the scene's when the object is added.
+   */
+  coordinateSystem?: CoordinateSystem;
 }
 
+/** Handle to a splat object in a SplatRenderer scene. */
+export interface SplatObjectHandle {
+  /** Number of splats in the object. */
+  readonly count: number;
+  /** Index of the object's first splat in the scene (changes when earlier objects are removed). */
+  readonly start: number;
+  /** Current transform, with defaults filled in. */
+  readonly transform: Required<SplatObjectTransform>;
+  /** Update some or all of the transform; omitted fields keep their value. */
+  setTransform(transform: SplatObjectTransform): void;
+  /** Remove the object's splats from the scene. Further calls are no-ops. */
+  remove(): void;
+}
+
+/**
+ * Splats to select with SplatEditor.select. Screen shapes use CSS pixels relative to the
+ * canvas' top-left corner (e.g. PointerEvent.offsetX / offsetY) and test splat centers;
+ * world shapes use scene coordinates.
+ */
+export type SplatSelectionShape =
+  /** Explicit splat indices, e.g. SplatRenderer.hoveredSplatIndex on click. */
+  | { type: 'indices'; indices: ArrayLike<number> }
+  | { type: 'rect'; min: [number, number]; max: [number, number] }
+  /** Closed polygon in screen space. */
+  | { type: 'lasso'; points: [number, number][] }
+  | { type: 'sphere'; center: [number, number, number]; radius: number }
+  /** Axis-aligned box in world space. */
+  | { type: 'box'; min: [number, number, number]; max: [number, number, number] };
+
+/** How a selection combines with the current one: replace it, add to it or subtract from it. */
+export type SelectionMode = 'set' | 'add' | 'remove';
+
+/** Which side of a crop volume is drawn: 'inside' crops to the volume, 'outside' cuts it away. */
+export type CropMode = 'inside' | 'outside';
+
+/**
+ * View-time crop volume (see SplatRenderer.setCropVolumes), tested against world-space splat
+ * centers. `mode` defaults to 'inside'.
+ */
+export type CropVolume =
+  /** Oriented box: half extents along its local axes, rotated by `rotation` (w, x, y, z). */
+  | { type: 'box'; center: [number, number, number]; halfExtents: [number, number, number]; rotation?: [number, number, number, number]; mode?: CropMode }
+  | { type: 'sphere'; center: [number, number, number]; radius: number; mode?: CropMode }
+  /** Half-space through `point`; its inside is the side `normal` points to. */
+  | { type: 'plane'; point: [number, number, number]; normal: [number, number, number]; mode?: CropMode };
+
 /** Stats reported after loading / per frame */
 export interface SplatStats {
   numSplats: number;
@@ -58,6 +238,15 @@ export interface SplatStats {
   gpuMemoryBytes: number;
   /** Splat index under cursor (from GPU pick). null when no hit or outside canvas. */
   hoveredSplatIndex?: number | null;
+  /**
+   * Splats left after culling (behind the camera, off screen, degenerate, cropped, hidden or
+   * deleted) in a recent frame. Only these are sorted and drawn, except with the 'cpu' sorter.
+   */
+  visibleSplats?: number;
+  /** Splats outside the view frustum in a recent frame, including those of culled chunks. */
+  frustumCulledSplats?: number;
+  /** 256-splat chunks skipped whole because their bounds are outside the view frustum. */
+  culledChunks?: number;
 }
 
 /** Props for the React <ZSplat> component */
@@ -76,6 +265,24 @@ export interface ZSplatProps {
   cameraControlMode?: 'orbit' | 'fly';
   /** Sorting method: 'gpu-subgroup' (stable subgroup-optimized, default), 'gpu' (stable portable), 'gpu-unstable', 'cpu'. */
   sortMethod?: 'cpu' | 'gpu' | 'gpu-subgroup' | 'gpu-unstable';
+  /** GPU storage layout for splat attributes ('compact' roughly halves memory). Default 'float32'. */
+  layout?: SplatLayout;
+  /** World axis conventions; `camera.up` overrides its up vector. Default 'opencv'. */
+  coordinateSystem?: CoordinateSystem;
+  /** Crop volumes applied at view time; splats must pass all of them (see SplatRenderer.setCropVolumes). */
+  cropVolumes?: CropVolume[];
+  /** Fetch and decode in a Web Worker (whole file, no progressive PLY/RAD streaming). Default false. */
+  loadInWorker?: boolean;
+  /**
+   * Keep compressed PLY packed on the GPU (decoded by the preprocess shader, whatever `layout`)
+   * instead of decoding it into `layout`. It then appears once downloaded rather than
+   * progressively. Ignored with `loadInWorker`, which always decodes. Default true.
+   */
+  packCompressedPly?: boolean;
+  /** Download / decode / upload progress of the current `src`. */
+  onProgress?: (progress: LoadProgress) => void;
+  /** Called once the renderer is initialized, for APIs without a prop (editor, objects, camera). */
+  onRendererReady?: (renderer: SplatRenderer) => void;
   onLoad?: (info: { numSplats: number; splatData?: SplatData }) => void;
   onError?: (err: Error) => void;
   onStats?: (stats: SplatStats) => void;
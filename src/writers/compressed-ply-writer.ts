@@ -0,0 +1,223 @@
+import type { PlyProperty, SplatData } from '../types';
+import { encodePlyHeader } from './ply-header';
+import { detectShDegree, shDimForDegree, splatShDegree } from '../splat-data';
+
+const CHUNK_SIZE = 256;
+// SuperSplat clamps log-scales to this range before quantizing
+const LOG_SCALE_LIMIT = 20;
+
+const CHUNK_PROPS = [
+  'min_x', 'min_y', 'min_z', 'max_x', 'max_y', 'max_z',
+  'min_scale_x', 'min_scale_y', 'min_scale_z', 'max_scale_x', 'max_scale_y', 'max_scale_z',
+  'min_r', 'min_g', 'min_b', 'max_r', 'max_g', 'max_b',
+];
+
+/**
+ * Write SplatData as a SuperSplat-style compressed PLY.
+ * Splats are reordered along a Morton curve so each 256-splat chunk is spatially
+ * coherent, then packed against per-chunk position/scale/color bounds:
+ *   position  → 11/10/11 bits (unpack111011)
+ *   rotation  → smallest-three, 2 + 3×10 bits
+ *   scale     → log, 11/10/11 bits
+ *   color     → 8/8/8/8 bits (rgb against min_r/max_r bounds, alpha direct)
+ * SH bands 1-3 (if present) are written to an `sh` element as 8-bit values
+ * covering [-4, 4], truncated to the highest band actually used.
+ */
+export function saveCompressedPly(data: SplatData): ArrayBuffer {
+  const count = data.count;
+  const numChunks = Math.ceil(count / CHUNK_SIZE);
+  const order = mortonOrder(data);
+
+  const srcDim = shDimForDegree(splatShDegree(data));
+  const shDegree = detectShDegree(data.shCoeffs, count, splatShDegree(data));
+  const shDim = shDimForDegree(shDegree); // coefficients per channel
+  const numShProps = shDim * 3;
+
+  const floatProp = (name: string): PlyProperty => ({ name, type: 'float', byteSize: 4 });
+  const uintProp = (name: string): PlyProperty => ({ name, type: 'uint', byteSize: 4 });
+  const elements = [
+    { name: 'chunk', count: numChunks, properties: CHUNK_PROPS.map(floatProp) },
+    {
+      name: 'vertex',
+      count,
+      properties: ['packed_position', 'packed_rotation', 'packed_scale', 'packed_color'].map(uintProp),
+    },
+  ];
+  if (numShProps > 0) {
+    const properties: PlyProperty[] = [];
+    for (let k = 0; k < numShProps; k++) {
+      properties.push({ name: `f_rest_${k}`, type: 'uchar', byteSize: 1 });
+    }
+    elements.push({ name: 'sh', count, properties });
+  }
+  const header = encodePlyHeader(elements, ['Generated by zsplat']);
+
+  const chunkBytes = numChunks * CHUNK_PROPS.length * 4;
+  const vertexBytes = count * 16;
+  const out = new ArrayBuffer(header.byteLength + chunkBytes + vertexBytes + count * numShProps);
+  new Uint8Array(out).set(header, 0);
+  const chunkView = new DataView(out, header.byteLength, chunkBytes);
+  const vertexView = new DataView(out, header.byteLength + chunkBytes, vertexBytes);
+  const shOut = new Uint8Array(out, header.byteLength + chunkBytes + vertexBytes);
+
+  const { positions, rotations, scales, colors, shCoeffs } = data;
+  const logScales = new Float32Array(3);
+  const bounds = new Float32Array(CHUNK_PROPS.length);
+
+  for (let c = 0; c < numChunks; c++) {
+    const start = c * CHUNK_SIZE;
+    const end = Math.min(start + CHUNK_SIZE, count);
+
+    // ---- per-chunk bounds ----
+    bounds.fill(Infinity, 0, 3);
+    bounds.fill(-Infinity, 3, 6);
+    bounds.fill(Infinity, 6, 9);
+    bounds.fill(-Infinity, 9, 12);
+    bounds.fill(Infinity, 12, 15);
+    bounds.fill(-Infinity, 15, 18);
+    for (let j = start; j < end; j++) {
+      const i = order[j];
+      readLogScales(scales, i, logScales);
+      for (let a = 0; a < 3; a++) {
+        bounds[a] = Math.min(bounds[a], positions[i * 3 + a]);
+        bounds[3 + a] = Math.max(bounds[3 + a], positions[i * 3 + a]);
+        bounds[6 + a] = Math.min(bounds[6 + a], logScales[a]);
+        bounds[9 + a] = Math.max(bounds[9 + a], logScales[a]);
+        bounds[12 + a] = Math.min(bounds[12 + a], colors[i * 4 + a]);
+        bounds[15 + a] = Math.max(bounds[15 + a], colors[i * 4 + a]);
+      }
+    }
+    for (let p = 0; p < CHUNK_PROPS.length; p++) {
+      chunkView.setFloat32((c * CHUNK_PROPS.length + p) * 4, bounds[p], true);
+    }
+
+    // ---- pack vertices ----
+    for (let j = start; j < end; j++) {
+      const i = order[j];
+
+      const packedPosition = pack111011(
+        normalize(positions[i * 3], bounds[0], bounds[3]),
+        normalize(positions[i * 3 + 1], bounds[1], bounds[4]),
+        normalize(positions[i * 3 + 2], bounds[2], bounds[5]),
+      );
+
+      const packedRotation = packRotation(
+        rotations[i * 4], rotations[i * 4 + 1], rotations[i * 4 + 2], rotations[i * 4 + 3],
+      );
+
+      readLogScales(scales, i, logScales);
+      const packedScale = pack111011(
+        normalize(logScales[0], bounds[6], bounds[9]),
+        normalize(logScales[1], bounds[7], bounds[10]),
+        normalize(logScales[2], bounds[8], bounds[11]),
+      );
+
+      const packedColor = pack8888(
+        normalize(colors[i * 4], bounds[12], bounds[15]),
+        normalize(colors[i * 4 + 1], bounds[13], bounds[16]),
+        normalize(colors[i * 4 + 2], bounds[14], bounds[17]),
+        colors[i * 4 + 3],
+      );
+
+      vertexView.setUint32(j * 16, packedPosition, true);
+      vertexView.setUint32(j * 16 + 4, packedRotation, true);
+      vertexView.setUint32(j * 16 + 8, packedScale, true);
+      vertexView.setUint32(j * 16 + 12, packedColor, true);
+
+      // SH: [R0..R(n-1), G0..G(n-1), B0..B(n-1)], quantized like SuperSplat
+      if (shCoeffs && numShProps > 0) {
+        for (let ch = 0; ch < 3; ch++) {
+          for (let k = 0; k < shDim; k++) {
+            const v = shCoeffs[(i * 3 + ch) * srcDim + k] / 8 + 0.5;
+            shOut[j * numShProps + ch * shDim + k] = Math.max(0, Math.min(255, Math.trunc(v * 256)));
+          }
+        }
+      }
+    }
+  }
+
+  return out;
+}
+
+// ---- spatial ordering ----
+
+/** Sort splat indices along a 30-bit Morton (Z-order) curve over the scene bounds. */
+function mortonOrder(data: SplatData): Uint32Array {
+  const { count, positions, bounds } = data;
+  const codes = new Uint32Array(count);
+  const order = new Uint32Array(count);
+  const sx = 1023 / ((bounds.max[0] - bounds.min[0]) || 1);
+  const sy = 1023 / ((bounds.max[1] - bounds.min[1]) || 1);
+  const sz = 1023 / ((bounds.max[2] - bounds.min[2]) || 1);
+
+  for (let i = 0; i < count; i++) {
+    const x = clampInt((positions[i * 3] - bounds.min[0]) * sx, 1023);
+    const y = clampInt((positions[i * 3 + 1] - bounds.min[1]) * sy, 1023);
+    const z = clampInt((positions[i * 3 + 2] - bounds.min[2]) * sz, 1023);
+    codes[i] = ((spreadBits(x) << 2) | (spreadBits(y) << 1) | spreadBits(z)) >>> 0;
+    order[i] = i;
+  }
+
+  order.sort((a, b) => codes[a] - codes[b]);
+  return order;
+}
+
+/** Insert two zero bits between each of the low 10 bits. */
+function spreadBits(v: number): number {
+  v = (v | (v << 16)) & 0x030000ff;
+  v = (v | (v << 8)) & 0x0300f00f;
+  v = (v | (v << 4)) & 0x030c30c3;
+  v = (v | (v << 2)) & 0x09249249;
+  return v;
+}
+
+function clampInt(v: number, max: number): number {
+  return Math.max(0, Math.min(max, Math.floor(v)));
+}
+
+// ---- bit packing (inverse of the loader's unpack helpers) ----
+
+function readLogScales(scales: Float32Array, i: number, out: Float32Array): void {
+  for (let a = 0; a < 3; a++) {
+    const s = scales[i * 3 + a];
+    out[a] = s > 0 ? Math.max(-LOG_SCALE_LIMIT, Math.min(LOG_SCALE_LIMIT, Math.log(s))) : -LOG_SCALE_LIMIT;
+  }
+}
+
+function normalize(v: number, min: number, max: number): number {
+  const range = max - min;
+  return range > 0 ? (v - min) / range : 0;
+}
+
+function packUnorm(value: number, bits: number): number {
+  const t = (1 << bits) - 1;
+  return Math.max(0, Math.min(t, Math.floor(value * t + 0.5)));
+}
+
+function pack111011(x: number, y: number, z: number): number {
+  return ((packUnorm(x, 11) << 21) | (packUnorm(y, 10) << 11) | packUnorm(z, 11)) >>> 0;
+}
+
+function pack8888(x: number, y: number, z: number, w: number): number {
+  return ((packUnorm(x, 8) << 24) | (packUnorm(y, 8) << 16) | (packUnorm(z, 8) << 8) | packUnorm(w, 8)) >>> 0;
+}
+
+/** Smallest-three: 2-bit index of the largest component (w, x, y, z order), then the other three. */
+function packRotation(w: number, x: number, y: number, z: number): number {
+  const q = [w, x, y, z];
+  const len = Math.hypot(w, x, y, z) || 1;
+  let largest = 0;
+  for (let k = 1; k < 4; k++) {
+    if (Math.abs(q[k]) > Math.abs(q[largest])) largest = k;
+  }
+  // q and -q are the same rotation; make the dropped component positive
+  const sign = q[largest] < 0 ? -1 : 1;
+  const norm = Math.SQRT2 * 0.5;
+
+  let packed = largest;
+  for (let k = 0; k < 4; k++) {
+    if (k === largest) continue;
+    packed = (packed << 10) | packUnorm((sign * q[k] / len) * norm + 0.5, 10);
+  }
+  return packed >>> 0;
+}
@@ -0,0 +1,45 @@
+import type { SplatData } from '../types';
+import { DOT_SPLAT_STRIDE } from '../loaders/dot-splat-loader';
+
+/**
+ * Write SplatData as an antimatter15 .splat file (inverse of loadDotSplat).
+ * Splats keep their order; SH bands 1-3 are dropped since the format has no room for them.
+ */
+export function saveDotSplat(data: SplatData): ArrayBuffer {
+  const count = data.count;
+  const out = new ArrayBuffer(count * DOT_SPLAT_STRIDE);
+  const view = new DataView(out);
+  const bytes = new Uint8Array(out);
+
+  for (let i = 0; i < count; i++) {
+    const o = i * DOT_SPLAT_STRIDE;
+
+    for (let k = 0; k < 3; k++) {
+      view.setFloat32(o + k * 4, data.positions[i * 3 + k], true);
+      view.setFloat32(o + 12 + k * 4, data.scales[i * 3 + k], true);
+    }
+
+    for (let k = 0; k < 4; k++) {
+      bytes[o + 24 + k] = toUint8(data.colors[i * 4 + k] * 255);
+    }
+
+    // Rotation: (w, x, y, z) → q * 128 + 128
+    const w = data.rotations[i * 4];
+    const x = data.rotations[i * 4 + 1];
+    const y = data.rotations[i * 4 + 2];
+    const z = data.rotations[i * 4 + 3];
+    const len = Math.hypot(w, x, y, z) || 1;
+    bytes[o + 28] = toUint8((w / len) * 128 + 128);
+    bytes[o + 29] = toUint8((x / len) * 128 + 128);
+    bytes[o + 30] = toUint8((y / len) * 128 + 128);
+    bytes[o + 31] = toUint8((z / len) * 128 + 128);
+  }
+
+  return out;
+}
+
+// ---- internal helpers ----
+
+function toUint8(x: number): number {
+  return Math.round(Math.max(0, Math.min(255, x)));
+}
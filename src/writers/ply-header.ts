@@ -0,0 +1,18 @@
+import type { PlyElement } from '../types';
+
+/**
+ * Encode an ASCII binary_little_endian PLY header for the given elements.
+ * Inverse of parsePlyHeader for the subset of PLY that the writers emit.
+ */
+export function encodePlyHeader(elements: PlyElement[], comments: string[] = []): Uint8Array {
+  const lines = ['ply', 'format binary_little_endian 1.0'];
+  for (const c of comments) lines.push(`comment ${c}`);
+  for (const el of elements) {
+    lines.push(`element ${el.name} ${el.count}`);
+    for (const p of el.properties) {
+      lines.push(`property ${p.type} ${p.name}`);
+    }
+  }
+  lines.push('end_header');
+  return new TextEncoder().encode(lines.join('\n') + '\n');
+}
@@ -0,0 +1,400 @@
+import type { SplatData } from '../types';
+import type { SogMeta } from '../loaders/sog-loader';
+import { splatShDegree, shDimForDegree } from '../splat-data';
+import { encodeLosslessWebp } from './webp-lossless';
+
+const SH_C0 = 0.28209479177387814;
+const CODEBOOK_SIZE = 256;
+// k-means runs on at most this many samples; every value is then assigned to the final codebook
+const KMEANS_MAX_SAMPLES = 1 << 18;
+// shN palette: entries are 16-bit labels, laid out 64 per row of the centroids texture
+const SH_PALETTE_MAX = 65536;
+const SH_PALETTE_ROW = 64;
+// Default palette size is one entry per this many splats (rounded to a power of two, at most 4096)
+const SPLATS_PER_SH_ENTRY = 64;
+const SH_PALETTE_DEFAULT_MAX = 4096;
+// Vector k-means trains on at most this many SH vectors
+const SH_KMEANS_MAX_SAMPLES = 1 << 14;
+
+export interface SogWriteOptions {
+  /** Lloyd iterations for the scales / sh0 / shN codebooks and the shN palette. Default 10. */
+  iterations?: number;
+  /**
+   * Entries in the shN palette (SH bands 1-3 vectors shared between splats), up to 65536.
+   * Default: one per 64 splats, rounded up to a power of two and capped at 4096.
+   */
+  shPaletteSize?: number;
+  /**
+   * Encode an RGBA texture as a WebP Blob. It must be lossless and must not premultiply
+   * alpha (quats keep their mode in alpha), so canvas-based encoders will not do.
+   * Defaults to the built-in VP8L encoder, which is bit-exact.
+   */
+  encodeImage?: (rgba: Uint8Array, width: number, height: number) => Promise<Blob>;
+}
+
+export interface SogWriteResult {
+  meta: SogMeta;
+  /** filename → Blob, including `meta.json` and every texture it references. */
+  files: Map<string, Blob>;
+}
+
+/**
+ * Encode SplatData as a SOG v2 scene (meta.json + WebP textures).
+ * Inverse of loadSog / loadSogFromFiles:
+ *   means  → sign(p)·log(|p|+1), 16 bits split across means_l / means_u
+ *   quats  → smallest-three, mode in alpha (252 + index of largest)
+ *   scales → 256-entry k-means codebook over log(scale)
+ *   sh0    → 256-entry k-means codebook over SH DC, opacity in alpha
+ *   shN    → k-means palette of SH bands 1-3 vectors (shN_centroids, one 256-entry codebook
+ *            over their values) and a 16-bit palette label per splat (shN_labels)
+ */
+export async function saveSog(data: SplatData, options?: SogWriteOptions): Promise<SogWriteResult> {
+  const count = data.count;
+  const iterations = options?.iterations ?? 10;
+  const encodeImage = options?.encodeImage ?? encodeWebp;
+
+  const width = Math.max(4, Math.ceil(Math.sqrt(count) / 4) * 4);
+  const height = Math.max(1, Math.ceil(count / width));
+  const pixels = width * height;
+
+  // ---- means ----
+  const mins = [Infinity, Infinity, Infinity];
+  const maxs = [-Infinity, -Infinity, -Infinity];
+  const logPos = new Float32Array(count * 3);
+  for (let i = 0; i < count * 3; i++) {
+    const p = data.positions[i];
+    const n = Math.sign(p) * Math.log(Math.abs(p) + 1);
+    logPos[i] = n;
+    const a = i % 3;
+    mins[a] = Math.min(mins[a], n);
+    maxs[a] = Math.max(maxs[a], n);
+  }
+  const meansL = new Uint8Array(pixels * 4);
+  const meansU = new Uint8Array(pixels * 4);
+  for (let i = 0; i < count; i++) {
+    for (let a = 0; a < 3; a++) {
+      const range = maxs[a] - mins[a];
+      const t = range > 0 ? (logPos[i * 3 + a] - mins[a]) / range : 0;
+      const q = Math.max(0, Math.min(65535, Math.round(t * 65535)));
+      meansL[i * 4 + a] = q & 0xff;
+      meansU[i * 4 + a] = q >> 8;
+    }
+    meansL[i * 4 + 3] = 255;
+    meansU[i * 4 + 3] = 255;
+  }
+
+  // ---- quats ----
+  const quats = new Uint8Array(pixels * 4);
+  for (let i = 0; i < count; i++) {
+    packQuat(data.rotations, i, quats);
+  }
+
+  // ---- scales ----
+  const logScales = new Float32Array(count * 3);
+  for (let i = 0; i < count * 3; i++) {
+    logScales[i] = Math.log(Math.max(1e-30, data.scales[i]));
+  }
+  const scalesKm = kmeans1d(logScales, iterations);
+  const scalesImg = new Uint8Array(pixels * 4);
+  for (let i = 0; i < count; i++) {
+    scalesImg[i * 4] = scalesKm.labels[i * 3];
+    scalesImg[i * 4 + 1] = scalesKm.labels[i * 3 + 1];
+    scalesImg[i * 4 + 2] = scalesKm.labels[i * 3 + 2];
+    scalesImg[i * 4 + 3] = 255;
+  }
+
+  // ---- sh0 ----
+  const dc = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    for (let c = 0; c < 3; c++) {
+      dc[i * 3 + c] = (data.colors[i * 4 + c] - 0.5) / SH_C0;
+    }
+  }
+  const sh0Km = kmeans1d(dc, iterations);
+  const sh0Img = new Uint8Array(pixels * 4);
+  for (let i = 0; i < count; i++) {
+    sh0Img[i * 4] = sh0Km.labels[i * 3];
+    sh0Img[i * 4 + 1] = sh0Km.labels[i * 3 + 1];
+    sh0Img[i * 4 + 2] = sh0Km.labels[i * 3 + 2];
+    sh0Img[i * 4 + 3] = Math.max(0, Math.min(255, Math.round(data.colors[i * 4 + 3] * 255)));
+  }
+
+  // ---- shN ----
+  const shDegree = splatShDegree(data);
+  const shN = shDegree > 0 && count > 0
+    ? encodeShN(data.shCoeffs!, count, shDegree, pixels, iterations, options?.shPaletteSize)
+    : null;
+
+  const meta: SogMeta = {
+    version: 2,
+    count,
+    means: { mins, maxs, files: ['means_l.webp', 'means_u.webp'] },
+    quats: { files: ['quats.webp'] },
+    scales: { codebook: Array.from(scalesKm.codebook), files: ['scales.webp'] },
+    sh0: { codebook: Array.from(sh0Km.codebook), files: ['sh0.webp'] },
+  };
+  if (shN) {
+    meta.shN = {
+      count: shN.paletteSize,
+      bands: shDegree,
+      codebook: Array.from(shN.codebook),
+      files: ['shN_centroids.webp', 'shN_labels.webp'],
+    };
+  }
+
+  const [meansLBlob, meansUBlob, quatsBlob, scalesBlob, sh0Blob] = await Promise.all(
+    [meansL, meansU, quats, scalesImg, sh0Img].map((img) => encodeImage(img, width, height)),
+  );
+
+  const files = new Map<string, Blob>([
+    ['meta.json', new Blob([JSON.stringify(meta)], { type: 'application/json' })],
+    ['means_l.webp', meansLBlob],
+    ['means_u.webp', meansUBlob],
+    ['quats.webp', quatsBlob],
+    ['scales.webp', scalesBlob],
+    ['sh0.webp', sh0Blob],
+  ]);
+  if (shN) {
+    const [centroidsBlob, labelsBlob] = await Promise.all([
+      encodeImage(shN.centroids, shN.centroidsWidth, shN.centroidsHeight),
+      encodeImage(shN.labels, width, height),
+    ]);
+    files.set('shN_centroids.webp', centroidsBlob);
+    files.set('shN_labels.webp', labelsBlob);
+  }
+
+  return { meta, files };
+}
+
+// ---- internal helpers ----
+
+/** Smallest-three quaternion: a, b, c in RGB, 252 + index of the dropped (w, x, y, z) component in alpha. */
+function packQuat(rotations: Float32Array, i: number, out: Uint8Array): void {
+  const q = [rotations[i * 4], rotations[i * 4 + 1], rotations[i * 4 + 2], rotations[i * 4 + 3]];
+  const len = Math.hypot(q[0], q[1], q[2], q[3]) || 1;
+  let largest = 0;
+  for (let k = 1; k < 4; k++) {
+    if (Math.abs(q[k]) > Math.abs(q[largest])) largest = k;
+  }
+  const sign = q[largest] < 0 ? -1 : 1;
+  let c = 0;
+  for (let k = 0; k < 4; k++) {
+    if (k === largest) continue;
+    const v = (sign * q[k]) / len;
+    out[i * 4 + c] = Math.max(0, Math.min(255, Math.round((v / Math.SQRT2 + 0.5) * 255)));
+    c++;
+  }
+  out[i * 4 + 3] = 252 + largest;
+}
+
+/**
+ * SH bands 1-3 as a palette of SH vectors plus a label per splat. Centroid `e` takes
+ * `dim` pixels from x = (e % 64) * dim in row e / 64, one pixel per coefficient with the
+ * codebook indices of R, G, B; labels hold the 16-bit entry index in R (low) and G (high).
+ */
+function encodeShN(
+  shCoeffs: Float32Array,
+  count: number,
+  shDegree: number,
+  pixels: number,
+  iterations: number,
+  paletteSize?: number,
+): {
+  paletteSize: number;
+  codebook: Float32Array;
+  centroids: Uint8Array;
+  centroidsWidth: number;
+  centroidsHeight: number;
+  labels: Uint8Array;
+} {
+  const dim = shDimForDegree(shDegree);
+  const size = Math.max(1, Math.min(
+    count,
+    SH_PALETTE_MAX,
+    paletteSize ?? Math.min(SH_PALETTE_DEFAULT_MAX, 2 ** Math.ceil(Math.log2(Math.max(1, count / SPLATS_PER_SH_ENTRY)))),
+  ));
+  const palette = kmeansVectors(shCoeffs, count, 3 * dim, size, iterations);
+  const entries = palette.centroids.length / (3 * dim);
+  const valuesKm = kmeans1d(palette.centroids, iterations);
+
+  const centroidsWidth = SH_PALETTE_ROW * dim;
+  const centroidsHeight = Math.ceil(entries / SH_PALETTE_ROW);
+  const centroids = new Uint8Array(centroidsWidth * centroidsHeight * 4);
+  for (let e = 0; e < entries; e++) {
+    const row = Math.floor(e / SH_PALETTE_ROW) * centroidsWidth + (e % SH_PALETTE_ROW) * dim;
+    for (let j = 0; j < dim; j++) {
+      for (let c = 0; c < 3; c++) {
+        centroids[(row + j) * 4 + c] = valuesKm.labels[e * 3 * dim + c * dim + j];
+      }
+      centroids[(row + j) * 4 + 3] = 255;
+    }
+  }
+
+  const labels = new Uint8Array(pixels * 4);
+  for (let i = 0; i < count; i++) {
+    labels[i * 4] = palette.labels[i] & 0xff;
+    labels[i * 4 + 1] = palette.labels[i] >> 8;
+    labels[i * 4 + 3] = 255;
+  }
+  return { paletteSize: entries, codebook: valuesKm.codebook, centroids, centroidsWidth, centroidsHeight, labels };
+}
+
+/**
+ * Palette of at most `k` vectors (of `dim` floats) and the nearest entry for each of the
+ * `count` vectors, by two-level k-means: ~sqrt(k) coarse clusters, each split into entries
+ * in proportion to its size, so labelling a vector tests ~2·sqrt(k) centroids rather than k.
+ * Trains on at most SH_KMEANS_MAX_SAMPLES vectors. With k >= count every vector is its own entry.
+ */
+function kmeansVectors(
+  values: Float32Array,
+  count: number,
+  dim: number,
+  k: number,
+  iterations: number,
+): { centroids: Float32Array; labels: Uint16Array } {
+  if (k >= count) {
+    return { centroids: values.slice(0, count * dim), labels: Uint16Array.from({ length: count }, (_, i) => i) };
+  }
+  const step = Math.max(1, Math.ceil(count / SH_KMEANS_MAX_SAMPLES));
+  const sample: number[] = [];
+  for (let i = 0; i < count; i += step) sample.push(i);
+
+  // Coarse clusters; those without training samples are dropped
+  const coarseAll = lloyd(values, dim, sample, Math.ceil(Math.sqrt(k)), iterations);
+  const coarseK = coarseAll.length / dim;
+  const groupsAll: number[][] = Array.from({ length: coarseK }, () => []);
+  for (const i of sample) groupsAll[nearestVector(coarseAll, coarseK, dim, values, i * dim)].push(i);
+  const kept = groupsAll.flatMap((g, j) => (g.length > 0 ? [j] : []));
+  const groups = kept.map((j) => groupsAll[j]);
+  const coarse = new Float32Array(kept.length * dim);
+  kept.forEach((j, g) => coarse.set(coarseAll.subarray(j * dim, (j + 1) * dim), g * dim));
+
+  // Entries per coarse cluster, in proportion to its samples (at least one, at most k in total)
+  const sizes = groups.map((g) => Math.max(1, Math.min(g.length, Math.round((k * g.length) / sample.length))));
+  let total = sizes.reduce((a, b) => a + b, 0);
+  while (total > k) {
+    const largest = sizes.indexOf(Math.max(...sizes));
+    sizes[largest]--;
+    total--;
+  }
+
+  const fine = groups.map((g, j) => lloyd(values, dim, g, sizes[j], iterations));
+  const offsets = new Uint32Array(groups.length);
+  for (let j = 1; j < groups.length; j++) offsets[j] = offsets[j - 1] + sizes[j - 1];
+  const centroids = new Float32Array(total * dim);
+  fine.forEach((c, j) => centroids.set(c, offsets[j] * dim));
+
+  const labels = new Uint16Array(count);
+  for (let i = 0; i < count; i++) {
+    const j = nearestVector(coarse, groups.length, dim, values, i * dim);
+    labels[i] = offsets[j] + nearestVector(fine[j], sizes[j], dim, values, i * dim);
+  }
+  return { centroids, labels };
+}
+
+/** Lloyd iterations over the vectors at `indices`, initialised with evenly spaced ones. */
+function lloyd(values: Float32Array, dim: number, indices: number[], k: number, iterations: number): Float32Array {
+  const centroids = new Float32Array(k * dim);
+  for (let j = 0; j < k; j++) {
+    const src = indices[Math.floor(((j + 0.5) / k) * indices.length)] * dim;
+    centroids.set(values.subarray(src, src + dim), j * dim);
+  }
+
+  const sums = new Float64Array(k * dim);
+  const sizes = new Uint32Array(k);
+  for (let iter = 0; iter < iterations; iter++) {
+    sums.fill(0);
+    sizes.fill(0);
+    for (const i of indices) {
+      const j = nearestVector(centroids, k, dim, values, i * dim);
+      sizes[j]++;
+      for (let d = 0; d < dim; d++) sums[j * dim + d] += values[i * dim + d];
+    }
+    // Empty clusters keep their centroid
+    for (let j = 0; j < k; j++) {
+      if (sizes[j] === 0) continue;
+      for (let d = 0; d < dim; d++) centroids[j * dim + d] = sums[j * dim + d] / sizes[j];
+    }
+  }
+  return centroids;
+}
+
+/** Index of the centroid closest to values[offset .. offset + dim), abandoning a distance once it is worse. */
+function nearestVector(centroids: Float32Array, k: number, dim: number, values: Float32Array, offset: number): number {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let j = 0; j < k; j++) {
+    let dist = 0;
+    for (let d = 0; d < dim && dist < bestDist; d++) {
+      const diff = values[offset + d] - centroids[j * dim + d];
+      dist += diff * diff;
+    }
+    if (dist < bestDist) {
+      bestDist = dist;
+      best = j;
+    }
+  }
+  return best;
+}
+
+/**
+ * 1D k-means (Lloyd) with quantile initialisation.
+ * In 1D the clusters of sorted centroids are contiguous ranges of the sorted
+ * samples, so each iteration is a binary search per centroid over prefix sums.
+ */
+function kmeans1d(values: Float32Array, iterations: number): { codebook: Float32Array; labels: Uint8Array } {
+  const k = CODEBOOK_SIZE;
+  const step = Math.max(1, Math.ceil(values.length / KMEANS_MAX_SAMPLES));
+  const sample = new Float32Array(Math.ceil(values.length / step));
+  for (let i = 0, j = 0; i < values.length; i += step, j++) sample[j] = values[i];
+  sample.sort();
+
+  const n = sample.length;
+  const prefix = new Float64Array(n + 1);
+  for (let i = 0; i < n; i++) prefix[i + 1] = prefix[i] + sample[i];
+
+  const codebook = new Float32Array(k);
+  for (let j = 0; j < k; j++) {
+    codebook[j] = n > 0 ? sample[Math.min(n - 1, Math.floor(((j + 0.5) / k) * n))] : 0;
+  }
+
+  for (let iter = 0; iter < iterations && n > 0; iter++) {
+    let lo = 0;
+    for (let j = 0; j < k; j++) {
+      const hi = j === k - 1 ? n : lowerBound(sample, (codebook[j] + codebook[j + 1]) * 0.5);
+      if (hi > lo) codebook[j] = (prefix[hi] - prefix[lo]) / (hi - lo);
+      lo = Math.max(lo, hi);
+    }
+    codebook.sort();
+  }
+
+  const labels = new Uint8Array(values.length);
+  for (let i = 0; i < values.length; i++) {
+    labels[i] = nearestIndex(codebook, values[i]);
+  }
+  return { codebook, labels };
+}
+
+/** First index in sorted `arr` whose value is >= v. */
+function lowerBound(arr: Float32Array, v: number): number {
+  let lo = 0;
+  let hi = arr.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (arr[mid] < v) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function nearestIndex(sorted: Float32Array, v: number): number {
+  const i = lowerBound(sorted, v);
+  if (i === 0) return 0;
+  if (i === sorted.length) return sorted.length - 1;
+  return v - sorted[i - 1] <= sorted[i] - v ? i - 1 : i;
+}
+
+/** Encode RGBA pixels with the built-in lossless WebP encoder. */
+async function encodeWebp(rgba: Uint8Array, width: number, height: number): Promise<Blob> {
+  return new Blob([encodeLosslessWebp(rgba, width, height)], { type: 'image/webp' });
+}
@@ -0,0 +1,206 @@
+import type { SplatData } from '../types';
+import { detectShDegree, shDimForDegree, splatShDegree } from '../splat-data';
+
+const SPZ_MAGIC = 0x5053474e; // "NGSP" LE
+const COLOR_SCALE = 0.15;
+const SH_C0 = 0.28209479177387814;
+const SQRT1_2 = 0.7071067811865475244;
+const MAX_FIXED = (1 << 23) - 1; // 24-bit signed fixed point
+const MAX_FRACTIONAL_BITS = 23;
+// Bucket sizes from the reference encoder: 5 bits for band 1, 4 bits for bands 2-3
+const SH1_BUCKET = 1 << 3;
+const SH_REST_BUCKET = 1 << 4;
+
+export interface SpzWriteOptions {
+  /** SPZ version: 3 = smallest-three quaternions (default), 2 = first-three. */
+  version?: 2 | 3;
+  /** Fixed-point fractional bits for positions. Default: as many as fit the scene bounds. */
+  fractionalBits?: number;
+  /** SH degree to encode (0-3). Default: highest band present in data. */
+  shDegree?: number;
+}
+
+export interface SpzWriteResult {
+  /** Gzipped .spz file contents. */
+  buffer: ArrayBuffer;
+  /** Fractional bits actually used for positions. */
+  fractionalBits: number;
+  /** Largest absolute per-axis difference between input and quantized positions. */
+  maxPositionError: number;
+}
+
+/**
+ * Pick the most fractional bits such that every coordinate in the bounds
+ * still fits a 24-bit signed integer.
+ */
+export function spzFractionalBitsForBounds(bounds: SplatData['bounds']): number {
+  const maxAbs = Math.max(
+    Math.abs(bounds.min[0]), Math.abs(bounds.min[1]), Math.abs(bounds.min[2]),
+    Math.abs(bounds.max[0]), Math.abs(bounds.max[1]), Math.abs(bounds.max[2]),
+  );
+  if (!(maxAbs > 0) || !Number.isFinite(maxAbs)) return 12; // reference encoder default
+  const bits = Math.floor(Math.log2(MAX_FIXED / maxAbs));
+  return Math.max(0, Math.min(MAX_FRACTIONAL_BITS, bits));
+}
+
+/**
+ * Encode SplatData as Niantic .spz (gzipped via CompressionStream).
+ * Spec: https://github.com/nianticlabs/spz
+ */
+export async function saveSpz(data: SplatData, options?: SpzWriteOptions): Promise<SpzWriteResult> {
+  const version = options?.version ?? 3;
+  if (version !== 2 && version !== 3) {
+    throw new Error(`SPZ: unsupported version ${version}`);
+  }
+  const fractionalBits = options?.fractionalBits ?? spzFractionalBitsForBounds(data.bounds);
+  if (!Number.isInteger(fractionalBits) || fractionalBits < 0 || fractionalBits > MAX_FRACTIONAL_BITS) {
+    throw new Error(`SPZ: invalid fractionalBits ${fractionalBits}`);
+  }
+  const shDegree = options?.shDegree ?? detectShDegree(data.shCoeffs, data.count, splatShDegree(data));
+  if (!Number.isInteger(shDegree) || shDegree < 0 || shDegree > 3) {
+    throw new Error(`SPZ: invalid shDegree ${shDegree}`);
+  }
+
+  const numPoints = data.count;
+  const shDim = shDimForDegree(shDegree);
+  const rotationBytes = version === 3 ? 4 : 3;
+  const bytesPerPoint = 9 + 1 + 3 + 3 + rotationBytes + shDim * 3;
+  const out = new Uint8Array(16 + numPoints * bytesPerPoint);
+  const view = new DataView(out.buffer);
+
+  view.setUint32(0, SPZ_MAGIC, true);
+  view.setUint32(4, version, true);
+  view.setUint32(8, numPoints, true);
+  out[12] = shDegree;
+  out[13] = fractionalBits;
+  out[14] = 0; // flags
+  out[15] = 0; // reserved
+  let offset = 16;
+
+  // Positions: 24-bit signed fixed point per axis
+  const posScale = 1 << fractionalBits;
+  let maxPositionError = 0;
+  for (let i = 0; i < numPoints * 3; i++) {
+    const p = data.positions[i];
+    const fixed = Math.max(-MAX_FIXED, Math.min(MAX_FIXED, Math.round(p * posScale)));
+    maxPositionError = Math.max(maxPositionError, Math.abs(p - fixed / posScale));
+    out[offset] = fixed & 0xff;
+    out[offset + 1] = (fixed >> 8) & 0xff;
+    out[offset + 2] = (fixed >> 16) & 0xff;
+    offset += 3;
+  }
+
+  // Alphas: sigmoid(logit) * 255
+  for (let i = 0; i < numPoints; i++) {
+    out[offset++] = toUint8(data.colors[i * 4 + 3] * 255);
+  }
+
+  // Colors: linear color → DC coeff → (dc * COLOR_SCALE + 0.5) * 255
+  for (let i = 0; i < numPoints; i++) {
+    for (let c = 0; c < 3; c++) {
+      const dc = (data.colors[i * 4 + c] - 0.5) / SH_C0;
+      out[offset++] = toUint8((dc * COLOR_SCALE + 0.5) * 255);
+    }
+  }
+
+  // Scales: (log_scale + 10) * 16
+  for (let i = 0; i < numPoints * 3; i++) {
+    const s = data.scales[i];
+    out[offset++] = s > 0 ? toUint8((Math.log(s) + 10) * 16) : 0;
+  }
+
+  // Rotations
+  for (let i = 0; i < numPoints; i++) {
+    const w = data.rotations[i * 4];
+    const x = data.rotations[i * 4 + 1];
+    const y = data.rotations[i * 4 + 2];
+    const z = data.rotations[i * 4 + 3];
+    if (version === 3) {
+      packQuaternionSmallestThree(out, offset, x, y, z, w);
+    } else {
+      packQuaternionFirstThree(out, offset, x, y, z, w);
+    }
+    offset += rotationBytes;
+  }
+
+  // Spherical harmonics: coefficient-major then RGB (sh0_r, sh0_g, sh0_b, sh1_r, ...)
+  // Bands above data.shDegree are written as zero
+  if (shDim > 0) {
+    const sh = data.shCoeffs;
+    const srcDim = shDimForDegree(splatShDegree(data));
+    for (let i = 0; i < numPoints; i++) {
+      for (let k = 0; k < shDim; k++) {
+        const bucket = k < 3 ? SH1_BUCKET : SH_REST_BUCKET;
+        for (let ch = 0; ch < 3; ch++) {
+          out[offset++] = quantizeSH(sh && k < srcDim ? sh[(i * 3 + ch) * srcDim + k] : 0, bucket);
+        }
+      }
+    }
+  }
+
+  const buffer = await compressGzip(out.buffer);
+  return { buffer, fractionalBits, maxPositionError };
+}
+
+// ---- internal helpers ----
+
+/**
+ * Compress data with gzip using the browser's CompressionStream.
+ */
+async function compressGzip(buffer: ArrayBuffer): Promise<ArrayBuffer> {
+  const stream = new Response(buffer).body!.pipeThrough(
+    new CompressionStream('gzip'),
+  );
+  const blob = await new Response(stream).blob();
+  return blob.arrayBuffer();
+}
+
+function toUint8(x: number): number {
+  return Math.round(Math.max(0, Math.min(255, x)));
+}
+
+/** Quantize SH coefficient to x * 128 + 128, snapped to the band's bucket size. */
+function quantizeSH(x: number, bucketSize: number): number {
+  let q = Math.round(x * 128) + 128;
+  q = Math.floor((q + bucketSize / 2) / bucketSize) * bucketSize;
+  return Math.max(0, Math.min(255, q));
+}
+
+/** Pack smallest-three quaternion (v3). Components in C++ GaussianCloud order (x, y, z, w). */
+function packQuaternionSmallestThree(
+  out: Uint8Array, offset: number, x: number, y: number, z: number, w: number,
+): void {
+  const len = Math.hypot(x, y, z, w) || 1;
+  const q = [x / len, y / len, z / len, w / len];
+  let iLargest = 0;
+  for (let i = 1; i < 4; i++) {
+    if (Math.abs(q[i]) > Math.abs(q[iLargest])) iLargest = i;
+  }
+  // The decoder reconstructs the largest component as positive
+  const negate = q[iLargest] < 0;
+  const cMask = (1 << 9) - 1;
+
+  let comp = iLargest;
+  for (let i = 0; i < 4; i++) {
+    if (i === iLargest) continue;
+    const negbit = (q[i] < 0) !== negate ? 1 : 0;
+    const mag = Math.min(cMask, Math.floor(cMask * (Math.abs(q[i]) / SQRT1_2) + 0.5));
+    comp = (comp << 10) | (negbit << 9) | mag;
+  }
+
+  out[offset] = comp & 0xff;
+  out[offset + 1] = (comp >>> 8) & 0xff;
+  out[offset + 2] = (comp >>> 16) & 0xff;
+  out[offset + 3] = (comp >>> 24) & 0xff;
+}
+
+/** Pack first-three quaternion (v2): x, y, z as unsigned bytes, w implied non-negative. */
+function packQuaternionFirstThree(
+  out: Uint8Array, offset: number, x: number, y: number, z: number, w: number,
+): void {
+  const len = Math.hypot(x, y, z, w) || 1;
+  const sign = w < 0 ? -1 : 1;
+  out[offset] = toUint8((sign * x / len + 1) * 127.5);
+  out[offset + 1] = toUint8((sign * y / len + 1) * 127.5);
+  out[offset + 2] = toUint8((sign * z / len + 1) * 127.5);
+}
@@ -0,0 +1,108 @@
+import type { PlyProperty, SplatAttributeArray, SplatData } from '../types';
+import { encodePlyHeader } from './ply-header';
+import { shStrideForDegree, splatShDegree } from '../splat-data';
+
+const SH_C0 = 0.28209479177387814;
+// Keep logit(opacity) and log(scale) finite for fully opaque / degenerate splats
+const OPACITY_EPS = 1e-7;
+const MIN_SCALE = 1e-30;
+const NORMAL_NAMES = ['nx', 'ny', 'nz'];
+
+/** PLY type and DataView writer for each extras array type. */
+const EXTRA_TYPES: { ctor: new (n: number) => SplatAttributeArray; type: string; byteSize: number; set: (v: DataView, o: number, x: number) => void }[] = [
+  { ctor: Float32Array, type: 'float', byteSize: 4, set: (v, o, x) => v.setFloat32(o, x, true) },
+  { ctor: Float64Array, type: 'double', byteSize: 8, set: (v, o, x) => v.setFloat64(o, x, true) },
+  { ctor: Int8Array, type: 'char', byteSize: 1, set: (v, o, x) => v.setInt8(o, x) },
+  { ctor: Uint8Array, type: 'uchar', byteSize: 1, set: (v, o, x) => v.setUint8(o, x) },
+  { ctor: Int16Array, type: 'short', byteSize: 2, set: (v, o, x) => v.setInt16(o, x, true) },
+  { ctor: Uint16Array, type: 'ushort', byteSize: 2, set: (v, o, x) => v.setUint16(o, x, true) },
+  { ctor: Int32Array, type: 'int', byteSize: 4, set: (v, o, x) => v.setInt32(o, x, true) },
+  { ctor: Uint32Array, type: 'uint', byteSize: 4, set: (v, o, x) => v.setUint32(o, x, true) },
+];
+
+/**
+ * Write SplatData as a standard (reference 3DGS layout) binary_little_endian PLY.
+ * Inverts the transforms applied by loadStandardPly:
+ *   color   → f_dc = (c - 0.5) / SH_C0
+ *   opacity → logit
+ *   scale   → log
+ * Properties: x, y, z, nx, ny, nz, f_dc_0..2, f_rest_* (3 × coefficients per channel of
+ * data.shDegree), opacity, scale_0..2, rot_0..3, then every single-component extra in its own type.
+ * Normals come from extras nx / ny / nz when present, else 0.
+ */
+export function saveStandardPly(data: SplatData): ArrayBuffer {
+  const count = data.count;
+  const shStride = shStrideForDegree(splatShDegree(data));
+
+  const names: string[] = ['x', 'y', 'z', 'nx', 'ny', 'nz', 'f_dc_0', 'f_dc_1', 'f_dc_2'];
+  for (let k = 0; k < shStride; k++) names.push(`f_rest_${k}`);
+  names.push('opacity', 'scale_0', 'scale_1', 'scale_2', 'rot_0', 'rot_1', 'rot_2', 'rot_3');
+  const floatsPerSplat = names.length;
+
+  // Extras with one value per splat round-trip as extra properties; others are not expressible
+  const normals = NORMAL_NAMES.map((name) => data.extras?.[name]);
+  const extras = Object.entries(data.extras ?? {}).flatMap(([name, values]) => {
+    const kind = EXTRA_TYPES.find((t) => values instanceof t.ctor);
+    return !kind || NORMAL_NAMES.includes(name) || values.length !== count ? [] : [{ name, values, ...kind }];
+  });
+
+  const properties: PlyProperty[] = [
+    ...names.map((name) => ({ name, type: 'float', byteSize: 4 })),
+    ...extras.map(({ name, type, byteSize }) => ({ name, type, byteSize })),
+  ];
+  const header = encodePlyHeader(
+    [{ name: 'vertex', count, properties }],
+    ['Generated by zsplat'],
+  );
+
+  const stride = floatsPerSplat * 4 + extras.reduce((n, e) => n + e.byteSize, 0);
+  const out = new ArrayBuffer(header.byteLength + count * stride);
+  new Uint8Array(out).set(header, 0);
+  const view = new DataView(out, header.byteLength);
+
+  let offset = 0;
+  const put = (v: number) => {
+    view.setFloat32(offset, v, true);
+    offset += 4;
+  };
+
+  for (let i = 0; i < count; i++) {
+    // Position
+    put(data.positions[i * 3]);
+    put(data.positions[i * 3 + 1]);
+    put(data.positions[i * 3 + 2]);
+
+    // Normals (unused by splat renderers, kept for reference-layout compatibility)
+    for (const n of normals) put(n ? n[i] : 0);
+
+    // Color: linear color → SH DC coefficient
+    put((data.colors[i * 4] - 0.5) / SH_C0);
+    put((data.colors[i * 4 + 1] - 0.5) / SH_C0);
+    put((data.colors[i * 4 + 2] - 0.5) / SH_C0);
+
+    // SH rest coefficients: same [R0..Rn-1, G0..Gn-1, B0..Bn-1] layout as SplatData
+    for (let k = 0; k < shStride; k++) put(data.shCoeffs![i * shStride + k]);
+
+    // Opacity: sigmoid → logit
+    const a = Math.max(OPACITY_EPS, Math.min(1 - OPACITY_EPS, data.colors[i * 4 + 3]));
+    put(Math.log(a / (1 - a)));
+
+    // Scale: linear → log
+    put(Math.log(Math.max(MIN_SCALE, data.scales[i * 3])));
+    put(Math.log(Math.max(MIN_SCALE, data.scales[i * 3 + 1])));
+    put(Math.log(Math.max(MIN_SCALE, data.scales[i * 3 + 2])));
+
+    // Rotation: (w, x, y, z) → rot_0..3
+    put(data.rotations[i * 4]);
+    put(data.rotations[i * 4 + 1]);
+    put(data.rotations[i * 4 + 2]);
+    put(data.rotations[i * 4 + 3]);
+
+    for (const extra of extras) {
+      extra.set(view, offset, extra.values[i]);
+      offset += extra.byteSize;
+    }
+  }
+
+  return out;
+}
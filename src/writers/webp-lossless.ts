@@ -0,0 +1,231 @@
+// Code lengths of the code-length code are sent in this order (VP8L spec 3.7.2.1.2)
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+const MAX_CODE_LENGTH = 15;
+const MAX_CODE_LENGTH_CODE_LENGTH = 7;
+const MAX_DIMENSION = 1 << 14;
+// Green alphabet: 256 literals + 24 length prefixes (no color cache)
+const GREEN_ALPHABET = 256 + 24;
+const DISTANCE_ALPHABET = 40;
+
+/**
+ * Encode RGBA pixels as a lossless WebP (VP8L) file.
+ * Every pixel round-trips exactly, alpha included (nothing is premultiplied): SOG textures
+ * store data, not colors, in all four channels. Pixels are entropy coded per channel with
+ * Huffman codes built from the image; no transforms or backward references are used.
+ */
+export function encodeLosslessWebp(rgba: Uint8Array, width: number, height: number): Uint8Array<ArrayBuffer> {
+  if (width < 1 || height < 1 || width > MAX_DIMENSION || height > MAX_DIMENSION) {
+    throw new Error(`WebP: invalid size ${width}x${height} (1 to ${MAX_DIMENSION} per side)`);
+  }
+  const pixels = width * height;
+  if (rgba.length < pixels * 4) throw new Error('WebP: pixel buffer too small');
+
+  // Histograms in VP8L's literal order: green, red, blue, alpha
+  const histograms = [new Uint32Array(GREEN_ALPHABET), new Uint32Array(256), new Uint32Array(256), new Uint32Array(256)];
+  let alphaUsed = false;
+  for (let i = 0; i < pixels; i++) {
+    histograms[0][rgba[i * 4 + 1]]++;
+    histograms[1][rgba[i * 4]]++;
+    histograms[2][rgba[i * 4 + 2]]++;
+    histograms[3][rgba[i * 4 + 3]]++;
+    if (rgba[i * 4 + 3] !== 255) alphaUsed = true;
+  }
+
+  const w = new BitWriter();
+  w.write(0x2f, 8); // signature
+  w.write(width - 1, 14);
+  w.write(height - 1, 14);
+  w.write(alphaUsed ? 1 : 0, 1);
+  w.write(0, 3); // version
+  w.write(0, 1); // no transforms
+  w.write(0, 1); // no color cache
+  w.write(0, 1); // no meta prefix codes
+
+  const codes = histograms.map((histogram) => writePrefixCode(w, histogram));
+  writePrefixCode(w, new Uint32Array(DISTANCE_ALPHABET)); // unused: no backward references
+
+  const channelOrder = [1, 0, 2, 3];
+  for (let i = 0; i < pixels; i++) {
+    for (let c = 0; c < 4; c++) {
+      const symbol = rgba[i * 4 + channelOrder[c]];
+      w.write(codes[c].codes[symbol], codes[c].lengths[symbol]);
+    }
+  }
+
+  const vp8l = w.finish();
+  const padded = vp8l.length + (vp8l.length & 1);
+  const out = new Uint8Array(20 + padded);
+  const view = new DataView(out.buffer);
+  out.set([0x52, 0x49, 0x46, 0x46], 0); // "RIFF"
+  view.setUint32(4, 12 + padded, true);
+  out.set([0x57, 0x45, 0x42, 0x50, 0x56, 0x50, 0x38, 0x4c], 8); // "WEBPVP8L"
+  view.setUint32(16, vp8l.length, true);
+  out.set(vp8l, 20);
+  return out;
+}
+
+// ---- internal helpers ----
+
+/** LSB-first bit packer. */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private acc = 0;
+  private bits = 0;
+
+  /** Append the low `n` bits of `value` (n <= 24). */
+  write(value: number, n: number): void {
+    this.acc |= value << this.bits;
+    this.bits += n;
+    while (this.bits >= 8) {
+      if (this.length === this.bytes.length) {
+        const next = new Uint8Array(this.bytes.length * 2);
+        next.set(this.bytes);
+        this.bytes = next;
+      }
+      this.bytes[this.length++] = this.acc & 0xff;
+      this.acc >>>= 8;
+      this.bits -= 8;
+    }
+  }
+
+  finish(): Uint8Array {
+    if (this.bits > 0) this.write(0, 8 - this.bits);
+    return this.bytes.subarray(0, this.length);
+  }
+}
+
+/** Emitted bits (already reversed for the LSB-first stream) and lengths per symbol. */
+interface PrefixCode {
+  codes: Uint32Array;
+  lengths: Uint8Array;
+}
+
+/** Write the prefix code for `histogram` and return it for coding symbols. */
+function writePrefixCode(w: BitWriter, histogram: Uint32Array): PrefixCode {
+  const used: number[] = [];
+  for (let s = 0; s < histogram.length && used.length <= 2; s++) {
+    if (histogram[s] > 0) used.push(s);
+  }
+  if (used.length <= 2 && used.every((s) => s < 256)) {
+    // Simple code: one symbol costs no bits, two cost one bit each
+    if (used.length === 0) used.push(0);
+    const lengths = new Uint8Array(histogram.length);
+    const codes = new Uint32Array(histogram.length);
+    w.write(1, 1);
+    w.write(used.length - 1, 1);
+    const first8 = used[0] > 1;
+    w.write(first8 ? 1 : 0, 1);
+    w.write(used[0], first8 ? 8 : 1);
+    if (used.length === 2) {
+      w.write(used[1], 8);
+      lengths[used[0]] = lengths[used[1]] = 1;
+      codes[used[1]] = 1;
+    }
+    return { codes, lengths };
+  }
+
+  const lengths = huffmanLengths(histogram, MAX_CODE_LENGTH);
+  w.write(0, 1);
+  writeCodeLengths(w, lengths);
+  return canonicalCodes(lengths);
+}
+
+/** Code lengths with the code-length code (literal lengths and zero runs; VP8L spec 3.7.2.1.2). */
+function writeCodeLengths(w: BitWriter, lengths: Uint8Array): void {
+  const tokens: [symbol: number, extra: number, extraBits: number][] = [];
+  for (let i = 0; i < lengths.length;) {
+    if (lengths[i] !== 0) {
+      tokens.push([lengths[i++], 0, 0]);
+      continue;
+    }
+    let run = 0;
+    while (i + run < lengths.length && lengths[i + run] === 0 && run < 138) run++;
+    if (run >= 11) tokens.push([18, run - 11, 7]);
+    else if (run >= 3) tokens.push([17, run - 3, 3]);
+    else for (let k = 0; k < run; k++) tokens.push([0, 0, 0]);
+    i += run;
+  }
+
+  const histogram = new Uint32Array(19);
+  for (const [symbol] of tokens) histogram[symbol]++;
+  const codeLengthLengths = huffmanLengths(histogram, MAX_CODE_LENGTH_CODE_LENGTH);
+  let count = CODE_LENGTH_ORDER.length;
+  while (count > 4 && codeLengthLengths[CODE_LENGTH_ORDER[count - 1]] === 0) count--;
+  w.write(count - 4, 4);
+  for (let k = 0; k < count; k++) w.write(codeLengthLengths[CODE_LENGTH_ORDER[k]], 3);
+  w.write(0, 1); // max_symbol = alphabet size
+
+  const code = canonicalCodes(codeLengthLengths);
+  for (const [symbol, extra, extraBits] of tokens) {
+    w.write(code.codes[symbol], code.lengths[symbol]);
+    if (extraBits) w.write(extra, extraBits);
+  }
+}
+
+/**
+ * Huffman code lengths limited to `maxLength`. Counts are flattened until the tree fits,
+ * which converges on a balanced tree. A single used symbol gets length 1.
+ */
+function huffmanLengths(histogram: Uint32Array, maxLength: number): Uint8Array {
+  const n = histogram.length;
+  const lengths = new Uint8Array(n);
+  let counts = Array.from(histogram);
+  const used = counts.flatMap((c, s) => (c > 0 ? [s] : []));
+  if (used.length === 1) {
+    lengths[used[0]] = 1;
+    return lengths;
+  }
+
+  for (;;) {
+    // Nodes: leaves first, then internal nodes; repeatedly merge the two lightest
+    type Node = { weight: number; symbol: number; left?: Node; right?: Node };
+    let queue: Node[] = used.map((s) => ({ weight: counts[s], symbol: s }));
+    while (queue.length > 1) {
+      queue.sort((a, b) => a.weight - b.weight || a.symbol - b.symbol);
+      const [left, right] = queue;
+      queue = [{ weight: left.weight + right.weight, symbol: Math.min(left.symbol, right.symbol), left, right }, ...queue.slice(2)];
+    }
+    let deepest = 0;
+    const assign = (node: Node, depth: number) => {
+      if (!node.left) {
+        lengths[node.symbol] = depth;
+        deepest = Math.max(deepest, depth);
+        return;
+      }
+      assign(node.left, depth + 1);
+      assign(node.right!, depth + 1);
+    };
+    assign(queue[0], 0);
+    if (deepest <= maxLength) return lengths;
+    counts = counts.map((c) => (c > 0 ? (c >> 1) | 1 : 0));
+  }
+}
+
+/** Canonical codes for `lengths`, bit-reversed for writing LSB-first. A lone symbol takes no bits. */
+function canonicalCodes(lengths: Uint8Array): PrefixCode {
+  const codes = new Uint32Array(lengths.length);
+  let used = 0;
+  for (const l of lengths) if (l > 0) used++;
+  if (used === 1) return { codes, lengths: new Uint8Array(lengths.length) };
+
+  const lengthCounts = new Uint32Array(MAX_CODE_LENGTH + 1);
+  for (const l of lengths) if (l > 0) lengthCounts[l]++;
+  const next = new Uint32Array(MAX_CODE_LENGTH + 2);
+  for (let l = 1, code = 0; l <= MAX_CODE_LENGTH; l++) {
+    code = (code + lengthCounts[l - 1]) << 1;
+    next[l] = code;
+  }
+  for (let s = 0; s < lengths.length; s++) {
+    const l = lengths[s];
+    if (l === 0) continue;
+    let code = next[l]++;
+    let reversed = 0;
+    for (let b = 0; b < l; b++) {
+      reversed = (reversed << 1) | (code & 1);
+      code >>= 1;
+    }
+    codes[s] = reversed;
+  }
+  return { codes, lengths };
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import type { CoordinateSystem } from '../src/types';
+import { Camera, coordinateSystemUp } from '../src/core/Camera';
+
+type Vec3 = [number, number, number];
+type Listener = (e: object) => void;
+
+// Each convention's forward axis: with the camera looking along it, +X points right on screen
+const FORWARD: Record<CoordinateSystem, Vec3> = {
+  opencv: [0, 0, 1],
+  opengl: [0, 0, -1],
+  'z-up': [0, 1, 0],
+};
+
+/** A camera 5 units behind the origin along `system`'s forward axis, attached to a stand-in canvas. */
+function setup(system: CoordinateSystem) {
+  const forward = FORWARD[system];
+  const camera = new Camera({ position: [forward[0] * -5, forward[1] * -5, forward[2] * -5], up: coordinateSystemUp(system) });
+  const listeners = new Map<string, Listener>();
+  const canvas = {
+    style: {},
+    setPointerCapture() {},
+    addEventListener: (type: string, listener: Listener) => listeners.set(type, listener),
+    removeEventListener() {},
+  };
+  camera.attach(canvas as unknown as HTMLCanvasElement);
+  camera.update();
+  const emit = (type: string, event: object) => listeners.get(type)!(event);
+  return { camera, emit, up: coordinateSystemUp(system) };
+}
+
+/** Normalized device coordinates of world point `p`. */
+function project(camera: Camera, p: Vec3): [number, number] {
+  const m = camera.viewProjMatrix;
+  const x = m[0] * p[0] + m[4] * p[1] + m[8] * p[2] + m[12];
+  const y = m[1] * p[0] + m[5] * p[1] + m[9] * p[2] + m[13];
+  const w = m[3] * p[0] + m[7] * p[1] + m[11] * p[2] + m[15];
+  return [x / w, y / w];
+}
+
+/** Let the damped motion run out. */
+function settle(camera: Camera): void {
+  for (let i = 0; i < 200; i++) camera.update();
+}
+
+function drag(emit: (type: string, event: object) => void, dx: number, dy: number, buttons: number, shiftKey = false): void {
+  emit('pointerdown', { pointerId: 1, clientX: 100, clientY: 100 });
+  emit('pointermove', { pointerId: 1, clientX: 100 + dx, clientY: 100 + dy, buttons, shiftKey });
+  emit('pointerup', { pointerId: 1 });
+}
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+describe.each(['opencv', 'opengl', 'z-up'] as const)('Camera with %s axes', (system) => {
+  it('shows +X to the right and the up axis up, unmirrored', () => {
+    // For opencv, the image of the original camera (+Y up in lookAt, x and y negated in projection)
+    const { camera, up } = setup(system);
+    const [rx, ry] = project(camera, [1, 0, 0]);
+    expect(rx).toBeGreaterThan(0);
+    expect(ry).toBeCloseTo(0, 6);
+    const [ux, uy] = project(camera, up);
+    expect(ux).toBeCloseTo(0, 6);
+    expect(uy).toBeGreaterThan(0);
+  });
+
+  it('orbits toward screen left when dragged right and rises when dragged down', () => {
+    const { camera, emit, up } = setup(system);
+    const start: Vec3 = [...camera.position];
+    drag(emit, 40, 0, 1);
+    settle(camera);
+    const moved = sub(camera.position, start);
+    expect(moved[0]).toBeLessThan(-0.1);
+    expect(Math.abs(dot(moved, up))).toBeLessThan(1e-6);
+    // The target stays put, in the middle of the screen
+    expect(project(camera, [0, 0, 0])).toEqual([expect.closeTo(0, 6), expect.closeTo(0, 6)]);
+
+    const before: Vec3 = [...camera.position];
+    drag(emit, 0, 40, 1);
+    settle(camera);
+    expect(dot(sub(camera.position, before), up)).toBeGreaterThan(0.1);
+  });
+
+  it('pans so the scene follows the pointer', () => {
+    const { camera, emit } = setup(system);
+    drag(emit, 40, 0, 2);
+    settle(camera);
+    const [x, y] = project(camera, [0, 0, 0]);
+    expect(x).toBeGreaterThan(0.01);
+    expect(y).toBeCloseTo(0, 6);
+
+    drag(emit, 0, 40, 1, true);
+    settle(camera);
+    expect(project(camera, [0, 0, 0])[1]).toBeLessThan(-0.01);
+  });
+
+  it('looks the way the pointer is dragged in fly mode', () => {
+    const { camera, emit } = setup(system);
+    camera.setControlMode('fly');
+    const start: Vec3 = [...camera.position];
+    drag(emit, 40, 0, 1);
+    settle(camera);
+    expect(camera.position).toEqual(start.map((v) => expect.closeTo(v, 5)));
+    expect(project(camera, [0, 0, 0])[0]).toBeLessThan(-0.01);
+
+    drag(emit, 0, 40, 1);
+    settle(camera);
+    expect(project(camera, [0, 0, 0])[1]).toBeGreaterThan(0.01);
+  });
+
+  it.each([
+    ['d', 'right'],
+    ['a', 'left'],
+    ['e', 'up'],
+    ['q', 'down'],
+    ['w', 'forward'],
+    ['s', 'back'],
+  ] as const)('moves the camera %s = %s', (key, direction) => {
+    const { camera, emit } = setup(system);
+    emit('keydown', { key });
+    for (let i = 0; i < 10; i++) camera.update();
+    emit('keyup', { key });
+    settle(camera);
+    // Where the origin, straight ahead before, appears now
+    const [x, y] = project(camera, [0, 0, 0]);
+    const distance = Math.hypot(...camera.position);
+    switch (direction) {
+      case 'right': expect(x).toBeLessThan(-0.01); break;
+      case 'left': expect(x).toBeGreaterThan(0.01); break;
+      case 'up': expect(y).toBeLessThan(-0.01); break;
+      case 'down': expect(y).toBeGreaterThan(0.01); break;
+      case 'forward': expect(distance).toBeLessThan(4.9); break;
+      case 'back': expect(distance).toBeGreaterThan(5.1); break;
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { SplatData } from '../src/types';
+import { parsePlyHeader, isCompressedPly } from '../src/loaders/ply-parser';
+import { loadCompressedPly, loadCompressedPlyPacked } from '../src/loaders/compressed-ply-loader';
+import { saveCompressedPly } from '../src/writers/compressed-ply-writer';
+import { shStrideForDegree } from '../src/splat-data';
+import { expectClose, maxRotationAngle, maxRelativeError, syntheticSplats } from './helpers';
+
+/** `loaded` reordered to match `data` (the writer sorts splats along a Morton curve). */
+function matchOrder(loaded: SplatData, data: SplatData): SplatData {
+  const stride = shStrideForDegree(loaded.shDegree);
+  const out: SplatData = {
+    ...loaded,
+    positions: new Float32Array(data.count * 3),
+    rotations: new Float32Array(data.count * 4),
+    scales: new Float32Array(data.count * 3),
+    colors: new Float32Array(data.count * 4),
+    shCoeffs: loaded.shCoeffs && new Float32Array(data.count * stride),
+  };
+  const taken = new Uint8Array(loaded.count);
+  for (let i = 0; i < data.count; i++) {
+    let best = -1;
+    let bestDist = Infinity;
+    for (let j = 0; j < loaded.count; j++) {
+      if (taken[j]) continue;
+      const d = Math.hypot(
+        loaded.positions[j * 3] - data.positions[i * 3],
+        loaded.positions[j * 3 + 1] - data.positions[i * 3 + 1],
+        loaded.positions[j * 3 + 2] - data.positions[i * 3 + 2],
+      );
+      if (d < bestDist) { bestDist = d; best = j; }
+    }
+    taken[best] = 1;
+    out.positions.set(loaded.positions.subarray(best * 3, best * 3 + 3), i * 3);
+    out.rotations.set(loaded.rotations.subarray(best * 4, best * 4 + 4), i * 4);
+    out.scales.set(loaded.scales.subarray(best * 3, best * 3 + 3), i * 3);
+    out.colors.set(loaded.colors.subarray(best * 4, best * 4 + 4), i * 4);
+    out.shCoeffs?.set(loaded.shCoeffs!.subarray(best * stride, (best + 1) * stride), i * stride);
+  }
+  return out;
+}
+
+describe('compressed PLY', () => {
+  it('round-trips within the quantization of each packed field', () => {
+    const data = syntheticSplats(700, 3);
+    const buffer = saveCompressedPly(data);
+    const ply = parsePlyHeader(buffer);
+    expect(isCompressedPly(ply)).toBe(true);
+    const loaded = matchOrder(loadCompressedPly(buffer, ply), data);
+
+    expect(loaded.count).toBe(data.count);
+    expect(loaded.shDegree).toBe(3);
+    // 11/10/11 bits across a chunk's extent (at most the 10-unit scene)
+    expectClose(loaded.positions, data.positions, 10 / 1023);
+    // Smallest three at 10 bits each (radians)
+    expect(maxRotationAngle(loaded.rotations, data.rotations)).toBeLessThan(0.005);
+    // log-scale at 10+ bits across a chunk's range (at most 4)
+    expect(maxRelativeError(loaded.scales, data.scales)).toBeLessThan(0.005);
+    // 8 bits against the chunk color bounds; alpha direct
+    expectClose(loaded.colors, data.colors, 1 / 255 + 1e-6);
+    // 8 bits across [-4, 4]
+    expectClose(loaded.shCoeffs!, data.shCoeffs!, 8 / 255 + 1e-6);
+  });
+
+  it('decodes to the same positions through the packed path', () => {
+    const data = syntheticSplats(300, 0);
+    const buffer = saveCompressedPly(data);
+    const ply = parsePlyHeader(buffer);
+    const packed = loadCompressedPlyPacked(buffer, ply);
+    const decoded = loadCompressedPly(buffer, ply);
+    expect(packed.count).toBe(decoded.count);
+    expectClose(packed.positions, decoded.positions, 0);
+  });
+});
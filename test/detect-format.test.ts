@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { detectStreamingFormat, probeStreamingSource } from '../src/loaders/detect-format';
+import { loadPackedCompressedPly, loadSplat } from '../src/loaders/load-splat';
+import { loadPlyStream } from '../src/loaders/ply-stream-loader';
+import { saveDotSplat } from '../src/writers/dot-splat-writer';
+import { saveStandardPly } from '../src/writers/standard-ply-writer';
+import { saveCompressedPly } from '../src/writers/compressed-ply-writer';
+import { syntheticSplats } from './helpers';
+
+describe('detectStreamingFormat', () => {
+  it('picks the streaming loader from content, not the file name', async () => {
+    const ply = new File([saveStandardPly(syntheticSplats(4, 0))], 'download');
+    expect(await detectStreamingFormat(ply)).toBe('ply');
+
+    const rad = new File([new Uint8Array([0x52, 0x41, 0x44, 0x30, 0, 0, 0, 0])], 'scene.ply');
+    expect(await detectStreamingFormat(rad)).toBe('rad');
+
+    const spz = new File([new Uint8Array([0x1f, 0x8b, 8, 0])], 'scene.ply');
+    expect(await detectStreamingFormat(spz)).toBe(null);
+  });
+
+  it('tells compressed PLY apart, for loading it packed', async () => {
+    const compressed = new File([saveCompressedPly(syntheticSplats(300, 1))], 'scene.splat');
+    expect(await detectStreamingFormat(compressed)).toBe('compressed-ply');
+    const packed = await loadPackedCompressedPly(compressed);
+    expect(packed.count).toBe(300);
+    expect(packed.shDegree).toBe(1);
+  });
+});
+
+describe('probeStreamingSource', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  /** Serve `buffer` from fetch in 1000-byte pieces, counting requests. */
+  function serve(buffer: ArrayBuffer): { requests: number } {
+    const counter = { requests: 0 };
+    vi.stubGlobal('fetch', async () => {
+      counter.requests++;
+      const bytes = new Uint8Array(buffer);
+      let at = 0;
+      return new Response(new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (at >= bytes.length) return controller.close();
+          controller.enqueue(bytes.slice(at, at += 1000));
+        },
+      }), { headers: { 'Content-Length': String(bytes.length) } });
+    });
+    return counter;
+  }
+
+  it('hands a format that does not stream on to loadSplat without refetching', async () => {
+    const data = syntheticSplats(500, 0);
+    const counter = serve(saveDotSplat(data));
+
+    const { format, response } = await probeStreamingSource('/scene.splat');
+    expect(format).toBe(null);
+    const loaded = await loadSplat('/scene.splat', { response: response! });
+    expect(loaded.count).toBe(500);
+    expect(counter.requests).toBe(1);
+  });
+
+  it('replays the sniffed PLY header into loadPlyStream', async () => {
+    const buffer = saveStandardPly(syntheticSplats(300, 1));
+    const counter = serve(buffer);
+
+    const { format, response } = await probeStreamingSource('/scene');
+    expect(format).toBe('ply');
+    const streamed = await loadPlyStream('/scene', { response: response!, onBatch: () => {} });
+    expect(streamed.count).toBe(300);
+    expect(counter.requests).toBe(1);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { loadDotSplat } from '../src/loaders/dot-splat-loader';
+import { saveDotSplat } from '../src/writers/dot-splat-writer';
+import { expectClose, maxRotationAngle, syntheticSplats } from './helpers';
+
+describe('.splat', () => {
+  it('round-trips within 8-bit color and rotation precision, keeping splat order', () => {
+    const data = syntheticSplats(400, 0);
+    const loaded = loadDotSplat(saveDotSplat(data));
+
+    expect(loaded.count).toBe(data.count);
+    expectClose(loaded.positions, data.positions, 0);
+    expectClose(loaded.scales, data.scales, 0);
+    expectClose(loaded.colors, data.colors, 0.5 / 255 + 1e-6);
+    // Components are stored as q * 128 + 128
+    expect(maxRotationAngle(loaded.rotations, data.rotations)).toBeLessThan(0.03);
+  });
+
+  it('drops SH bands 1-3', () => {
+    const loaded = loadDotSplat(saveDotSplat(syntheticSplats(10, 3)));
+    expect(loaded.shDegree).toBe(0);
+    expect(loaded.shCoeffs).toBeUndefined();
+  });
+});
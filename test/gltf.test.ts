@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import type { SplatData } from '../src/types';
+import { isGltfData, loadGltfSplats } from '../src/loaders/gltf-loader';
+import { saveStandardPly } from '../src/writers/standard-ply-writer';
+import { expectClose, maxRotationAngle, syntheticSplats } from './helpers';
+
+const SH_C0 = 0.28209479177387814;
+const FLOAT = 5126;
+const SHORT = 5122;
+const UNSIGNED_BYTE = 5121;
+const EXT = 'KHR_gaussian_splatting';
+
+/**
+ * A degree-1 splat asset exercising the accessor layouts the loader must honour:
+ * POSITION and SCALE interleaved in one padded view (byteStride 28), ROTATION as
+ * normalized SHORT, OPACITY as normalized UNSIGNED_BYTE, SH in one view at offsets.
+ */
+function buildAsset(data: SplatData): { json: Record<string, unknown>; bin: Uint8Array } {
+  const n = data.count;
+  const interleavedBytes = n * 28;
+  const rotationStart = interleavedBytes;
+  const opacityStart = rotationStart + n * 8;
+  const shStart = opacityStart + ((n + 3) & ~3);
+  const bin = new Uint8Array(shStart + 4 * n * 12);
+  const view = new DataView(bin.buffer);
+
+  for (let i = 0; i < n; i++) {
+    for (let k = 0; k < 3; k++) {
+      view.setFloat32(i * 28 + k * 4, data.positions[i * 3 + k], true);
+      view.setFloat32(i * 28 + 12 + k * 4, data.scales[i * 3 + k], true);
+      // (w, x, y, z) → glTF (x, y, z, w)
+      view.setInt16(rotationStart + i * 8 + k * 2, Math.round(data.rotations[i * 4 + 1 + k] * 32767), true);
+      const dc = (data.colors[i * 4 + k] - 0.5) / SH_C0;
+      view.setFloat32(shStart + (i * 3 + k) * 4, dc, true);
+      for (let coef = 0; coef < 3; coef++) {
+        view.setFloat32(shStart + ((coef + 1) * n + i) * 12 + k * 4, data.shCoeffs![i * 9 + k * 3 + coef], true);
+      }
+    }
+    view.setInt16(rotationStart + i * 8 + 6, Math.round(data.rotations[i * 4] * 32767), true);
+    bin[opacityStart + i] = Math.round(data.colors[i * 4 + 3] * 255);
+  }
+
+  const sh = (coef: number) => ({ bufferView: 3, byteOffset: coef * n * 12, componentType: FLOAT, count: n, type: 'VEC3' });
+  const json = {
+    asset: { version: '2.0' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0 }],
+    meshes: [{
+      primitives: [{
+        mode: 0,
+        extensions: { [EXT]: {} },
+        attributes: {
+          POSITION: 0,
+          [`${EXT}:SCALE`]: 1,
+          [`${EXT}:ROTATION`]: 2,
+          [`${EXT}:OPACITY`]: 3,
+          [`${EXT}:SH_DEGREE_0_COEF_0`]: 4,
+          [`${EXT}:SH_DEGREE_1_COEF_0`]: 5,
+          [`${EXT}:SH_DEGREE_1_COEF_1`]: 6,
+          [`${EXT}:SH_DEGREE_1_COEF_2`]: 7,
+        },
+      }],
+    }],
+    accessors: [
+      { bufferView: 0, componentType: FLOAT, count: n, type: 'VEC3' },
+      { bufferView: 0, byteOffset: 12, componentType: FLOAT, count: n, type: 'VEC3' },
+      { bufferView: 1, componentType: SHORT, normalized: true, count: n, type: 'VEC4' },
+      { bufferView: 2, componentType: UNSIGNED_BYTE, normalized: true, count: n, type: 'SCALAR' },
+      sh(0), sh(1), sh(2), sh(3),
+    ],
+    bufferViews: [
+      { buffer: 0, byteOffset: 0, byteLength: interleavedBytes, byteStride: 28 },
+      { buffer: 0, byteOffset: rotationStart, byteLength: n * 8 },
+      { buffer: 0, byteOffset: opacityStart, byteLength: n },
+      { buffer: 0, byteOffset: shStart, byteLength: 4 * n * 12 },
+    ],
+    buffers: [{ byteLength: bin.length }],
+  };
+  return { json, bin };
+}
+
+/** .gltf text with the buffer embedded as a base64 data URI. */
+function gltfWithDataUri({ json, bin }: ReturnType<typeof buildAsset>): ArrayBuffer {
+  const base64 = btoa(String.fromCharCode(...bin));
+  const embedded = { ...json, buffers: [{ byteLength: bin.length, uri: `data:application/octet-stream;base64,${base64}` }] };
+  return new TextEncoder().encode(JSON.stringify(embedded)).buffer as ArrayBuffer;
+}
+
+/** .glb: 12-byte header, space-padded JSON chunk, zero-padded BIN chunk. */
+function glb({ json, bin }: ReturnType<typeof buildAsset>): ArrayBuffer {
+  const text = new TextEncoder().encode(JSON.stringify(json));
+  const jsonLength = (text.length + 3) & ~3;
+  const binLength = (bin.length + 3) & ~3;
+  const out = new Uint8Array(12 + 8 + jsonLength + 8 + binLength);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, 0x46546c67, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, out.length, true);
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, 0x4e4f534a, true);
+  out.fill(0x20, 20, 20 + jsonLength);
+  out.set(text, 20);
+  view.setUint32(20 + jsonLength, binLength, true);
+  view.setUint32(24 + jsonLength, 0x004e4942, true);
+  out.set(bin, 28 + jsonLength);
+  return out.buffer;
+}
+
+function expectSplats(loaded: SplatData, data: SplatData): void {
+  expect(loaded.count).toBe(data.count);
+  expect(loaded.shDegree).toBe(1);
+  expect(loaded.positions).toEqual(data.positions);
+  expect(loaded.scales).toEqual(data.scales);
+  // Normalized SHORT quaternions and UNSIGNED_BYTE opacity
+  expect(maxRotationAngle(loaded.rotations, data.rotations)).toBeLessThan(1e-3);
+  expectClose(loaded.colors, data.colors, 0.5 / 255 + 1e-6);
+  expectClose(loaded.shCoeffs!, data.shCoeffs!, 1e-6);
+}
+
+describe('glTF KHR_gaussian_splatting', () => {
+  const data = syntheticSplats(30, 1);
+
+  it('reads a .gltf with an embedded data URI buffer', async () => {
+    expectSplats(await loadGltfSplats(gltfWithDataUri(buildAsset(data))), data);
+  });
+
+  it('reads the same asset from a .glb container', async () => {
+    expectSplats(await loadGltfSplats(glb(buildAsset(data))), data);
+  });
+
+  it('sniffs binary glTF by its magic only', () => {
+    const asset = buildAsset(data);
+    expect(isGltfData(glb(asset))).toBe(true);
+    expect(isGltfData(gltfWithDataUri(asset))).toBe(false);
+    expect(isGltfData(saveStandardPly(data))).toBe(false);
+    expect(isGltfData(new Uint8Array([0x67, 0x6c, 0x54, 0x46]).buffer)).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { expect, vi } from 'vitest';
+import type { SplatData } from '../src/types';
+import { computeBounds, shStrideForDegree } from '../src/splat-data';
+
+/** Deterministic PRNG (mulberry32) in [0, 1). */
+export function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Random splats shaped like a trained scene: unit quaternions, small scales, SH within [-1, 1]. */
+export function syntheticSplats(count: number, shDegree = 3, seed = 1): SplatData {
+  const rand = random(seed);
+  const positions = Float32Array.from({ length: count * 3 }, () => (rand() * 2 - 1) * 5);
+  const rotations = new Float32Array(count * 4);
+  for (let i = 0; i < count; i++) {
+    const q = [0, 1, 2, 3].map(() => rand() * 2 - 1);
+    const len = Math.hypot(...q);
+    for (let k = 0; k < 4; k++) rotations[i * 4 + k] = q[k] / len;
+  }
+  const scales = Float32Array.from({ length: count * 3 }, () => Math.exp(-5 + 4 * rand()));
+  const colors = Float32Array.from({ length: count * 4 }, (_, i) => (i % 4 === 3 ? 0.05 + 0.9 * rand() : rand()));
+  const shCoeffs = shDegree
+    ? Float32Array.from({ length: count * shStrideForDegree(shDegree) }, () => (rand() * 2 - 1) * 0.5)
+    : undefined;
+  return { count, positions, rotations, scales, colors, shCoeffs, shDegree, bounds: computeBounds(positions) };
+}
+
+/** Every element of `actual` within `tolerance` of `expected`. */
+export function expectClose(actual: ArrayLike<number>, expected: ArrayLike<number>, tolerance: number): void {
+  expect(actual.length).toBe(expected.length);
+  let worst = 0;
+  for (let i = 0; i < expected.length; i++) worst = Math.max(worst, Math.abs(actual[i] - expected[i]));
+  expect(worst).toBeLessThanOrEqual(tolerance);
+}
+
+/** Largest angle (radians) between corresponding rotations; q and -q are the same rotation. */
+export function maxRotationAngle(actual: Float32Array, expected: Float32Array): number {
+  expect(actual.length).toBe(expected.length);
+  let worst = 0;
+  for (let i = 0; i < expected.length; i += 4) {
+    const dot = actual[i] * expected[i] + actual[i + 1] * expected[i + 1] + actual[i + 2] * expected[i + 2] + actual[i + 3] * expected[i + 3];
+    const sign = dot < 0 ? -1 : 1;
+    let diff = 0;
+    let sum = 0;
+    for (let k = 0; k < 4; k++) {
+      diff += (sign * actual[i + k] - expected[i + k]) ** 2;
+      sum += (sign * actual[i + k] + expected[i + k]) ** 2;
+    }
+    // Stable form of 2·acos(|dot|) for unit quaternions
+    worst = Math.max(worst, 4 * Math.atan2(Math.sqrt(diff), Math.sqrt(sum)));
+  }
+  return worst;
+}
+
+/** Largest relative difference between positive values. */
+export function maxRelativeError(actual: ArrayLike<number>, expected: ArrayLike<number>): number {
+  let worst = 0;
+  for (let i = 0; i < expected.length; i++) worst = Math.max(worst, Math.abs(actual[i] / expected[i] - 1));
+  return worst;
+}
+
+/** Raw "image": width and height (u32 LE) then RGBA, decoded by stubImageDecoding. */
+export async function encodeRaw(rgba: Uint8Array, width: number, height: number): Promise<Blob> {
+  const header = new Uint32Array([width, height]);
+  return new Blob([header, rgba.slice()]);
+}
+
+/** createImageBitmap / OffscreenCanvas stand-ins that decode encodeRaw blobs. */
+export function stubImageDecoding(): void {
+  vi.stubGlobal('createImageBitmap', async (blob: Blob) => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const [width, height] = new Uint32Array(bytes.slice(0, 8).buffer);
+    return { width, height, pixels: bytes.slice(8), close: () => {} };
+  });
+  vi.stubGlobal('OffscreenCanvas', class {
+    private pixels = new Uint8ClampedArray(0);
+    getContext() {
+      return {
+        drawImage: (bitmap: { pixels: Uint8Array }) => {
+          this.pixels = new Uint8ClampedArray(bitmap.pixels);
+        },
+        getImageData: () => ({ data: this.pixels }),
+      };
+    }
+  });
+}
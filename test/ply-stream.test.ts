@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SplatData, SplatStreamOptions } from '../src/types';
+import { loadPlyStream } from '../src/loaders/ply-stream-loader';
+import { findEndHeader, parsePlyHeader } from '../src/loaders/ply-parser';
+import { loadStandardPly } from '../src/loaders/standard-ply-loader';
+import { loadCompressedPly } from '../src/loaders/compressed-ply-loader';
+import { saveStandardPly } from '../src/writers/standard-ply-writer';
+import { saveCompressedPly } from '../src/writers/compressed-ply-writer';
+import { shStrideForDegree } from '../src/splat-data';
+import { syntheticSplats } from './helpers';
+
+// Odd sizes so reads split the header and land mid-record
+const CHUNK_SIZES = [17, 101, 333];
+
+/** Serve `buffer` from fetch as a body delivered in CHUNK_SIZES pieces. */
+function serveChunked(buffer: ArrayBuffer): number[] {
+  const bytes = new Uint8Array(buffer);
+  const boundaries: number[] = [];
+  for (let at = 0, i = 0; at < bytes.length; i++) {
+    at = Math.min(bytes.length, at + CHUNK_SIZES[i % CHUNK_SIZES.length]);
+    boundaries.push(at);
+  }
+  vi.stubGlobal('fetch', async () => {
+    let next = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (next === boundaries.length) return controller.close();
+        controller.enqueue(bytes.slice(next ? boundaries[next - 1] : 0, boundaries[next++]));
+      },
+    });
+    return new Response(body);
+  });
+  return boundaries;
+}
+
+/** Stream `buffer` and collect what the callbacks delivered. */
+async function stream(buffer: ArrayBuffer) {
+  const batches: SplatData[] = [];
+  const sh: { start: number; values: Float32Array }[] = [];
+  let header: { count: number; shDegree: number; shScale?: number } | undefined;
+  const options: SplatStreamOptions = {
+    onHeader: (info) => (header = info),
+    onBatch: (batch) => batches.push({ ...batch, positions: batch.positions.slice(), colors: batch.colors.slice() }),
+    onShCoeffs: (values, start) => sh.push({ start, values: values.slice() }),
+  };
+  const data = await loadPlyStream('/scene.ply', options);
+  return { data, header, batches, sh };
+}
+
+function concat(arrays: Float32Array[]): Float32Array {
+  const out = new Float32Array(arrays.reduce((n, a) => n + a.length, 0));
+  let at = 0;
+  for (const a of arrays) {
+    out.set(a, at);
+    at += a.length;
+  }
+  return out;
+}
+
+describe('loadPlyStream', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('decodes a standard PLY read in pieces like loadStandardPly', async () => {
+    const buffer = saveStandardPly(syntheticSplats(200, 3));
+    const boundaries = serveChunked(buffer);
+    const headerLength = findEndHeader(new Uint8Array(buffer));
+    expect(boundaries[0]).toBeLessThan(headerLength);
+
+    const { data, header, batches } = await stream(buffer);
+    const expected = loadStandardPly(buffer, parsePlyHeader(buffer));
+    // Nothing in a standard PLY header bounds its SH
+    expect(header).toEqual({ count: 200, shDegree: 3, shScale: undefined });
+    expect(data.positions).toEqual(expected.positions);
+    expect(data.rotations).toEqual(expected.rotations);
+    expect(data.scales).toEqual(expected.scales);
+    expect(data.colors).toEqual(expected.colors);
+    expect(data.shCoeffs).toEqual(expected.shCoeffs);
+    expect(concat(batches.map((b) => b.positions))).toEqual(expected.positions);
+    expect(concat(batches.map((b) => b.colors))).toEqual(expected.colors);
+  });
+
+  it('decodes a compressed PLY read in pieces and delivers its SH through onShCoeffs', async () => {
+    const buffer = saveCompressedPly(syntheticSplats(300, 2));
+    const boundaries = serveChunked(buffer);
+    expect(boundaries[0]).toBeLessThan(findEndHeader(new Uint8Array(buffer)));
+
+    const { data, header, batches, sh } = await stream(buffer);
+    const expected = loadCompressedPly(buffer, parsePlyHeader(buffer));
+    expect(header).toEqual({ count: 300, shDegree: 2, shScale: 4 });
+    expect(data.positions).toEqual(expected.positions);
+    expect(data.rotations).toEqual(expected.rotations);
+    expect(data.scales).toEqual(expected.scales);
+    expect(data.colors).toEqual(expected.colors);
+    expect(data.shCoeffs).toEqual(expected.shCoeffs);
+
+    // Batches carry no SH: it trails the vertices and arrives separately, in order
+    expect(batches.every((b) => b.shCoeffs === undefined)).toBe(true);
+    expect(concat(batches.map((b) => b.positions))).toEqual(expected.positions);
+    const stride = shStrideForDegree(2);
+    let next = 0;
+    for (const { start, values } of sh) {
+      expect(start).toBe(next);
+      next += values.length / stride;
+    }
+    expect(next).toBe(300);
+    expect(concat(sh.map((s) => s.values))).toEqual(expected.shCoeffs);
+  });
+});
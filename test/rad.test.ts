@@ -0,0 +1,341 @@
+import { describe, expect, it } from 'vitest';
+import { isRadData, loadRad, loadRadStream } from '../src/loaders/rad-loader';
+import { saveStandardPly } from '../src/writers/standard-ply-writer';
+import { shDimForDegree, sliceSplatData } from '../src/splat-data';
+import type { SplatData } from '../src/types';
+import { expectClose, maxRelativeError, maxRotationAngle, syntheticSplats } from './helpers';
+
+interface RadProperty {
+  property: string;
+  encoding: string;
+  data: Uint8Array;
+  min?: number;
+  max?: number;
+}
+
+type SplatEncoding = Record<string, number>;
+
+function roundup8(n: number): number {
+  return (n + 7) & ~7;
+}
+
+/** Magic, u32 JSON length, then the JSON padded to 8 bytes. */
+function withJsonHeader(magic: string, json: object, bodyBytes: number): { bytes: Uint8Array; bodyStart: number } {
+  const text = new TextEncoder().encode(JSON.stringify(json));
+  const bodyStart = 8 + roundup8(text.length);
+  const bytes = new Uint8Array(bodyStart + bodyBytes);
+  bytes.set(new TextEncoder().encode(magic), 0);
+  new DataView(bytes.buffer).setUint32(4, text.length, true);
+  bytes.set(text, 8);
+  return { bytes, bodyStart };
+}
+
+/** One RADC chunk: JSON meta, u64 payload size, then each property's bytes padded to 8. */
+function radChunk(base: number, count: number, maxSh: number, properties: RadProperty[], splatEncoding?: SplatEncoding): Uint8Array {
+  const payloadBytes = properties.reduce((sum, p) => sum + roundup8(p.data.length), 0);
+  let offset = 0;
+  const meta = {
+    version: 1,
+    base,
+    count,
+    payloadBytes,
+    maxSh,
+    splatEncoding,
+    properties: properties.map(({ property, encoding, data, min, max }) => {
+      const entry = { offset, bytes: data.length, property, encoding, min, max };
+      offset += roundup8(data.length);
+      return entry;
+    }),
+  };
+  const { bytes, bodyStart } = withJsonHeader('RADC', meta, 8 + payloadBytes);
+  new DataView(bytes.buffer).setBigUint64(bodyStart, BigInt(payloadBytes), true);
+  let at = bodyStart + 8;
+  for (const p of properties) {
+    bytes.set(p.data, at);
+    at += roundup8(p.data.length);
+  }
+  return bytes;
+}
+
+/** RAD0 file header listing `chunks`, followed by the chunks themselves. */
+function radFile(count: number, maxSh: number, chunks: Uint8Array[], splatEncoding?: SplatEncoding): ArrayBuffer {
+  let offset = 0;
+  const ranges = chunks.map((c) => {
+    const range = { offset, bytes: c.length };
+    offset += c.length;
+    return range;
+  });
+  const meta = { version: 1, type: 'gsplat', count, maxSh, chunks: ranges, splatEncoding };
+  const { bytes, bodyStart } = withJsonHeader('RAD0', meta, offset);
+  for (let i = 0; i < chunks.length; i++) bytes.set(chunks[i], bodyStart + ranges[i].offset);
+  return bytes.buffer as ArrayBuffer;
+}
+
+/** Interleaved values (i * dims + d) to RAD's dimension-major order (count * d + i). */
+function dimensionMajor(values: ArrayLike<number>, dims: number): number[] {
+  const count = values.length / dims;
+  const out = new Array<number>(values.length);
+  for (let i = 0; i < count; i++) {
+    for (let d = 0; d < dims; d++) out[count * d + i] = values[i * dims + d];
+  }
+  return out;
+}
+
+function f32Bytes(values: ArrayLike<number>, dims: number): Uint8Array {
+  return new Uint8Array(Float32Array.from(dimensionMajor(values, dims)).buffer);
+}
+
+function toHalf(v: number): number {
+  if (v === 0) return 0;
+  const sign = v < 0 ? 0x8000 : 0;
+  const abs = Math.abs(v);
+  let exp = Math.floor(Math.log2(abs));
+  let mantissa = Math.round((abs / 2 ** exp - 1) * 1024);
+  if (mantissa === 1024) {
+    mantissa = 0;
+    exp++;
+  }
+  return sign | ((exp + 15) << 10) | mantissa;
+}
+
+function f16Bytes(values: ArrayLike<number>, dims: number): Uint8Array {
+  return new Uint8Array(Uint16Array.from(dimensionMajor(values, dims), toHalf).buffer);
+}
+
+function r8Bytes(values: ArrayLike<number>, dims: number, min: number, max: number): Uint8Array {
+  return Uint8Array.from(dimensionMajor(values, dims), (v) => Math.round(((v - min) / (max - min)) * 255));
+}
+
+function s8Bytes(values: ArrayLike<number>, dims: number, max: number): Uint8Array {
+  return Uint8Array.from(dimensionMajor(values, dims), (v) => Math.round((v / max) * 127) & 0xff);
+}
+
+function ln0r8Bytes(values: ArrayLike<number>, dims: number, lnMin: number, lnMax: number): Uint8Array {
+  return Uint8Array.from(dimensionMajor(values, dims), (v) =>
+    1 + Math.round(((Math.log(v) - lnMin) / (lnMax - lnMin)) * 254));
+}
+
+/** Octahedral axis (2 bytes) plus half-angle byte per quaternion (w, x, y, z). */
+function oct88r8Bytes(rotations: Float32Array): Uint8Array {
+  const out = new Uint8Array((rotations.length / 4) * 3);
+  for (let i = 0; i < rotations.length / 4; i++) {
+    const sign = rotations[i * 4] < 0 ? -1 : 1;
+    const [w, x, y, z] = [0, 1, 2, 3].map((k) => sign * rotations[i * 4 + k]);
+    const norm = Math.abs(x) + Math.abs(y) + Math.abs(z) || 1;
+    let u = x / norm;
+    let v = y / norm;
+    if (z < 0) [u, v] = [(1 - Math.abs(v)) * Math.sign(u), (1 - Math.abs(u)) * Math.sign(v)];
+    out[i * 3] = Math.round(((u + 1) / 2) * 255);
+    out[i * 3 + 1] = Math.round(((v + 1) / 2) * 255);
+    out[i * 3 + 2] = Math.round((Math.acos(Math.min(1, w)) / (Math.PI / 2)) * 255);
+  }
+  return out;
+}
+
+/** Our [R.., G.., B..] SH block for `band` as RAD's interleaved RGB per coefficient. */
+function shBand(shCoeffs: Float32Array, shDim: number, offset: number, coeffs: number): Float32Array {
+  const count = shCoeffs.length / (3 * shDim);
+  const out = new Float32Array(count * coeffs * 3);
+  for (let i = 0; i < count; i++) {
+    for (let k = 0; k < coeffs; k++) {
+      for (let c = 0; c < 3; c++) out[(i * coeffs + k) * 3 + c] = shCoeffs[i * 3 * shDim + c * shDim + offset + k];
+    }
+  }
+  return out;
+}
+
+function loadSingleChunk(count: number, maxSh: number, properties: RadProperty[], splatEncoding?: SplatEncoding) {
+  return loadRad(radFile(count, maxSh, [radChunk(0, count, maxSh, properties)], splatEncoding));
+}
+
+/** Splats [start, end) of `data` as one chunk with every property present. */
+function radChunkOf(data: SplatData, start: number, end: number): Uint8Array {
+  const part = sliceSplatData(data, start, end);
+  const shDim = shDimForDegree(data.shDegree);
+  const properties: RadProperty[] = [
+    { property: 'center', encoding: 'f32', data: f32Bytes(part.positions, 3) },
+    { property: 'rgb', encoding: 'f32', data: f32Bytes(part.colors.filter((_, i) => i % 4 !== 3), 3) },
+    { property: 'alpha', encoding: 'f32', data: f32Bytes(part.colors.filter((_, i) => i % 4 === 3), 1) },
+    { property: 'scales', encoding: 'f32', data: f32Bytes(part.scales, 3) },
+    { property: 'orientation', encoding: 'oct88r8', data: oct88r8Bytes(part.rotations) },
+  ];
+  const bands: [string, number, number][] = [['sh1', 0, 3], ['sh2', 3, 5], ['sh3', 8, 7]];
+  for (const [property, offset, coeffs] of bands.slice(0, data.shDegree)) {
+    properties.push({ property, encoding: 'f32', data: f32Bytes(shBand(part.shCoeffs!, shDim, offset, coeffs), coeffs * 3) });
+  }
+  return radChunk(start, end - start, data.shDegree, properties);
+}
+
+/** One array per field, appended batch after batch. */
+function concatBatches(batches: SplatData[]) {
+  const join = (pick: (b: SplatData) => Float32Array) => {
+    const out = new Float32Array(batches.reduce((n, b) => n + pick(b).length, 0));
+    let at = 0;
+    for (const b of batches) {
+      out.set(pick(b), at);
+      at += pick(b).length;
+    }
+    return out;
+  };
+  return {
+    count: batches.reduce((n, b) => n + b.count, 0),
+    positions: join((b) => b.positions),
+    rotations: join((b) => b.rotations),
+    scales: join((b) => b.scales),
+    colors: join((b) => b.colors),
+    shCoeffs: join((b) => b.shCoeffs!),
+  };
+}
+
+describe('RAD', () => {
+  const data = syntheticSplats(40, 3);
+
+  it('round-trips f32 and f16 centers', async () => {
+    const exact = await loadSingleChunk(data.count, 0, [
+      { property: 'center', encoding: 'f32', data: f32Bytes(data.positions, 3) },
+    ]);
+    expect(exact.positions).toEqual(data.positions);
+
+    const half = await loadSingleChunk(data.count, 0, [
+      { property: 'center', encoding: 'f16', data: f16Bytes(data.positions, 3) },
+    ]);
+    // Positions within ±5: 10 mantissa bits leave under 2^-8
+    expectClose(half.positions, data.positions, 2 ** -8);
+  });
+
+  it('round-trips r8 colors and alpha within their ranges', async () => {
+    const rgb = data.colors.filter((_, i) => i % 4 !== 3);
+    const alpha = data.colors.filter((_, i) => i % 4 === 3);
+    const loaded = await loadSingleChunk(data.count, 0, [
+      { property: 'rgb', encoding: 'r8', data: r8Bytes(rgb, 3, 0, 1) },
+      { property: 'alpha', encoding: 'r8', data: r8Bytes(alpha, 1, 0, 1), min: 0, max: 1 },
+    ]);
+    expectClose(loaded.colors, data.colors, 0.5 / 255 + 1e-6);
+  });
+
+  it('round-trips ln_0r8 and ln_f16 scales', async () => {
+    const loaded = await loadSingleChunk(data.count, 0, [
+      { property: 'scales', encoding: 'ln_0r8', data: ln0r8Bytes(data.scales, 3, -12, 9) },
+    ]);
+    // Half a step of the default 21/254 log range
+    expect(maxRelativeError(loaded.scales, data.scales)).toBeLessThan(Math.exp(21 / 254 / 2) - 1 + 1e-6);
+
+    // ln_f16 stores negative logs for sub-unit scales
+    const half = await loadSingleChunk(data.count, 0, [
+      { property: 'scales', encoding: 'ln_f16', data: f16Bytes(data.scales.map(Math.log), 3) },
+    ]);
+    expect(maxRelativeError(half.scales, data.scales)).toBeLessThan(0.01);
+  });
+
+  it('round-trips oct88r8 orientations', async () => {
+    const loaded = await loadSingleChunk(data.count, 0, [
+      { property: 'orientation', encoding: 'oct88r8', data: oct88r8Bytes(data.rotations) },
+    ]);
+    expect(maxRotationAngle(loaded.rotations, data.rotations)).toBeLessThan(0.05);
+  });
+
+  it('round-trips s8 SH scaled by each band maximum', async () => {
+    const shDim = shDimForDegree(3);
+    const loaded = await loadSingleChunk(data.count, 3, [
+      { property: 'sh1', encoding: 's8', data: s8Bytes(shBand(data.shCoeffs!, shDim, 0, 3), 9, 0.5) },
+      { property: 'sh2', encoding: 's8', data: s8Bytes(shBand(data.shCoeffs!, shDim, 3, 5), 15, 0.5) },
+      { property: 'sh3', encoding: 's8', data: s8Bytes(shBand(data.shCoeffs!, shDim, 8, 7), 21, 0.5) },
+    ], { sh1_max: 0.5, sh2_max: 0.5, sh3_max: 0.5 });
+    expect(loaded.shDegree).toBe(3);
+    expectClose(loaded.shCoeffs!, data.shCoeffs!, 0.5 / 127 / 2 + 1e-6);
+  });
+
+  it('maps interleaved SH bands onto the shCoeffs layout', async () => {
+    const shDim = shDimForDegree(3);
+    const sh1 = shBand(data.shCoeffs!, shDim, 0, 3);
+    const sh2 = shBand(data.shCoeffs!, shDim, 3, 5);
+    const sh3 = shBand(data.shCoeffs!, shDim, 8, 7);
+    const loaded = await loadSingleChunk(data.count, 3, [
+      { property: 'sh1', encoding: 'f32', data: f32Bytes(sh1, 9) },
+      { property: 'sh2', encoding: 'f32', data: f32Bytes(sh2, 15) },
+      { property: 'sh3', encoding: 'f32', data: f32Bytes(sh3, 21) },
+    ]);
+    expect(loaded.shCoeffs).toEqual(data.shCoeffs);
+    // Splat 1, sh2 coefficient 0, green: RAD element 1 of the band lands after the 3 band-1 coefficients
+    expect(loaded.shCoeffs![1 * 3 * shDim + shDim + 3]).toBe(sh2[1 * 15 + 1]);
+
+    // Bands above the header's maxSh are dropped
+    const degree1 = await loadSingleChunk(data.count, 1, [
+      { property: 'sh1', encoding: 'f32', data: f32Bytes(sh1, 9) },
+      { property: 'sh2', encoding: 'f32', data: f32Bytes(sh2, 15) },
+    ]);
+    expect(degree1.shDegree).toBe(1);
+    const band1 = new Float32Array(data.count * 9);
+    for (let i = 0; i < data.count; i++) {
+      for (let c = 0; c < 3; c++) {
+        for (let k = 0; k < 3; k++) band1[i * 9 + c * 3 + k] = data.shCoeffs![i * 3 * shDim + c * shDim + k];
+      }
+    }
+    expect(degree1.shCoeffs).toEqual(band1);
+  });
+
+  it('recognises RAD0 and RADC magic', () => {
+    const chunk = radChunk(0, 1, 0, [{ property: 'center', encoding: 'f32', data: f32Bytes([0, 0, 0], 3) }]);
+    expect(isRadData(radFile(1, 0, [chunk]))).toBe(true);
+    expect(isRadData(chunk.slice().buffer)).toBe(true);
+    expect(isRadData(saveStandardPly(syntheticSplats(1, 0)))).toBe(false);
+    expect(isRadData(new ArrayBuffer(2))).toBe(false);
+  });
+
+  it('rejects encodings it does not know', async () => {
+    await expect(loadSingleChunk(1, 0, [
+      { property: 'center', encoding: 'u8', data: new Uint8Array(3) },
+    ])).rejects.toThrow(/^RAD: unsupported center encoding u8 \(supported: f32, f16/);
+    await expect(loadSingleChunk(1, 1, [
+      { property: 'sh1', encoding: 'r8', data: new Uint8Array(9) },
+    ])).rejects.toThrow('RAD: unsupported sh1 encoding r8');
+  });
+
+  it('streams batches that concatenate to the loadRad result', async () => {
+    const file = radFile(data.count, 3, [radChunkOf(data, 0, 16), radChunkOf(data, 16, 32), radChunkOf(data, 32, 40)]);
+    const whole = await loadRad(file);
+
+    const batches: SplatData[] = [];
+    let header: { count: number; shDegree: number; shScale?: number } | undefined;
+    const streamed = await loadRadStream(new File([file], 'scene.rad'), {
+      onHeader: (info) => (header = info),
+      // Batches are views into the final arrays: copy what each one held when delivered
+      onBatch: (batch) => batches.push({
+        ...batch,
+        positions: batch.positions.slice(),
+        rotations: batch.rotations.slice(),
+        scales: batch.scales.slice(),
+        colors: batch.colors.slice(),
+        shCoeffs: batch.shCoeffs?.slice(),
+      }),
+    });
+
+    // Float SH: the header gives no bound
+    expect(header).toEqual({ count: data.count, shDegree: 3, shScale: undefined });
+    expect(batches.map((b) => b.count)).toEqual([16, 16, 8]);
+    expect(concatBatches(batches)).toEqual({
+      count: whole.count,
+      positions: whole.positions,
+      rotations: whole.rotations,
+      scales: whole.scales,
+      colors: whole.colors,
+      shCoeffs: whole.shCoeffs,
+    });
+    expect(streamed.bounds).toEqual(whole.bounds);
+  });
+
+  it('reports the s8 SH maxima as the stream header scale', async () => {
+    const shDim = shDimForDegree(2);
+    const sh = syntheticSplats(10, 2).shCoeffs!;
+    const chunk = radChunk(0, 10, 2, [
+      { property: 'sh1', encoding: 's8', data: s8Bytes(shBand(sh, shDim, 0, 3), 9, 0.5) },
+      { property: 'sh2', encoding: 's8', data: s8Bytes(shBand(sh, shDim, 3, 5), 15, 0.75) },
+    ]);
+    let shScale: number | undefined;
+    await loadRadStream(new File([radFile(10, 2, [chunk], { sh1_max: 0.5, sh2_max: 0.75 })], 'scene.rad'), {
+      onHeader: (info) => (shScale = info.shScale),
+      onBatch: () => {},
+    });
+    expect(shScale).toBe(0.75);
+  });
+});
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadSogFromFiles } from '../src/loaders/sog-loader';
+import { saveSog } from '../src/writers/sog-writer';
+import { encodeRaw, expectClose, stubImageDecoding, syntheticSplats } from './helpers';
+
+async function roundTrip(data: ReturnType<typeof syntheticSplats>, shPaletteSize?: number) {
+  const { meta, files } = await saveSog(data, { encodeImage: encodeRaw, shPaletteSize });
+  const list = [...files].map(([name, blob]) => new File([blob], name));
+  return { meta, loaded: await loadSogFromFiles(list) };
+}
+
+describe('SOG', () => {
+  beforeEach(stubImageDecoding);
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('writes SH bands 1-3 as an shN palette that the loader decodes', async () => {
+    const data = syntheticSplats(200, 3);
+    // One palette entry per splat: only the 256-entry value codebook quantizes
+    const { meta, loaded } = await roundTrip(data, 200);
+
+    expect(meta.shN).toMatchObject({ count: 200, bands: 3, files: ['shN_centroids.webp', 'shN_labels.webp'] });
+    expect(loaded.shDegree).toBe(3);
+    // Values span [-0.5, 0.5]: 256 levels leave well under 0.01
+    expectClose(loaded.shCoeffs!, data.shCoeffs!, 0.01);
+  });
+
+  it('shares palette entries between splats with a smaller palette', async () => {
+    const data = syntheticSplats(300, 1);
+    const { meta, loaded } = await roundTrip(data, 16);
+
+    expect(meta.shN!.count).toBe(16);
+    expect(loaded.shDegree).toBe(1);
+    const distinct = new Set<string>();
+    for (let i = 0; i < loaded.count; i++) {
+      distinct.add(Array.from(loaded.shCoeffs!.subarray(i * 9, i * 9 + 9)).join());
+    }
+    expect(distinct.size).toBeLessThanOrEqual(16);
+  });
+
+  it('omits shN for scenes without SH', async () => {
+    const { meta, loaded } = await roundTrip(syntheticSplats(50, 0));
+    expect(meta.shN).toBeUndefined();
+    expect(loaded.shDegree).toBe(0);
+    expect(loaded.shCoeffs).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { SplatEditor, SPLAT_DELETED, SPLAT_HIDDEN, SPLAT_SELECTED } from '../src/core/SplatEditor';
+import type { SplatEditorHost } from '../src/core/SplatEditor';
+
+/** Splat i sits at (i, 0, 0); `shown` stands in for objects and crop volumes. */
+function createEditor(count: number, shown: Uint8Array | null = null) {
+  const positions = Float32Array.from({ length: count * 3 }, (_, i) => (i % 3 === 0 ? Math.floor(i / 3) : 0));
+  const host: SplatEditorHost = {
+    splatCount: () => count,
+    positions: () => positions,
+    viewProjMatrix: () => new Float32Array([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1]),
+    shownSplats: () => shown,
+    canvasSize: () => [100, 100],
+    uploadStates: () => {},
+    pickSplat: async (x) => (x < count ? x : null),
+  };
+  const editor = new SplatEditor(host);
+  editor.reset(count);
+  return editor;
+}
+
+function states(editor: SplatEditor, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => editor.stateOf(i));
+}
+
+describe('SplatEditor', () => {
+  it('undoes and redoes sparse and dense edits', () => {
+    const count = 100;
+    const editor = createEditor(count);
+    const history: number[][] = [states(editor, count)];
+
+    editor.select({ type: 'indices', indices: [3, 7] }); // sparse
+    history.push(states(editor, count));
+    editor.invertSelection(); // dense
+    history.push(states(editor, count));
+    editor.hideSelected();
+    history.push(states(editor, count));
+    editor.select({ type: 'box', min: [0, -1, -1], max: [9.5, 1, 1] });
+    editor.deleteSelected();
+    history.push(states(editor, count));
+
+    expect(editor.selectedCount).toBe(0);
+    expect(editor.hiddenCount).toBe(count - 2);
+    expect(editor.deletedCount).toBe(2);
+    expect(editor.stateOf(3)).toBe(SPLAT_DELETED);
+    expect(editor.stateOf(0)).toBe(SPLAT_HIDDEN);
+
+    for (let k = history.length - 2; k >= 0; k--) {
+      editor.undo();
+      if (k === 3) editor.undo(); // the box selection was its own edit
+      expect(states(editor, count)).toEqual(history[k]);
+    }
+    expect(editor.canUndo).toBe(false);
+    editor.redo();
+    expect(states(editor, count)).toEqual(history[1]);
+    editor.redo();
+    expect(states(editor, count)).toEqual(history[2]);
+  });
+
+  it('selects the picked splat at a canvas point', async () => {
+    const editor = createEditor(10);
+    expect(await editor.selectAt(4, 0)).toBe(4);
+    expect(editor.stateOf(4)).toBe(SPLAT_SELECTED);
+    await editor.selectAt(6, 0, 'add');
+    expect(editor.selectedCount).toBe(2);
+    expect(await editor.selectAt(50, 0)).toBe(null);
+    expect(editor.selectedCount).toBe(0);
+  });
+
+  it('selects only splats that are drawn', () => {
+    // Splats 0-4 are cropped away or in a hidden object
+    const shown = Uint8Array.from({ length: 10 }, (_, i) => (i < 5 ? 0 : 1));
+    const editor = createEditor(10, shown);
+    const selected = () => states(editor, 10).flatMap((state, i) => (state & SPLAT_SELECTED ? [i] : []));
+
+    editor.select({ type: 'box', min: [-1, -1, -1], max: [7.5, 1, 1] });
+    expect(selected()).toEqual([5, 6, 7]);
+    editor.select({ type: 'sphere', center: [0, 0, 0], radius: 9.5 });
+    expect(selected()).toEqual([5, 6, 7, 8, 9]);
+    // Only splats 0 and 1 project into the 100 px canvas, both not drawn
+    editor.select({ type: 'rect', min: [0, 0], max: [100, 100] });
+    expect(selected()).toEqual([]);
+    editor.select({ type: 'lasso', points: [[0, 0], [100, 0], [100, 100], [0, 100]] }, 'add');
+    expect(selected()).toEqual([]);
+    editor.select({ type: 'indices', indices: [2, 6] });
+    expect(selected()).toEqual([6]);
+
+    editor.selectAll();
+    expect(selected()).toEqual([5, 6, 7, 8, 9]);
+    editor.invertSelection();
+    expect(selected()).toEqual([]);
+    editor.select({ type: 'indices', indices: [5] });
+    editor.invertSelection();
+    expect(selected()).toEqual([6, 7, 8, 9]);
+  });
+});
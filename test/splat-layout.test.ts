@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { countShClamped, decodeSceneBuffers, encodeShCoeffs, shQuantizationScale } from '../src/core/SplatLayout';
+import { expectClose, syntheticSplats } from './helpers';
+
+describe("'compact-sh8' SH", () => {
+  it('quantizes against the scene scale instead of clamping to [-1, 1]', () => {
+    const data = syntheticSplats(50, 3);
+    const sh = data.shCoeffs!.map((v) => v * 6); // up to ±3
+    const scale = shQuantizationScale(sh);
+    expect(scale).toBeGreaterThan(2);
+    expect(countShClamped(sh, scale)).toBeLessThanOrEqual(Math.floor(sh.length * 0.001));
+
+    const words = encodeShCoeffs('compact-sh8', sh, data.count, 3, scale) as Uint32Array;
+    const empty = new ArrayBuffer(data.count * 16);
+    const decoded = decodeSceneBuffers('compact-sh8', {
+      position: new ArrayBuffer(data.count * 12), rotation: empty, scale: empty, color: empty,
+      sh: words.buffer as ArrayBuffer,
+    }, data.count, 3, scale);
+    expectClose(decoded.shCoeffs!, sh, scale / 127 / 2 + 1e-6);
+  });
+
+  it('scales to the 99.9th percentile so outliers do not coarsen every coefficient', () => {
+    const sh = syntheticSplats(100, 3).shCoeffs!; // within ±0.5
+    sh[7] = 40;
+    sh[123] = -25;
+    const scale = shQuantizationScale(sh);
+    expect(scale).toBeLessThanOrEqual(0.5 + 40 / 4095);
+    expect(countShClamped(sh, scale)).toBe(2);
+  });
+
+  it('counts coefficients beyond the scale', () => {
+    expect(countShClamped(new Float32Array([0.5, -2, 1.5, 1]), 1)).toBe(2);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { coordinateSystemMatrix, rotateShCoeffs, transformSplatData } from '../src/splat-transform';
+import { coordinateSystemUp } from '../src/core/Camera';
+import { shDimForDegree } from '../src/splat-data';
+import { expectClose, maxRotationAngle, random, syntheticSplats } from './helpers';
+
+// Real SH basis of bands 1-3 with the signs preprocess.wgsl uses
+function shBasis(x: number, y: number, z: number): number[] {
+  const xx = x * x, yy = y * y, zz = z * z;
+  return [
+    0.4886025119029199 * -y,
+    0.4886025119029199 * z,
+    0.4886025119029199 * -x,
+    1.0925484305920792 * x * y,
+    -1.0925484305920792 * y * z,
+    0.31539156525252005 * (2 * zz - xx - yy),
+    -1.0925484305920792 * x * z,
+    0.5462742152960396 * (xx - yy),
+    -0.5900435899266435 * y * (3 * xx - yy),
+    2.890611442640554 * x * y * z,
+    -0.4570457994644658 * y * (4 * zz - xx - yy),
+    0.3731763325901154 * z * (2 * zz - 3 * xx - 3 * yy),
+    -0.4570457994644658 * x * (4 * zz - xx - yy),
+    1.445305721320277 * z * (xx - yy),
+    -0.5900435899266435 * x * (xx - 3 * yy),
+  ];
+}
+
+/** View-dependent color of channel `ch` of splat `i` for unit direction `d`. */
+function evalSh(shCoeffs: Float32Array, i: number, ch: number, degree: number, d: number[]): number {
+  const dim = shDimForDegree(degree);
+  const basis = shBasis(d[0], d[1], d[2]);
+  let sum = 0;
+  for (let k = 0; k < dim; k++) sum += shCoeffs[(i * 3 + ch) * dim + k] * basis[k];
+  return sum;
+}
+
+/** Column-major 3x3 rotation of a unit (w, x, y, z) quaternion. */
+function quatToMat3([w, x, y, z]: number[]): number[] {
+  return [
+    1 - 2 * (y * y + z * z), 2 * (x * y + w * z), 2 * (x * z - w * y),
+    2 * (x * y - w * z), 1 - 2 * (x * x + z * z), 2 * (y * z + w * x),
+    2 * (x * z + w * y), 2 * (y * z - w * x), 1 - 2 * (x * x + y * y),
+  ];
+}
+
+function mat4(r: number[], scale = 1, t = [0, 0, 0]): number[] {
+  return [
+    r[0] * scale, r[1] * scale, r[2] * scale, 0,
+    r[3] * scale, r[4] * scale, r[5] * scale, 0,
+    r[6] * scale, r[7] * scale, r[8] * scale, 0,
+    t[0], t[1], t[2], 1,
+  ];
+}
+
+const ROT_Z_90 = [0, 1, 0, -1, 0, 0, 0, 0, 1];
+
+describe('rotateShCoeffs', () => {
+  it('maps band 1 for a 90° turn about z', () => {
+    // Basis (-y, z, -x): after x → y, the color at d is the old color at (d.y, -d.x, d.z)
+    const sh = Float32Array.from([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    rotateShCoeffs(sh, 1, 1, ROT_Z_90);
+    expectClose(sh, [3, 2, -1, 6, 5, -4, 9, 8, -7], 1e-6);
+  });
+
+  it.each([1, 2, 3])('evaluates degree %i at Rᵀd as before at d for arbitrary rotations', (degree) => {
+    const rand = random(7);
+    const data = syntheticSplats(20, degree, 3);
+    for (let trial = 0; trial < 5; trial++) {
+      const q = [0, 1, 2, 3].map(() => rand() * 2 - 1);
+      const len = Math.hypot(...q);
+      const r = quatToMat3(q.map((v) => v / len));
+      const rotated = data.shCoeffs!.slice();
+      rotateShCoeffs(rotated, data.count, degree, r);
+
+      for (let s = 0; s < 10; s++) {
+        const v = [0, 1, 2].map(() => rand() * 2 - 1);
+        const n = Math.hypot(...v);
+        const d = v.map((c) => c / n);
+        // Rᵀd with column-major r
+        const rtd = [0, 1, 2].map((col) => r[col * 3] * d[0] + r[col * 3 + 1] * d[1] + r[col * 3 + 2] * d[2]);
+        for (let i = 0; i < data.count; i++) {
+          for (let ch = 0; ch < 3; ch++) {
+            expect(evalSh(rotated, i, ch, degree, d)).toBeCloseTo(evalSh(data.shCoeffs!, i, ch, degree, rtd), 5);
+          }
+        }
+      }
+    }
+  });
+});
+
+describe('transformSplatData', () => {
+  it('moves, rotates and scales splats and rotates their SH', () => {
+    const data = syntheticSplats(50, 3);
+    const out = transformSplatData(data, mat4(ROT_Z_90, 2, [1, 2, 3]));
+
+    const expectedPositions = new Float32Array(data.count * 3);
+    const expectedRotations = new Float32Array(data.count * 4);
+    const s = Math.SQRT1_2; // (w, x, y, z) of the 90° turn about z: (cos 45°, 0, 0, sin 45°)
+    for (let i = 0; i < data.count; i++) {
+      const [x, y, z] = data.positions.subarray(i * 3, i * 3 + 3);
+      expectedPositions.set([-2 * y + 1, 2 * x + 2, 2 * z + 3], i * 3);
+      const [w, qx, qy, qz] = data.rotations.subarray(i * 4, i * 4 + 4);
+      expectedRotations.set([s * w - s * qz, s * qx - s * qy, s * qy + s * qx, s * qz + s * w], i * 4);
+    }
+    expectClose(out.positions, expectedPositions, 1e-5);
+    expect(maxRotationAngle(out.rotations, expectedRotations)).toBeLessThan(1e-5);
+    expectClose(out.scales, data.scales.map((v) => v * 2), 1e-6);
+    expectClose(out.colors, data.colors, 0);
+
+    const rotated = data.shCoeffs!.slice();
+    rotateShCoeffs(rotated, data.count, 3, ROT_Z_90);
+    expectClose(out.shCoeffs!, rotated, 1e-6);
+    expect(out.bounds.min[0]).toBeCloseTo(Math.min(...Array.from(expectedPositions.filter((_, k) => k % 3 === 0))), 5);
+  });
+});
+
+describe('coordinateSystemMatrix', () => {
+  const systems = ['opencv', 'opengl', 'z-up'] as const;
+
+  it('maps up onto up with a proper rotation that the reverse conversion undoes', () => {
+    for (const from of systems) {
+      for (const to of systems) {
+        const m = coordinateSystemMatrix(from, to);
+        const [ux, uy, uz] = coordinateSystemUp(from);
+        const up = [0, 1, 2].map((r) => m[r] * ux + m[4 + r] * uy + m[8 + r] * uz);
+        expectClose(up, coordinateSystemUp(to), 0);
+        const det =
+          m[0] * (m[5] * m[10] - m[6] * m[9]) - m[4] * (m[1] * m[10] - m[2] * m[9]) + m[8] * (m[1] * m[6] - m[2] * m[5]);
+        expect(det).toBe(1);
+        const back = coordinateSystemMatrix(to, from);
+        const product = [0, 1, 2].flatMap((c) => [0, 1, 2].map((r) => m[r] * back[c * 4] + m[4 + r] * back[c * 4 + 1] + m[8 + r] * back[c * 4 + 2]));
+        expectClose(product, [1, 0, 0, 0, 1, 0, 0, 0, 1], 0);
+      }
+    }
+  });
+
+  it('converts data so SH shows, from each direction, the color it had in the source axes', () => {
+    const data = syntheticSplats(20, 3);
+    const m = coordinateSystemMatrix('z-up', 'opencv');
+    const out = transformSplatData(data, m);
+    const rand = random(7);
+    for (let k = 0; k < 10; k++) {
+      const v = [rand() - 0.5, rand() - 0.5, rand() - 0.5];
+      const len = Math.hypot(v[0], v[1], v[2]);
+      const d = v.map((x) => x / len);
+      // The source direction is Mᵀ d
+      const source = [0, 1, 2].map((c) => m[c * 4] * d[0] + m[c * 4 + 1] * d[1] + m[c * 4 + 2] * d[2]);
+      for (let i = 0; i < data.count; i++) {
+        for (let ch = 0; ch < 3; ch++) {
+          expect(evalSh(out.shCoeffs!, i, ch, 3, d)).toBeCloseTo(evalSh(data.shCoeffs!, i, ch, 3, source), 4);
+        }
+      }
+    }
+  });
+});
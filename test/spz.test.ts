@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { loadSpz } from '../src/loaders/spz-loader';
+import { saveSpz, spzFractionalBitsForBounds } from '../src/writers/spz-writer';
+import { expectClose, maxRotationAngle, maxRelativeError, syntheticSplats } from './helpers';
+
+describe('SPZ', () => {
+  it.each([2, 3] as const)('round-trips version %i within its quantization', async (version) => {
+    const data = syntheticSplats(500, 3);
+    const { buffer, fractionalBits, maxPositionError } = await saveSpz(data, { version });
+    const loaded = await loadSpz(buffer);
+
+    expect(fractionalBits).toBe(spzFractionalBitsForBounds(data.bounds));
+    expect(maxPositionError).toBeLessThanOrEqual(0.5 / 2 ** fractionalBits);
+    expect(loaded.count).toBe(data.count);
+    expect(loaded.shDegree).toBe(3);
+    expectClose(loaded.positions, data.positions, maxPositionError + 1e-6);
+    // 8-bit log-scale in steps of 1/16
+    expect(maxRelativeError(loaded.scales, data.scales)).toBeLessThan(Math.exp(1 / 32) - 1 + 1e-3);
+    // v2 stores x, y, z in 8 bits and rebuilds w, which is coarse when w is near 0
+    expect(maxRotationAngle(loaded.rotations, data.rotations)).toBeLessThan(version === 3 ? 0.005 : 0.2);
+    // Colors: 8 bits over the SH DC range; alpha: 8 bits through the sigmoid
+    expectClose(loaded.colors, data.colors, 0.01);
+    // SH: 5-bit band 1, 4-bit bands 2-3 over [-1, 1]
+    expectClose(loaded.shCoeffs!, data.shCoeffs!, 16 / 128);
+  });
+
+  it('writes fewer SH bands on request and reports the fractional bits used', async () => {
+    const data = syntheticSplats(50, 3);
+    const { buffer, fractionalBits } = await saveSpz(data, { shDegree: 1, fractionalBits: 10 });
+    const loaded = await loadSpz(buffer);
+    expect(fractionalBits).toBe(10);
+    expect(loaded.shDegree).toBe(1);
+    for (let i = 0; i < data.count; i++) {
+      for (let ch = 0; ch < 3; ch++) {
+        expectClose(
+          loaded.shCoeffs!.subarray((i * 3 + ch) * 3, (i * 3 + ch) * 3 + 3),
+          data.shCoeffs!.subarray((i * 3 + ch) * 15, (i * 3 + ch) * 15 + 3),
+          8 / 128,
+        );
+      }
+    }
+  });
+});
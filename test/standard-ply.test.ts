@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { parsePlyHeader } from '../src/loaders/ply-parser';
+import { loadStandardPly } from '../src/loaders/standard-ply-loader';
+import { saveStandardPly } from '../src/writers/standard-ply-writer';
+import { expectClose, maxRotationAngle, syntheticSplats } from './helpers';
+
+function load(buffer: ArrayBuffer) {
+  return loadStandardPly(buffer, parsePlyHeader(buffer));
+}
+
+/** The header text and float32 vertex rows of a saveStandardPly file. */
+function splitPly(buffer: ArrayBuffer): { header: string; rows: Float32Array[] } {
+  const ply = parsePlyHeader(buffer);
+  const vertex = ply.elements.find((el) => el.name === 'vertex')!;
+  const header = new TextDecoder().decode(new Uint8Array(buffer, 0, ply.headerByteLength));
+  const columns = vertex.properties.length;
+  const values = new Float32Array(buffer.slice(ply.headerByteLength));
+  const rows = Array.from({ length: vertex.count }, (_, i) => values.subarray(i * columns, (i + 1) * columns));
+  return { header, rows };
+}
+
+function joinPly(header: string, body: Uint8Array): ArrayBuffer {
+  const head = new TextEncoder().encode(header);
+  const out = new Uint8Array(head.length + body.length);
+  out.set(head);
+  out.set(body, head.length);
+  return out.buffer;
+}
+
+describe('standard PLY', () => {
+  it.each([0, 1, 3])('round-trips SH degree %i within float tolerance', (shDegree) => {
+    const data = syntheticSplats(500, shDegree);
+    const loaded = load(saveStandardPly(data));
+
+    expect(loaded.count).toBe(data.count);
+    expect(loaded.shDegree).toBe(shDegree);
+    expectClose(loaded.positions, data.positions, 0);
+    expect(maxRotationAngle(loaded.rotations, data.rotations)).toBeLessThan(1e-6);
+    expectClose(loaded.scales, data.scales, 1e-6);
+    expectClose(loaded.colors, data.colors, 1e-6);
+    if (shDegree) expectClose(loaded.shCoeffs!, data.shCoeffs!, 0);
+    else expect(loaded.shCoeffs).toBeUndefined();
+  });
+
+  it('writes the same file after load→save→load', () => {
+    const first = saveStandardPly(syntheticSplats(300));
+    const second = saveStandardPly(load(first));
+    const a = load(first);
+    const b = load(second);
+    expectClose(b.positions, a.positions, 0);
+    expectClose(b.scales, a.scales, 1e-6);
+    expectClose(b.colors, a.colors, 1e-6);
+    expectClose(b.shCoeffs!, a.shCoeffs!, 0);
+  });
+
+  describe('other encodings decode like binary_little_endian', () => {
+    const le = saveStandardPly(syntheticSplats(50, 2));
+    const expected = load(le);
+    const { header, rows } = splitPly(le);
+
+    it('ascii', () => {
+      // Shortest round-trip decimal of each float32
+      const body = rows.map((row) => Array.from(row, String).join(' ')).join('\n') + '\n';
+      const ascii = joinPly(header.replace('binary_little_endian', 'ascii'), new TextEncoder().encode(body));
+      expect(load(ascii)).toEqual(expected);
+    });
+
+    it('binary_big_endian', () => {
+      const bytes = new Uint8Array(le.slice(header.length));
+      for (let i = 0; i < bytes.length; i += 4) bytes.subarray(i, i + 4).reverse();
+      expect(load(joinPly(header.replace('binary_little_endian', 'binary_big_endian'), bytes))).toEqual(expected);
+    });
+
+    it.each(['before', 'after'])('with a face list element %s the vertices', (where) => {
+      // Two triangles: uchar count, then int indices
+      const faces = new Uint8Array(2 * 13);
+      const view = new DataView(faces.buffer);
+      for (let f = 0; f < 2; f++) {
+        faces[f * 13] = 3;
+        for (let k = 0; k < 3; k++) view.setInt32(f * 13 + 1 + k * 4, f + k, true);
+      }
+      const faceHeader = 'element face 2\nproperty list uchar int vertex_indices\n';
+      const vertices = new Uint8Array(le.slice(header.length));
+      let withFaces: ArrayBuffer;
+      if (where === 'before') {
+        const body = new Uint8Array(faces.length + vertices.length);
+        body.set(faces);
+        body.set(vertices, faces.length);
+        withFaces = joinPly(header.replace('element vertex', `${faceHeader}element vertex`), body);
+      } else {
+        const body = new Uint8Array(vertices.length + faces.length);
+        body.set(vertices);
+        body.set(faces, vertices.length);
+        withFaces = joinPly(header.replace('end_header', `${faceHeader}end_header`), body);
+      }
+      expect(load(withFaces)).toEqual(expected);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isZipData, unzip } from '../src/loaders/zip-reader';
+import { loadSogBundle, loadSogFromFiles } from '../src/loaders/sog-loader';
+import { saveSog } from '../src/writers/sog-writer';
+import { encodeRaw, stubImageDecoding, syntheticSplats } from './helpers';
+
+interface ZipInput {
+  name: string;
+  data: Uint8Array;
+  deflate?: boolean;
+  /** Set general-purpose bit 3: zero sizes in the local header, a data descriptor after the data. */
+  descriptor?: boolean;
+}
+
+function crc32(bytes: Uint8Array): number {
+  let crc = ~0;
+  for (const b of bytes) {
+    crc ^= b;
+    for (let k = 0; k < 8; k++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return ~crc >>> 0;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Local headers and data, then the central directory and end record. */
+async function zip(inputs: ZipInput[]): Promise<ArrayBuffer> {
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  for (const input of inputs) {
+    const name = new TextEncoder().encode(input.name);
+    const payload = input.deflate ? await deflateRaw(input.data) : input.data;
+    const crc = crc32(input.data);
+    const flags = input.descriptor ? 0x08 : 0;
+    const method = input.deflate ? 8 : 0;
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, flags, true);
+    lv.setUint16(8, method, true);
+    if (!input.descriptor) {
+      lv.setUint32(14, crc, true);
+      lv.setUint32(18, payload.length, true);
+      lv.setUint32(22, input.data.length, true);
+    }
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    parts.push(local, payload);
+    let localBytes = local.length + payload.length;
+    if (input.descriptor) {
+      const descriptor = new Uint8Array(16);
+      const dv = new DataView(descriptor.buffer);
+      dv.setUint32(0, 0x08074b50, true);
+      dv.setUint32(4, crc, true);
+      dv.setUint32(8, payload.length, true);
+      dv.setUint32(12, input.data.length, true);
+      parts.push(descriptor);
+      localBytes += descriptor.length;
+    }
+
+    const entry = new Uint8Array(46 + name.length);
+    const cv = new DataView(entry.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, flags, true);
+    cv.setUint16(10, method, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, payload.length, true);
+    cv.setUint32(24, input.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    entry.set(name, 46);
+    central.push(entry);
+    offset += localBytes;
+  }
+
+  const dirSize = central.reduce((n, e) => n + e.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, inputs.length, true);
+  ev.setUint16(10, inputs.length, true);
+  ev.setUint32(12, dirSize, true);
+  ev.setUint32(16, offset, true);
+  return new Blob([...parts, ...central, eocd].map((p) => p.slice())).arrayBuffer();
+}
+
+const text = (s: string) => new TextEncoder().encode(s);
+
+describe('unzip', () => {
+  it('extracts stored and deflated entries', async () => {
+    const repeated = text('splat '.repeat(500));
+    const archive = await zip([
+      { name: 'stored.txt', data: text('stored entry') },
+      { name: 'dir/', data: new Uint8Array(0) },
+      { name: 'dir/deflated.txt', data: repeated, deflate: true },
+    ]);
+    expect(isZipData(archive)).toBe(true);
+
+    const files = await unzip(archive);
+    expect([...files.keys()].sort()).toEqual(['dir/deflated.txt', 'stored.txt']);
+    expect(await files.get('stored.txt')!.text()).toBe('stored entry');
+    expect(new Uint8Array(await files.get('dir/deflated.txt')!.arrayBuffer())).toEqual(repeated);
+  });
+
+  it('takes sizes from the central directory when entries use a data descriptor', async () => {
+    const data = text('streamed '.repeat(200));
+    const archive = await zip([
+      { name: 'a.bin', data, deflate: true, descriptor: true },
+      { name: 'b.bin', data: text('after the descriptor'), descriptor: true },
+    ]);
+    const files = await unzip(archive);
+    expect(new Uint8Array(await files.get('a.bin')!.arrayBuffer())).toEqual(data);
+    expect(await files.get('b.bin')!.text()).toBe('after the descriptor');
+  });
+});
+
+describe('loadSogBundle', () => {
+  beforeEach(stubImageDecoding);
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('loads a bundle with meta.json in a subdirectory like the loose files', async () => {
+    const { files } = await saveSog(syntheticSplats(100, 1), { encodeImage: encodeRaw });
+    const inputs: ZipInput[] = [];
+    for (const [name, blob] of files) {
+      inputs.push({ name: `scene/${name}`, data: new Uint8Array(await blob.arrayBuffer()), deflate: name === 'meta.json' });
+    }
+    const bundled = await loadSogBundle(await zip(inputs));
+    const loose = await loadSogFromFiles([...files].map(([name, blob]) => new File([blob], name)));
+    expect(bundled).toEqual(loose);
+  });
+
+  it('rejects a bundle without meta.json', async () => {
+    const archive = await zip([{ name: 'means_l.webp', data: new Uint8Array(8) }]);
+    await expect(loadSogBundle(archive)).rejects.toThrow('SOG: bundle has no meta.json');
+  });
+});